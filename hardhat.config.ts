@@ -1,11 +1,14 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import dotenv from "dotenv";
 
 import "./hardhat-change-network";
 import "./task/flatten2";
 
 import networkPolygonTestnet from "./.networks/polygonTestnet.json";
 
+dotenv.config();
+
 const SOLC_0_8_27_NO_OPTIMIZER = {
     version: "0.8.27",
     settings: {
@@ -42,6 +45,12 @@ const config: HardhatUserConfig = {
             url: "http://127.0.0.1:8545",
         },
     },
+    etherscan: {
+        // keyed by hardhat-verify chain name, polygonTestnet is polygonAmoy
+        apiKey: {
+            polygonAmoy: process.env.POLYGONSCAN_API_KEY ?? "",
+        },
+    },
 };
 
 export default config;
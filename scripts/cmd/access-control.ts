@@ -0,0 +1,327 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as path from "path";
+import * as fs from "fs";
+import { CallHelper__factory } from "../../typechain-types";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import safeBatchHelper, { SafeCall } from "../lib/safe-batch";
+import txSender from "../lib/tx-sender";
+import cliHelper from "./cli-helper";
+
+// contract accepts deployment registry names as well as addresses
+interface PauseInput {
+    contract: string;
+}
+
+interface RoleInput {
+    contract: string;
+    // role name, e.g. CALLER_ROLE, or its bytes32 hash
+    role: string;
+    accounts: string[];
+}
+
+interface CommandOptions {
+    input: string;
+    network: string;
+    dryRun?: boolean;
+    // Safe to export the admin calls for instead of sending them
+    exportSafe?: string;
+}
+
+interface AdminCall extends SafeCall {
+    label: string;
+}
+
+const ADMIN_ROLE = ethers.id("ADMIN_ROLE");
+
+const program = new Command("access-control").description(
+    "pause, unpause and manage roles of AccessControl contracts, directly or as a Safe batch"
+);
+
+function readInput<T extends object>(
+    opts: CommandOptions,
+    addressFields: (keyof T & string)[]
+): T {
+    if (opts.exportSafe && opts.dryRun) {
+        console.error("--export-safe and --dry-run are exclusive");
+        process.exit(1);
+    }
+    if (opts.exportSafe && !ethers.isAddress(opts.exportSafe)) {
+        console.error(
+            `--export-safe: "${opts.exportSafe}" is not a valid address`
+        );
+        process.exit(1);
+    }
+    const inputContent = fs.readFileSync(opts.input, "utf-8");
+    const { input, errors } = registryHelper.resolveInputAddresses(
+        opts.network,
+        JSON.parse(inputContent) as T,
+        addressFields
+    );
+    if (errors.length > 0) {
+        console.error(`invalid input file ${opts.input}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    return input;
+}
+
+/**
+ * connect switches the network and returns the account the role checks apply
+ * to, the Safe when the calls are exported for it.
+ */
+async function connect(opts: CommandOptions) {
+    console.log(`changing network to: ${opts.network} ...`);
+    await hre.changeNetwork(opts.network);
+    console.log(`changed network to: ${opts.network}`);
+
+    // the signer's key is not needed to export for the Safe
+    const actor = opts.exportSafe
+        ? ethers.getAddress(opts.exportSafe)
+        : (await cliHelper.getSigner(hre)).address;
+    console.log(
+        `${opts.exportSafe ? "exporting for Safe" : "using account"}:`,
+        actor
+    );
+    return { actor };
+}
+
+function roleHash(role: string) {
+    if (ethers.isHexString(role, 32)) {
+        return role;
+    }
+    return role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(role);
+}
+
+/**
+ * run estimates the calls for --dry-run, exports them as one Safe batch for
+ * --export-safe or sends them one by one.
+ * @returns hashes of the mined transactions, undefined on dry-run and export
+ */
+async function run(
+    opts: CommandOptions,
+    command: string,
+    actor: string,
+    description: string,
+    calls: AdminCall[]
+) {
+    if (opts.dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            `access-control-${command}`,
+            opts.network,
+            actor
+        );
+        for (const call of calls) {
+            await dryRunHelper.estimateStep(report, call.label, call);
+        }
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return undefined;
+    }
+    if (opts.exportSafe) {
+        await safeBatchHelper.exportSafeBatch(
+            opts.network,
+            `access-control-${command}`,
+            description,
+            actor,
+            calls
+        );
+        return undefined;
+    }
+
+    const signer = await cliHelper.getSigner(hre);
+    const txHashes: string[] = [];
+    for (const call of calls) {
+        const sent = await txSender.sendTransaction(
+            signer,
+            { to: call.to, data: call.data },
+            call.label
+        );
+        console.log(`${call.label} ...done with tx: ${sent.hash}`);
+        txHashes.push(sent.hash);
+    }
+    return txHashes;
+}
+
+function writeResult(network: string, command: string, result: {}) {
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "access-control",
+        command,
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(
+        { ...result, transactions: txSender.sentTransactions() },
+        outDir,
+        "result.json"
+    );
+}
+
+for (const [command, pause] of [
+    ["pause", true],
+    ["unpause", false],
+] as const) {
+    program
+        .command(command)
+        .description(`${command} a CallHelper`)
+        .requiredOption("--input <path>", "path to input JSON file")
+        .requiredOption("--network <network>", "network to run on")
+        .option("--dry-run", "estimate gas and cost without broadcasting")
+        .option(
+            "--export-safe <safe>",
+            "write a Safe Transaction Builder batch for this Safe instead of sending"
+        )
+        .action(async (opts: CommandOptions) => {
+            const { contract } = readInput<PauseInput>(opts, ["contract"]);
+            const { actor } = await connect(opts);
+
+            const callHelper = CallHelper__factory.connect(
+                contract,
+                ethers.provider
+            );
+            if (!(await callHelper.hasRole(ADMIN_ROLE, actor))) {
+                console.error(`${actor} does not hold ADMIN_ROLE`);
+                process.exit(1);
+            }
+            if ((await callHelper.paused()) === pause) {
+                console.log(
+                    `${contract} is already ${
+                        pause ? "paused" : "unpaused"
+                    }, nothing to do`
+                );
+                return;
+            }
+
+            const txHashes = await run(
+                opts,
+                command,
+                actor,
+                `${command} CallHelper ${contract}`,
+                [
+                    {
+                        label: `${command} ${contract}`,
+                        artifact: "CallHelper",
+                        ...(await (pause
+                            ? callHelper.pause
+                            : callHelper.unpause
+                        ).populateTransaction()),
+                    },
+                ]
+            );
+            if (!txHashes) {
+                return;
+            }
+
+            writeResult(opts.network, command, {
+                contract,
+                paused: await callHelper.paused(),
+                txHashes,
+            });
+        });
+}
+
+for (const [command, grant] of [
+    ["grant-role", true],
+    ["revoke-role", false],
+] as const) {
+    program
+        .command(command)
+        .description(`${grant ? "grant" : "revoke"} a role to accounts`)
+        .requiredOption("--input <path>", "path to input JSON file")
+        .requiredOption("--network <network>", "network to run on")
+        .option("--dry-run", "estimate gas and cost without broadcasting")
+        .option(
+            "--export-safe <safe>",
+            "write a Safe Transaction Builder batch for this Safe instead of sending"
+        )
+        .action(async (opts: CommandOptions) => {
+            const input = readInput<RoleInput>(opts, ["contract"]);
+            const { contract, role, accounts } = input;
+            const errors: string[] = [];
+            if (typeof role !== "string" || role === "") {
+                errors.push("role: is required");
+            }
+            if (!Array.isArray(accounts) || accounts.length === 0) {
+                errors.push("accounts: requires at least one account");
+            } else {
+                accounts.forEach((account, i) => {
+                    if (!ethers.isAddress(account)) {
+                        errors.push(
+                            `accounts[${i}]: "${account}" is not a valid address`
+                        );
+                    }
+                });
+            }
+            if (errors.length > 0) {
+                console.error(`invalid input file ${opts.input}:`);
+                errors.forEach((err) => console.error(`  - ${err}`));
+                process.exit(1);
+            }
+            const { actor } = await connect(opts);
+
+            const accessControl = await ethers.getContractAt(
+                "AccessControl",
+                contract
+            );
+            const hash = roleHash(role);
+            const adminRole = await accessControl.getRoleAdmin(hash);
+            if (!(await accessControl.hasRole(adminRole, actor))) {
+                console.error(
+                    `${actor} does not hold the admin role ${adminRole} of ${role}`
+                );
+                process.exit(1);
+            }
+
+            const calls: AdminCall[] = [];
+            for (const account of accounts) {
+                if ((await accessControl.hasRole(hash, account)) === grant) {
+                    console.log(
+                        `${account} ${
+                            grant ? "already holds" : "does not hold"
+                        } ${role}, skipping`
+                    );
+                    continue;
+                }
+                calls.push({
+                    label: `${grant ? "grant" : "revoke"} ${role} ${
+                        grant ? "to" : "from"
+                    } ${account}`,
+                    artifact: "AccessControl",
+                    ...(await (grant
+                        ? accessControl.grantRole
+                        : accessControl.revokeRole
+                    ).populateTransaction(hash, account)),
+                });
+            }
+            if (calls.length === 0) {
+                console.log("nothing to do");
+                return;
+            }
+
+            const txHashes = await run(
+                opts,
+                command,
+                actor,
+                `${grant ? "grant" : "revoke"} ${role} on ${contract}`,
+                calls
+            );
+            if (!txHashes) {
+                return;
+            }
+
+            writeResult(opts.network, command, {
+                contract,
+                role,
+                roleHash: hash,
+                accounts,
+                txHashes,
+            });
+        });
+}
+
+program.parseAsync(process.argv).catch(cliHelper.exitOnFailure);
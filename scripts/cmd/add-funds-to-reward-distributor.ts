@@ -7,10 +7,20 @@ import {
     IAIToken__factory,
     RewardDistributor__factory,
 } from "../../typechain-types";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import offlineHelper, {
+    BroadcastResult,
+    FALLBACK_GAS_LIMIT,
+} from "../lib/offline-signing";
+import txSender from "../lib/tx-sender";
+import safeBatchHelper from "../lib/safe-batch";
 import cliHelper from "./cli-helper";
 
 interface Input {
+    // address or deployment registry name, e.g. RewardDistributor
     distributor: string;
+    // address or deployment registry name, e.g. iAIToken
     token: string;
     amount: string;
 }
@@ -19,25 +29,136 @@ const program = new Command("add-funds-to-reward-distributor")
     .description("Add funds to RewardDistributor contract")
     .requiredOption("--input <path>", "path to input JSON file")
     .requiredOption("--network <network>", "network to deploy to")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option(
+        "--build-unsigned <path>",
+        "write the transactions unsigned to this file, to be signed by sign-offline"
+    )
+    .option("--from <address>", "offline signer, with --build-unsigned")
+    .option(
+        "--broadcast-signed <path>",
+        "broadcast a bundle signed by sign-offline and write the usual output"
+    )
+    .option(
+        "--export-safe <safe>",
+        "write the calls as a Safe Transaction Builder batch for this Safe instead of sending them"
+    )
     .parse(process.argv);
 
 (async (): Promise<void> => {
-    const { input: inputFilePath, network } = program.opts();
+    const {
+        input: inputFilePath,
+        network,
+        dryRun,
+        buildUnsigned,
+        from,
+        broadcastSigned,
+        exportSafe,
+    } = program.opts();
+    const optionErrors = offlineHelper.validateOfflineOptions(program.opts());
+    if (exportSafe && (dryRun || buildUnsigned || broadcastSigned)) {
+        optionErrors.push(
+            "--export-safe is exclusive with --dry-run, --build-unsigned and --broadcast-signed"
+        );
+    }
+    if (exportSafe && !ethers.isAddress(exportSafe)) {
+        optionErrors.push(
+            `--export-safe: "${exportSafe}" is not a valid address`
+        );
+    }
+    if (optionErrors.length > 0) {
+        optionErrors.forEach((err) => console.error(err));
+        process.exit(1);
+    }
     const inputContent = fs.readFileSync(inputFilePath, "utf-8");
-    const { distributor, token, amount } = JSON.parse(inputContent) as Input;
+    const { input, errors: inputErrors } = registryHelper.resolveInputAddresses(
+        network,
+        JSON.parse(inputContent) as Input,
+        ["distributor", "token"]
+    );
+    if (inputErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        inputErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    const { distributor, token, amount } = input;
 
     console.log(`changing network to: ${network} ...`);
     await hre.changeNetwork(network);
     console.log(`changed network to: ${network}`);
 
-    const [signer] = await ethers.getSigners();
-    console.log("using account:", signer.address);
+    const writeResult = (
+        addFundsTxHash: string,
+        fundAmountWei: bigint,
+        broadcast?: BroadcastResult[]
+    ) => {
+        const outDir = path.join(
+            ".",
+            "out",
+            network,
+            "add-funds",
+            "RewardDistributor",
+            `${+new Date()}`
+        );
+        cliHelper.ensureDirExists(outDir);
+
+        cliHelper.writeOutputResult(
+            {
+                distributor,
+                token,
+                amount: amount.toString(),
+                amountWei: fundAmountWei.toString(),
+                addFundsTx: addFundsTxHash,
+                transactions: txSender.sentTransactions(),
+                ...(broadcast ? { broadcast } : {}),
+            },
+            outDir,
+            "result.json"
+        );
+    };
+
+    if (broadcastSigned) {
+        const { bundle, errors } = await offlineHelper.loadSignedBundle(
+            ethers.provider,
+            broadcastSigned,
+            "add-funds-to-reward-distributor",
+            inputContent
+        );
+        if (errors.length > 0) {
+            console.error(`invalid signed bundle ${broadcastSigned}:`);
+            errors.forEach((err) => console.error(`  - ${err}`));
+            process.exit(1);
+        }
+        const warning = await offlineHelper.feeWarning(ethers.provider, bundle);
+        if (warning) {
+            console.warn(`WARNING: ${warning}`);
+        }
+        console.log(`broadcasting bundle signed by ${bundle.from} ...`);
+        const results = await offlineHelper.broadcastBundle(
+            ethers.provider,
+            bundle,
+            txSender.networkConfirmations()
+        );
+        const addFunds = results.find((result) => result.step === "addFunds");
+        writeResult(addFunds!.hash, BigInt(bundle.context.amountWei), results);
+        console.log("Funds added successfully!");
+        return;
+    }
+
+    // neither the offline signer's key nor a Safe is on this machine, they are
+    // only the sender of the transactions
+    const account = buildUnsigned
+        ? ethers.getAddress(from)
+        : exportSafe
+        ? ethers.getAddress(exportSafe)
+        : (await cliHelper.getSigner(hre)).address;
+    console.log("using account:", account);
 
-    // Get contracts
-    const tokenContract = IAIToken__factory.connect(token, signer);
+    // Get contracts, the calls are populated here and signed below
+    const tokenContract = IAIToken__factory.connect(token, ethers.provider);
     const distributorContract = RewardDistributor__factory.connect(
         distributor,
-        signer
+        ethers.provider
     );
 
     // Get token decimals and convert amount to wei
@@ -45,7 +166,7 @@ const program = new Command("add-funds-to-reward-distributor")
     const fundAmountWei = ethers.parseUnits(amount, decimals);
 
     // Check balance and mint if needed
-    const balance = await tokenContract.balanceOf(signer.address);
+    const balance = await tokenContract.balanceOf(account);
     if (balance < fundAmountWei) {
         console.log(
             `Current balance: ${ethers.formatUnits(balance, decimals)} tokens`
@@ -61,37 +182,133 @@ const program = new Command("add-funds-to-reward-distributor")
         process.exit(1);
     }
 
+    if (exportSafe) {
+        const DEFAULT_ADMIN_ROLE =
+            await distributorContract.DEFAULT_ADMIN_ROLE();
+        if (!(await distributorContract.hasRole(DEFAULT_ADMIN_ROLE, account))) {
+            console.error(
+                `${account} does not hold DEFAULT_ADMIN_ROLE of ${distributor}`
+            );
+            process.exit(1);
+        }
+        await safeBatchHelper.exportSafeBatch(
+            network,
+            "add-funds-to-reward-distributor",
+            `approve and add ${amount} tokens to RewardDistributor ${distributor}`,
+            account,
+            [
+                {
+                    artifact: "IAIToken",
+                    ...(await tokenContract.approve.populateTransaction(
+                        distributor,
+                        fundAmountWei
+                    )),
+                },
+                {
+                    artifact: "RewardDistributor",
+                    ...(await distributorContract.addFunds.populateTransaction(
+                        fundAmountWei
+                    )),
+                },
+            ]
+        );
+        return;
+    }
+
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "add-funds-to-reward-distributor",
+            network,
+            account
+        );
+        await dryRunHelper.estimateStep(
+            report,
+            "approve RewardDistributor",
+            await tokenContract.approve.populateTransaction(
+                distributor,
+                fundAmountWei
+            )
+        );
+        const addFundsTx =
+            await distributorContract.addFunds.populateTransaction(
+                fundAmountWei
+            );
+        const allowance = await tokenContract.allowance(account, distributor);
+        if (allowance >= fundAmountWei) {
+            await dryRunHelper.estimateStep(report, "addFunds", addFundsTx);
+        } else {
+            dryRunHelper.skipStep(
+                report,
+                "addFunds",
+                addFundsTx,
+                "requires the approve step to be mined first"
+            );
+        }
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+
+    if (buildUnsigned) {
+        const bundle = await offlineHelper.createUnsignedBundle(
+            ethers.provider,
+            "add-funds-to-reward-distributor",
+            network,
+            account,
+            inputContent,
+            { amountWei: fundAmountWei.toString() }
+        );
+        await offlineHelper.addTransaction(
+            ethers.provider,
+            bundle,
+            "approve",
+            "approve RewardDistributor",
+            await tokenContract.approve.populateTransaction(
+                distributor,
+                fundAmountWei
+            )
+        );
+        // addFunds pulls the tokens, it cannot be estimated before the
+        // approval is mined
+        const allowance = await tokenContract.allowance(account, distributor);
+        await offlineHelper.addTransaction(
+            ethers.provider,
+            bundle,
+            "addFunds",
+            "addFunds",
+            await distributorContract.addFunds.populateTransaction(
+                fundAmountWei
+            ),
+            allowance >= fundAmountWei ? undefined : FALLBACK_GAS_LIMIT
+        );
+        offlineHelper.writeBundle(bundle, buildUnsigned);
+        console.log(
+            `unsigned bundle of ${bundle.transactions.length} transaction(s) written to: ${buildUnsigned}`
+        );
+        return;
+    }
+
     // Approve and add funds
+    const signer = await cliHelper.getSigner(hre);
     console.log("Approving tokens...");
-    const approveTx = await tokenContract.approve(distributor, fundAmountWei);
-    await approveTx.wait();
+    await txSender.sendTransaction(
+        signer,
+        await tokenContract.approve.populateTransaction(
+            distributor,
+            fundAmountWei
+        ),
+        "approve RewardDistributor"
+    );
 
     console.log("Adding funds to RewardDistributor...");
-    const addFundsTx = await distributorContract.addFunds(fundAmountWei);
-    await addFundsTx.wait();
-
-    // Save results
-    const outDir = path.join(
-        ".",
-        "out",
-        network,
-        "add-funds",
-        "RewardDistributor",
-        `${+new Date()}`
+    const addFundsTx = await txSender.sendTransaction(
+        signer,
+        await distributorContract.addFunds.populateTransaction(fundAmountWei),
+        "addFunds"
     );
-    cliHelper.ensureDirExists(outDir);
 
-    cliHelper.writeOutputResult(
-        {
-            distributor,
-            token,
-            amount: amount.toString(),
-            amountWei: fundAmountWei.toString(),
-            addFundsTx: addFundsTx.hash,
-        },
-        outDir,
-        "result.json"
-    );
+    // Save results
+    writeResult(addFundsTx.hash, fundAmountWei);
 
     console.log("Funds added successfully!");
-})();
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,115 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import registryHelper from "../lib/deployment-registry";
+import roleAuditHelper, { RoleAuditReport } from "../lib/role-audit";
+import cliHelper from "./cli-helper";
+
+interface Input {
+    // addresses or deployment registry names of AccessControl contracts
+    contracts: string[];
+    // first block to read logs from, defaults to the deployment block of
+    // registry entries and to 0 for plain addresses
+    fromBlock?: number;
+    // max blocks per log request
+    blockRange?: number;
+}
+
+const program = new Command("audit-roles")
+    .description(
+        "rebuild current AccessControl role membership from RoleGranted/RoleRevoked logs"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to audit")
+    .parse(process.argv);
+
+(async (): Promise<void> => {
+    const { input: inputFilePath, network } = program.opts();
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const input = JSON.parse(inputContent) as Input;
+
+    if (!Array.isArray(input.contracts) || input.contracts.length === 0) {
+        console.error(
+            `invalid input file ${inputFilePath}: contracts must list at least one address or registry name`
+        );
+        process.exit(1);
+    }
+    const targets: { name: string; address: string; txHash?: string }[] = [];
+    const inputErrors: string[] = [];
+    for (const [i, value] of input.contracts.entries()) {
+        try {
+            const address = registryHelper.resolveAddress(network, value);
+            const entry = ethers.isAddress(value)
+                ? undefined
+                : registryHelper.resolveName(network, value);
+            targets.push({
+                name: entry?.contractName ?? value,
+                address,
+                txHash: entry?.txHash,
+            });
+        } catch (err: any) {
+            inputErrors.push(`contracts[${i}]: ${err.message}`);
+        }
+    }
+    if (inputErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        inputErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    const roleNames = await roleAuditHelper.knownRoleNames();
+    const report: RoleAuditReport = {
+        network,
+        chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+        createdAt: +new Date(),
+        contracts: [],
+        findings: 0,
+    };
+    for (const target of targets) {
+        let fromBlock = input.fromBlock;
+        if (fromBlock === undefined && target.txHash) {
+            const receipt = await ethers.provider.getTransactionReceipt(
+                target.txHash
+            );
+            fromBlock = receipt?.blockNumber;
+        }
+        console.log(
+            `auditing ${target.name} at ${target.address} from block ${
+                fromBlock ?? 0
+            } ...`
+        );
+        const audit = await roleAuditHelper.auditContract(
+            target.name,
+            target.address,
+            { fromBlock: fromBlock ?? 0, blockRange: input.blockRange },
+            roleNames
+        );
+        report.contracts.push(audit);
+        report.findings += audit.findings.length;
+    }
+
+    const markdown = roleAuditHelper.renderMarkdown(report);
+    console.log(markdown);
+
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "role-audit",
+        `${report.createdAt}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(report, outDir, "role-audit.json");
+    fs.writeFileSync(path.join(outDir, "role-audit.md"), markdown);
+    console.log(`role audit written to: ${outDir}`);
+
+    if (report.findings > 0) {
+        console.warn(`WARNING: ${report.findings} finding(s), see above`);
+    }
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,155 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as path from "path";
+import { CallHelper__factory } from "../../typechain-types";
+import bundleHelper from "../lib/call-bundle";
+import dryRunHelper from "../lib/dry-run";
+import txSender from "../lib/tx-sender";
+import cliHelper from "./cli-helper";
+
+const CALLER_ROLE = ethers.id("CALLER_ROLE");
+
+const program = new Command("call-bundle")
+    .description(
+        "encode a JSON or YAML bundle spec and submit it through CallHelper.call"
+    )
+    .requiredOption("--input <path>", "path to bundle spec, JSON or YAML")
+    .requiredOption("--network <network>", "network to run on")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--yes", "submit even if the pre-flight simulation finds failures")
+    .parse(process.argv);
+
+(async (): Promise<void> => {
+    const { input: inputFilePath, network, dryRun, yes } = program.opts();
+    const spec = bundleHelper.readBundleSpec(inputFilePath);
+    const { bundle, errors } = bundleHelper.encodeBundle(network, spec);
+    if (errors.length > 0) {
+        console.error(`invalid bundle spec ${inputFilePath}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    const signer = await cliHelper.getSigner(hre);
+    console.log("using account:", signer.address);
+
+    const callHelper = CallHelper__factory.connect(bundle.callHelper, signer);
+    if (!(await callHelper.hasRole(CALLER_ROLE, signer.address))) {
+        console.error(`${signer.address} does not hold CALLER_ROLE`);
+        process.exit(1);
+    }
+    if (await callHelper.paused()) {
+        console.error(`CallHelper ${bundle.callHelper} is paused`);
+        process.exit(1);
+    }
+
+    console.log(`bundle of ${bundle.calls.length} call(s):`);
+    bundle.calls.forEach((call) =>
+        console.log(
+            `  ${call.index}. [${call.label}] ${call.target}.${call.function}`
+        )
+    );
+
+    // CallHelper.call swallows revert data, so simulate the sub-calls first
+    console.log("simulating sub-calls at the pending block...");
+    const preflight = await bundleHelper.simulateBundle(
+        ethers.provider,
+        bundle
+    );
+    preflight.forEach((result) => {
+        console.log(
+            `${result.ok ? "ok  " : "FAIL"} [${result.label}]${
+                result.revert ? ` ${result.revert.message}` : ""
+            }`
+        );
+        if (result.warning) {
+            console.log(`     ${result.warning}`);
+        }
+    });
+    const failing = preflight.filter((result) => !result.ok);
+    if (failing.length > 0 && !dryRun) {
+        console.warn(
+            `WARNING: ${failing.length} of ${preflight.length} sub-call(s) would fail, CallHelper.call still succeeds and only emits Failure for them`
+        );
+        if (
+            !yes &&
+            !(await cliHelper.confirmPromptMessage("submit the bundle anyway?"))
+        ) {
+            console.log("aborted, nothing submitted");
+            process.exit(1);
+        }
+    }
+
+    const callArgs = bundleHelper.bundleCallArgs(bundle);
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "call-bundle",
+            network,
+            signer.address
+        );
+        await dryRunHelper.estimateStep(
+            report,
+            `CallHelper.call with ${bundle.calls.length} call(s)`,
+            await callHelper.call.populateTransaction(...callArgs)
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+
+    console.log("submitting bundle...");
+    const tx = await txSender.sendTransaction(
+        signer,
+        await callHelper.call.populateTransaction(...callArgs),
+        "CallHelper.call"
+    );
+    const { receipt } = tx;
+    console.log(`bundle submitted ...done with tx: ${tx.hash}`);
+
+    const results = bundleHelper.decodeBundleResults(bundle, receipt.logs);
+    cliHelper.writeHLine();
+    results.forEach((result) =>
+        console.log(
+            `${result.status === "success" ? "ok  " : "FAIL"} [${
+                result.label
+            }] ${result.target}.${result.function}`
+        )
+    );
+    cliHelper.writeHLine();
+
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "call-bundle",
+        "CallHelper",
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.saveInputToOutDir(spec, outDir);
+    cliHelper.writeOutputResult(
+        cliHelper.JSONStringify({
+            callHelper: bundle.callHelper,
+            txHash: tx.hash,
+            blockNumber: receipt.blockNumber,
+            preflight,
+            succeeded: results.filter((r) => r.status === "success").length,
+            failed: results.filter((r) => r.status === "failure").length,
+            calls: results,
+            transactions: txSender.sentTransactions(),
+        }),
+        outDir,
+        "result.json"
+    );
+
+    // CallHelper does not revert on failed calls, so report them through the
+    // exit code
+    if (results.some((result) => result.status === "failure")) {
+        console.error("some calls of the bundle failed, see above");
+        process.exitCode = 1;
+    }
+})().catch(cliHelper.exitOnFailure);
@@ -2,7 +2,33 @@ import prompts from "prompts";
 import * as fs from "fs";
 import * as path from "path";
 import * as hre from "hardhat";
+import { ethers } from "ethers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 import { HardhatRuntimeEnvironment, HttpNetworkConfig } from "hardhat/types";
+import keystoreHelper from "../lib/keystore";
+import txSender, {
+    TransactionRevertedError,
+    TransactionTimeoutError,
+} from "../lib/tx-sender";
+
+declare module "hardhat/types/config" {
+    interface HttpNetworkUserConfig {
+        // ethers encrypted JSON keystore of the transactor, relative to the
+        // project root, takes precedence over accounts
+        keystore?: string;
+    }
+    interface HttpNetworkConfig {
+        keystore?: string;
+    }
+}
+
+// the transactor of a command, see getSigner
+export type Signer = HardhatEthersSigner | ethers.Wallet | ethers.HDNodeWallet;
+
+// decrypted once per keystore, the password is asked for a single time
+const keystoreWallets: {
+    [keystorePath: string]: ethers.Wallet | ethers.HDNodeWallet;
+} = {};
 
 /**
  * confirmEnvConfigs ...
@@ -15,14 +41,21 @@ async function confirmEnvConfig(hre: HardhatRuntimeEnvironment) {
     console.log("network RPC url:", cfg.url);
     console.log("network RPC chain ID:", cfg.chainId);
     console.log("with transactor address:", cfg.from);
-    if (
+    if (cfg.keystore) {
+        console.log(
+            "with keystore account:",
+            keystoreHelper.keystoreAddress(
+                resolveKeystorePath(hre, cfg.keystore)
+            )
+        );
+    } else if (
         cfg.accounts &&
         cfg.accounts instanceof Array &&
         cfg.accounts.length > 0
     ) {
         console.log(
-            "and its private key:",
-            cfg.accounts[0].substring(0, 6).concat("...")
+            "with private key account:",
+            new ethers.Wallet(cfg.accounts[0]).address
         );
     } else {
         console.log("without specific private key!");
@@ -41,18 +74,49 @@ async function confirmPromptMessage(msg: string) {
     return resp.confirm;
 }
 
-async function promptForPrivateKey(msg: string): Promise<string> {
-    const response = await prompts({
-        type: "password",
-        name: "privateKey",
-        message: msg,
-    });
-    const pk = response.privateKey as string;
-    console.log(
-        "please confirm your private key:",
-        [pk.slice(0, 4), "****", pk.slice(pk.length - 4, pk.length)].join()
+function resolveKeystorePath(
+    hre: HardhatRuntimeEnvironment,
+    keystorePath: string
+) {
+    return path.resolve(hre.config.paths.root, keystorePath);
+}
+
+async function loadKeystoreWallet(keystorePath: string) {
+    if (!keystoreWallets[keystorePath]) {
+        const { password } = await prompts({
+            type: "password",
+            name: "password",
+            message: `password of keystore ${keystorePath}:`,
+        });
+        if (password === undefined) {
+            throw new Error(`no password given for keystore ${keystorePath}`);
+        }
+        const wallet = await keystoreHelper.decryptKeystore(
+            keystorePath,
+            password
+        );
+        console.log("decrypted keystore account:", wallet.address);
+        keystoreWallets[keystorePath] = wallet;
+    }
+    return keystoreWallets[keystorePath];
+}
+
+/**
+ * getSigner returns the transactor of the current network: its keystore
+ * wallet when it has one, decrypted on first use, otherwise the first of
+ * its configured accounts. Call it after changeNetwork, the signer is
+ * connected to the provider of the network at the time of the call.
+ */
+async function getSigner(hre: HardhatRuntimeEnvironment): Promise<Signer> {
+    const cfg = hre.network.config as HttpNetworkConfig;
+    if (!cfg.keystore) {
+        const [signer] = await hre.ethers.getSigners();
+        return signer;
+    }
+    const wallet = await loadKeystoreWallet(
+        resolveKeystorePath(hre, cfg.keystore)
     );
-    return pk;
+    return wallet.connect(hre.ethers.provider);
 }
 
 function writeHLine(char = "=", length = 100) {
@@ -176,10 +240,38 @@ async function flattenSolidity2File(
     });
 }
 
+/**
+ * exitOnFailure ends a command that threw with exit code 1. A failed
+ * transaction is reported by its reason rather than a stack trace, followed by
+ * the transactions confirmed before it, which stay on chain.
+ */
+function exitOnFailure(err: unknown) {
+    if (
+        err instanceof TransactionRevertedError ||
+        err instanceof TransactionTimeoutError
+    ) {
+        console.error(`\nFAILED: ${err.message}`);
+    } else {
+        console.error("\nFAILED:", err);
+    }
+    const confirmed = txSender
+        .sentTransactions()
+        .filter((sent) => sent.status === 1);
+    if (confirmed.length > 0) {
+        console.error("transactions confirmed before the failure:");
+        confirmed.forEach((sent) =>
+            console.error(
+                `  - ${sent.label}: ${sent.hash} in block ${sent.blockNumber}`
+            )
+        );
+    }
+    process.exit(1);
+}
+
 export default {
     confirmEnvConfig,
     confirmPromptMessage,
-    promptForPrivateKey,
+    getSigner,
     ensureDirExists,
     ensureCommandOutputDirExists,
     writeHLine,
@@ -189,4 +281,5 @@ export default {
     saveInputToOutDir,
     JSONStringify,
     flattenSolidity2File,
+    exitOnFailure,
 };
@@ -2,135 +2,753 @@ import { Command } from "commander";
 import { Signer, Wallet } from "ethers";
 import * as hre from "hardhat";
 import { ethers } from "hardhat";
+import * as fs from "fs";
 import * as path from "path";
+import dryRunHelper from "../lib/dry-run";
+import offlineHelper, {
+    BroadcastResult,
+    FALLBACK_GAS_LIMIT,
+    SignedBundle,
+} from "../lib/offline-signing";
+import verifyHelper, { VerifyOptions } from "../lib/verify";
+import manifestHelper, {
+    DeploymentManifest,
+    ManifestStep,
+} from "../lib/deployment-manifest";
+import txSender, {
+    SentTransaction,
+    TransactionSummary,
+} from "../lib/tx-sender";
 import cliHelper from "./cli-helper";
 
-interface DeploymentResult {
+interface Input {
+    iaiToken: {
+        initialOwner: string;
+        initialSupply: string;
+    };
+    callHelper: {
+        defaultAdmin: string;
+        admins: string[];
+        callers: string[];
+    };
+    rewardDistributor: {
+        distributors: string[];
+    };
+}
+
+// a contract as it landed, before its output is written
+interface DeployedContract {
     address: string;
     txHash?: string;
+    // sent by this run, with the hashes they replaced
+    transactions?: TransactionSummary[];
+    // sent by this run from a signed bundle
+    broadcast?: BroadcastResult[];
+}
+
+interface DeploymentResult extends DeployedContract {
+    txHashes?: string[];
+    outDir?: string;
 }
 
-const INITIAL_IAI_TOKEN_SUPPLY = ethers.parseEther("1000000000"); // 1 billion tokens
+interface ContractDeployment {
+    // step and output directory name
+    name: string;
+    factoryName: string;
+    // file under the contracts directory
+    source: string;
+    constructorArgs: unknown[];
+}
+
+interface RoleGrant {
+    role: string;
+    account: string;
+}
+
+const ADMIN_ROLE = ethers.id("ADMIN_ROLE");
+const CALLER_ROLE = ethers.id("CALLER_ROLE");
+const DISTRIBUTOR_ROLE = ethers.id("DISTRIBUTOR_ROLE");
 
 const program = new Command("deploy-all")
     .description(
         "deploy all contracts (CallHelper, iAI Token, RewardDistributor)"
     )
+    .requiredOption("--input <path>", "path to input JSON file")
     .requiredOption("--network <network>", "network to deploy to")
     .requiredOption("--contracts <path>", "path to contracts directory")
+    .option(
+        "--reset-manifest",
+        "archive the existing deployment manifest and deploy everything again"
+    )
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option(
+        "--build-unsigned <path>",
+        "write the missing steps as unsigned transactions to this file, to be signed by sign-offline"
+    )
+    .option("--from <address>", "offline deployer, with --build-unsigned")
+    .option(
+        "--broadcast-signed <path>",
+        "broadcast a bundle signed by sign-offline, then write the usual output"
+    )
+    .option("--no-verify", "skip source verification on the block explorer")
+    .option(
+        "--explorer-api-url <url>",
+        "block explorer API to verify against, e.g. the local mock explorer"
+    )
     .parse(process.argv);
 
-async function deployCallHelper(
-    deployer: any,
-    network: string,
-    contractsPath: string
-): Promise<DeploymentResult> {
-    console.log("\n=== Deploying CallHelper ===");
-    const CallHelper = await ethers.getContractFactory("CallHelper");
-    const deployed = await CallHelper.deploy(
-        deployer.address,
-        deployer.address
+/**
+ * validateInput checks the whole deploy-all input up front, so nothing is sent
+ * on-chain when any part of it is wrong.
+ * @returns list of validation errors, empty when the input is valid
+ */
+function validateInput(input: Input, deployerAddress: string): string[] {
+    const errors: string[] = [];
+    const checkAddress = (field: string, value: unknown) => {
+        if (typeof value !== "string" || !ethers.isAddress(value)) {
+            errors.push(`${field}: "${value}" is not a valid address`);
+        } else if (value === ethers.ZeroAddress) {
+            errors.push(`${field}: must not be the zero address`);
+        }
+    };
+    const checkAddressList = (field: string, value: unknown) => {
+        if (!Array.isArray(value)) {
+            errors.push(`${field}: must be an array of addresses`);
+            return;
+        }
+        value.forEach((v, i) => checkAddress(`${field}[${i}]`, v));
+        const lowered = value.map((v) => String(v).toLowerCase());
+        if (new Set(lowered).size !== lowered.length) {
+            errors.push(`${field}: contains duplicate addresses`);
+        }
+    };
+
+    if (!input.iaiToken || !input.callHelper || !input.rewardDistributor) {
+        return [
+            "input must contain iaiToken, callHelper and rewardDistributor sections",
+        ];
+    }
+
+    checkAddress("iaiToken.initialOwner", input.iaiToken.initialOwner);
+    try {
+        if (ethers.parseEther(input.iaiToken.initialSupply) <= 0n) {
+            errors.push("iaiToken.initialSupply: must be greater than 0");
+        }
+    } catch (err) {
+        errors.push(
+            `iaiToken.initialSupply: "${input.iaiToken.initialSupply}" is not a valid token amount`
+        );
+    }
+
+    checkAddress("callHelper.defaultAdmin", input.callHelper.defaultAdmin);
+    checkAddressList("callHelper.admins", input.callHelper.admins);
+    checkAddressList("callHelper.callers", input.callHelper.callers);
+    if (
+        Array.isArray(input.callHelper.admins) &&
+        input.callHelper.admins.length === 0
+    ) {
+        errors.push("callHelper.admins: requires at least one admin");
+    }
+    checkAddressList(
+        "rewardDistributor.distributors",
+        input.rewardDistributor.distributors
     );
-    await deployed.waitForDeployment();
-    const deployedTx = deployed.deploymentTransaction();
-    const deployedAddress = await deployed.getAddress();
 
-    const outDir = path.join(
-        ".",
-        "out",
-        network,
-        "deployment",
-        "CallHelper",
-        `${+new Date()}`
+    // additional CallHelper grants are sent by the deployer, which can only
+    // do so while it holds DEFAULT_ADMIN_ROLE
+    if (errors.length > 0) {
+        return errors;
+    }
+    const { admins, callers } = callHelperGrants(input);
+    if (
+        (admins.length > 0 || callers.length > 0) &&
+        typeof input.callHelper.defaultAdmin === "string" &&
+        input.callHelper.defaultAdmin.toLowerCase() !==
+            deployerAddress.toLowerCase()
+    ) {
+        errors.push(
+            "callHelper.defaultAdmin: must be the deployer when granting more than one admin or any caller, hand over DEFAULT_ADMIN_ROLE afterwards"
+        );
+    }
+
+    return errors;
+}
+
+/**
+ * callHelperGrants lists the roles that are not covered by the CallHelper
+ * constructor, which only grants ADMIN_ROLE and CALLER_ROLE to the first admin.
+ */
+function callHelperGrants(input: Input) {
+    const [firstAdmin] = input.callHelper.admins;
+    return {
+        admins: input.callHelper.admins.slice(1),
+        callers: input.callHelper.callers.filter(
+            (caller) => caller.toLowerCase() !== firstAdmin.toLowerCase()
+        ),
+    };
+}
+
+function callHelperRoleGrants(input: Input): RoleGrant[] {
+    const { admins, callers } = callHelperGrants(input);
+    return [
+        ...admins.map((account) => ({ role: ADMIN_ROLE, account })),
+        ...callers.map((account) => ({ role: CALLER_ROLE, account })),
+    ];
+}
+
+function rewardDistributorRoleGrants(input: Input): RoleGrant[] {
+    return input.rewardDistributor.distributors.map((account) => ({
+        role: DISTRIBUTOR_ROLE,
+        account,
+    }));
+}
+
+/**
+ * missingGrants filters out the grants the contract already holds.
+ */
+async function missingGrants(contractAddress: string, grants: RoleGrant[]) {
+    const contract = await ethers.getContractAt(
+        "AccessControl",
+        contractAddress
     );
-    cliHelper.ensureDirExists(outDir);
-    cliHelper.writeOutputResult(
-        { address: deployedAddress, txHash: deployedTx?.hash },
-        outDir,
-        "result.json"
+    const missing: RoleGrant[] = [];
+    for (const grant of grants) {
+        if (!(await contract.hasRole(grant.role, grant.account))) {
+            missing.push(grant);
+        }
+    }
+    return missing;
+}
+
+/**
+ * verifyCreation checks that the recorded transaction created the recorded
+ * contract from the bytecode and constructor arguments of this input. Unlike
+ * the contract's state, e.g. its owner, supply or roles, neither changes after
+ * the deployment.
+ */
+async function verifyCreation(
+    deployment: ContractDeployment,
+    recorded: ManifestStep
+) {
+    if (!recorded.txHash || !recorded.address) {
+        return false;
+    }
+    const receipt = await ethers.provider.getTransactionReceipt(
+        recorded.txHash
     );
-    await cliHelper.flattenSolidity2File(
-        [path.join(contractsPath, "CallHelper.sol")],
-        outDir,
-        "CallHelper.flatten.sol"
+    if (
+        receipt?.status !== 1 ||
+        receipt.contractAddress !== ethers.getAddress(recorded.address)
+    ) {
+        return false;
+    }
+    const tx = await ethers.provider.getTransaction(recorded.txHash);
+    return tx?.data === (await deployTransaction(deployment)).data;
+}
+
+/**
+ * verifyGrants checks that the recorded grants were mined on the contract.
+ * The roles themselves are not compared, a handover changes them afterwards.
+ */
+async function verifyGrants(contractAddress: string, recorded: ManifestStep) {
+    if (recorded.address !== contractAddress) {
+        return false;
+    }
+    for (const txHash of recorded.txHashes ?? []) {
+        const receipt = await ethers.provider.getTransactionReceipt(txHash);
+        if (receipt?.status !== 1 || receipt.to !== contractAddress) {
+            return false;
+        }
+    }
+    return true;
+}
+
+/**
+ * completedStep returns the recorded result of a step when the manifest holds
+ * it and the recorded transactions still check out on-chain.
+ */
+async function completedStep(
+    manifest: DeploymentManifest,
+    name: string,
+    verify: (recorded: ManifestStep) => Promise<boolean>
+): Promise<DeploymentResult | undefined> {
+    const recorded = manifest.steps[name];
+    if (!recorded?.address) {
+        return undefined;
+    }
+    const deployed = await manifestHelper.hasCode(recorded.address);
+    if (deployed && (await verify(recorded))) {
+        return {
+            address: recorded.address,
+            txHash: recorded.txHash,
+            txHashes: recorded.txHashes,
+            outDir: recorded.outDir,
+        };
+    }
+    console.log(
+        `\n${name} recorded at ${recorded.address} but ${
+            deployed ? "failed verification" : "has no code on-chain"
+        }, running it again`
+    );
+    return undefined;
+}
+
+const completedDeployment = (
+    manifest: DeploymentManifest,
+    deployment: ContractDeployment
+) =>
+    completedStep(manifest, deployment.name, (recorded) =>
+        verifyCreation(deployment, recorded)
     );
 
-    return { address: deployedAddress, txHash: deployedTx?.hash };
+/**
+ * runStep executes a step of role grants unless it is already completed. The
+ * manifest is updated once the grants land, a rerun only sends the grants
+ * still missing.
+ */
+async function runStep(
+    manifest: DeploymentManifest,
+    name: string,
+    verify: (recorded: ManifestStep) => Promise<boolean>,
+    execute: () => Promise<DeploymentResult>
+): Promise<DeploymentResult> {
+    const completed = await completedStep(manifest, name, verify);
+    if (completed) {
+        console.log(
+            `\n=== Skipping ${name}, already completed for ${completed.address} ===`
+        );
+        return completed;
+    }
+
+    const result = await execute();
+    manifestHelper.recordStep(manifest, { name, ...result });
+    return result;
 }
 
-async function deployIAIToken(
-    deployer: any,
+/**
+ * runDeployStep deploys a contract unless the manifest holds it. The contract
+ * is recorded as soon as its deploy receipt is confirmed, before the source is
+ * flattened and verified, so an interruption there never deploys it twice; the
+ * rerun only writes the output that is missing.
+ */
+async function runDeployStep(
+    manifest: DeploymentManifest,
+    deployment: ContractDeployment,
+    deploy: () => Promise<DeployedContract>,
     network: string,
-    contractsPath: string
+    contractsPath: string,
+    verifyOptions: VerifyOptions
 ): Promise<DeploymentResult> {
-    console.log("\n=== Deploying iAI Token ===");
-    const IAIToken = await ethers.getContractFactory("IAIToken");
-    const deployed = await IAIToken.deploy(
-        deployer.address,
-        INITIAL_IAI_TOKEN_SUPPLY
+    const { name } = deployment;
+    const completed = await completedDeployment(manifest, deployment);
+    if (completed?.outDir) {
+        console.log(
+            `\n=== Skipping ${name}, already completed for ${completed.address} ===`
+        );
+        return completed;
+    }
+
+    let deployed: DeployedContract;
+    if (completed) {
+        console.log(
+            `\n=== ${name} deployed at ${completed.address}, writing its output ===`
+        );
+        deployed = { address: completed.address, txHash: completed.txHash };
+    } else {
+        deployed = await deploy();
+        manifestHelper.recordStep(manifest, {
+            name,
+            address: deployed.address,
+            txHash: deployed.txHash,
+        });
+    }
+    const result = await writeDeploymentOutput(
+        deployment,
+        deployed,
+        network,
+        contractsPath,
+        verifyOptions
     );
-    await deployed.waitForDeployment();
-    const deployedTx = deployed.deploymentTransaction();
-    const deployedAddress = await deployed.getAddress();
+    manifestHelper.recordStep(manifest, {
+        name,
+        address: result.address,
+        txHash: result.txHash,
+        outDir: result.outDir,
+    });
+    return result;
+}
+
+function callHelperDeployment(input: Input): ContractDeployment {
+    return {
+        name: "CallHelper",
+        factoryName: "CallHelper",
+        source: "CallHelper.sol",
+        constructorArgs: [
+            input.callHelper.defaultAdmin,
+            input.callHelper.admins[0],
+        ],
+    };
+}
 
+function iaiTokenDeployment(input: Input): ContractDeployment {
+    return {
+        name: "iAIToken",
+        factoryName: "IAIToken",
+        source: "IAI.sol",
+        constructorArgs: [
+            input.iaiToken.initialOwner,
+            ethers.parseEther(input.iaiToken.initialSupply),
+        ],
+    };
+}
+
+function rewardDistributorDeployment(
+    rewardTokenAddress: string
+): ContractDeployment {
+    return {
+        name: "RewardDistributor",
+        factoryName: "RewardDistributor",
+        source: "RewardDistributor.sol",
+        constructorArgs: [rewardTokenAddress],
+    };
+}
+
+/**
+ * writeDeploymentOutput writes the result, the flattened source and the
+ * verification record of a deployed contract.
+ */
+async function writeDeploymentOutput(
+    deployment: ContractDeployment,
+    deployed: DeployedContract,
+    network: string,
+    contractsPath: string,
+    verifyOptions: VerifyOptions
+): Promise<DeploymentResult> {
     const outDir = path.join(
         ".",
         "out",
         network,
         "deployment",
-        "iAIToken",
+        deployment.name,
         `${+new Date()}`
     );
     cliHelper.ensureDirExists(outDir);
-    cliHelper.writeOutputResult(
-        { address: deployedAddress, txHash: deployedTx?.hash },
+    cliHelper.writeOutputResult(deployed, outDir, "result.json");
+    await cliHelper.flattenSolidity2File(
+        [path.join(contractsPath, deployment.source)],
         outDir,
-        "result.json"
+        deployment.source.replace(/\.sol$/, ".flatten.sol")
     );
-    await cliHelper.flattenSolidity2File(
-        [path.join(contractsPath, "IAI.sol")],
+    await verifyHelper.verifyAndRecord(
         outDir,
-        "IAI.flatten.sol"
+        deployed,
+        `contracts/${deployment.source}:${deployment.factoryName}`,
+        deployment.constructorArgs,
+        verifyOptions
     );
 
-    return { address: deployedAddress, txHash: deployedTx?.hash };
+    return { ...deployed, outDir };
 }
 
-async function deployRewardDistributor(
-    rewardTokenAddress: string,
-    network: string,
-    contractsPath: string
+async function deployContract(
+    deployment: ContractDeployment
+): Promise<DeployedContract> {
+    console.log(`\n=== Deploying ${deployment.name} ===`);
+    const factory = await ethers.getContractFactory(
+        deployment.factoryName,
+        await cliHelper.getSigner(hre)
+    );
+    const { sent } = await txSender.deployContract(
+        factory,
+        deployment.constructorArgs,
+        `deploy ${deployment.name}`
+    );
+
+    return {
+        address: sent.contractAddress!,
+        txHash: sent.hash,
+        transactions: [txSender.summary(sent)],
+    };
+}
+
+async function deployTransaction(deployment: ContractDeployment) {
+    const factory = await ethers.getContractFactory(deployment.factoryName);
+    return await factory.getDeployTransaction(...deployment.constructorArgs);
+}
+
+async function grantRoles(
+    contractName: string,
+    contractAddress: string,
+    grants: RoleGrant[]
 ): Promise<DeploymentResult> {
-    console.log("\n=== Deploying RewardDistributor ===");
-    const RewardDistributor = await ethers.getContractFactory(
-        "RewardDistributor"
+    console.log(`\n=== Granting ${contractName} roles ===`);
+    const contract = await ethers.getContractAt(
+        "AccessControl",
+        contractAddress
     );
-    const deployed = await RewardDistributor.deploy(rewardTokenAddress);
-    await deployed.waitForDeployment();
-    const deployedTx = deployed.deploymentTransaction();
-    const deployedAddress = await deployed.getAddress();
+    const signer = await cliHelper.getSigner(hre);
 
-    const outDir = path.join(
-        ".",
-        "out",
+    const sent: SentTransaction[] = [];
+    for (const { role, account } of await missingGrants(
+        contractAddress,
+        grants
+    )) {
+        const tx = await txSender.sendTransaction(
+            signer,
+            await contract.grantRole.populateTransaction(role, account),
+            `grant ${contractName} role ${role} to ${account}`
+        );
+        console.log(`granted role ${role} to ${account} with tx: ${tx.hash}`);
+        sent.push(tx);
+    }
+
+    return {
+        address: contractAddress,
+        txHashes: sent.map((tx) => tx.hash),
+        transactions: sent.map(txSender.summary),
+    };
+}
+
+/**
+ * dryRunDeployAll estimates every step that the manifest does not hold yet.
+ * Contracts deployed within the run are addressed by their predicted CREATE
+ * address; calls into them cannot be estimated before they exist.
+ */
+async function dryRunDeployAll(
+    input: Input,
+    manifest: DeploymentManifest,
+    deployerAddress: string,
+    network: string
+) {
+    const report = await dryRunHelper.createDryRunReport(
+        "deploy-all",
         network,
-        "deployment",
+        deployerAddress
+    );
+    let nonce = await ethers.provider.getTransactionCount(
+        deployerAddress,
+        "pending"
+    );
+    const accessControl = await ethers.getContractAt(
+        "AccessControl",
+        ethers.ZeroAddress
+    );
+
+    const estimateDeployment = async (deployment: ContractDeployment) => {
+        const { name } = deployment;
+        const completed = await completedDeployment(manifest, deployment);
+        if (completed) {
+            return { address: completed.address, pending: false };
+        }
+        await dryRunHelper.estimateStep(
+            report,
+            `deploy ${name}`,
+            await deployTransaction(deployment)
+        );
+        const address = ethers.getCreateAddress({
+            from: deployerAddress,
+            nonce: nonce++,
+        });
+        return { address, pending: true };
+    };
+
+    const estimateGrants = async (
+        name: string,
+        target: { address: string; pending: boolean },
+        grants: RoleGrant[]
+    ) => {
+        const toGrant = target.pending
+            ? grants
+            : await missingGrants(target.address, grants);
+        for (const { role, account } of toGrant) {
+            const tx = {
+                to: target.address,
+                data: accessControl.interface.encodeFunctionData("grantRole", [
+                    role,
+                    account,
+                ]),
+            };
+            const stepName = `${name} grantRole ${role} to ${account}`;
+            if (target.pending) {
+                dryRunHelper.skipStep(
+                    report,
+                    stepName,
+                    tx,
+                    "contract is deployed earlier in this run"
+                );
+            } else {
+                await dryRunHelper.estimateStep(report, stepName, tx);
+            }
+            nonce++;
+        }
+    };
+
+    const callHelper = await estimateDeployment(callHelperDeployment(input));
+    await estimateGrants("CallHelper", callHelper, callHelperRoleGrants(input));
+    const iaiToken = await estimateDeployment(iaiTokenDeployment(input));
+    const rewardDistributor = await estimateDeployment(
+        rewardDistributorDeployment(iaiToken.address)
+    );
+    await estimateGrants(
         "RewardDistributor",
-        `${+new Date()}`
+        rewardDistributor,
+        rewardDistributorRoleGrants(input)
     );
-    cliHelper.ensureDirExists(outDir);
-    cliHelper.writeOutputResult(
-        { address: deployedAddress, txHash: deployedTx?.hash },
-        outDir,
-        "result.json"
+
+    return report;
+}
+
+/**
+ * buildUnsignedDeployAll writes every step the manifest does not hold yet as
+ * unsigned transactions of the offline signer, in the order deploy-all sends
+ * them. Contracts deployed within the bundle are addressed by their predicted
+ * CREATE address, grants into them get a fixed gas limit.
+ */
+async function buildUnsignedDeployAll(
+    input: Input,
+    inputContent: string,
+    manifest: DeploymentManifest,
+    from: string,
+    network: string
+) {
+    const bundle = await offlineHelper.createUnsignedBundle(
+        ethers.provider,
+        "deploy-all",
+        network,
+        from,
+        inputContent
     );
-    await cliHelper.flattenSolidity2File(
-        [path.join(contractsPath, "RewardDistributor.sol")],
-        outDir,
-        "RewardDistributor.flatten.sol"
+    const accessControl = await ethers.getContractAt(
+        "AccessControl",
+        ethers.ZeroAddress
     );
 
-    return { address: deployedAddress, txHash: deployedTx?.hash };
+    const addDeployment = async (deployment: ContractDeployment) => {
+        const { name } = deployment;
+        const completed = await completedDeployment(manifest, deployment);
+        if (completed) {
+            return { address: completed.address, pending: false };
+        }
+        const unsigned = await offlineHelper.addTransaction(
+            ethers.provider,
+            bundle,
+            name,
+            `deploy ${name}`,
+            await deployTransaction(deployment)
+        );
+        return { address: unsigned.contractAddress!, pending: true };
+    };
+
+    const addGrants = async (
+        step: string,
+        name: string,
+        target: { address: string; pending: boolean },
+        grants: RoleGrant[]
+    ) => {
+        const toGrant = target.pending
+            ? grants
+            : await missingGrants(target.address, grants);
+        for (const { role, account } of toGrant) {
+            await offlineHelper.addTransaction(
+                ethers.provider,
+                bundle,
+                step,
+                `${name} grantRole ${role} to ${account}`,
+                {
+                    to: target.address,
+                    data: accessControl.interface.encodeFunctionData(
+                        "grantRole",
+                        [role, account]
+                    ),
+                },
+                target.pending ? FALLBACK_GAS_LIMIT : undefined
+            );
+        }
+    };
+
+    const callHelper = await addDeployment(callHelperDeployment(input));
+    await addGrants(
+        "CallHelperRoles",
+        "CallHelper",
+        callHelper,
+        callHelperRoleGrants(input)
+    );
+    const iaiToken = await addDeployment(iaiTokenDeployment(input));
+    const rewardDistributor = await addDeployment(
+        rewardDistributorDeployment(iaiToken.address)
+    );
+    await addGrants(
+        "RewardDistributorRoles",
+        "RewardDistributor",
+        rewardDistributor,
+        rewardDistributorRoleGrants(input)
+    );
+
+    return bundle;
+}
+
+/**
+ * broadcastStep sends the signed transactions of one step. The steps run in
+ * the order the bundle was built in, which keeps the nonces in order, and each
+ * is recorded in the manifest once its transactions confirm.
+ */
+async function broadcastStep(bundle: SignedBundle, step: string) {
+    const results: BroadcastResult[] = [];
+    for (const signed of bundle.transactions.filter(
+        (transaction) => transaction.step === step
+    )) {
+        const result = await offlineHelper.sendSignedTransaction(
+            ethers.provider,
+            bundle.from,
+            signed,
+            txSender.networkConfirmations()
+        );
+        console.log(
+            `${result.sent ? "sent" : "already mined"}: ${
+                result.label
+            } with tx: ${result.hash}`
+        );
+        results.push(result);
+    }
+    return results;
+}
+
+/**
+ * broadcastDeployment is the counterpart of deployContract for a signed
+ * bundle.
+ */
+async function broadcastDeployment(
+    bundle: SignedBundle,
+    deployment: ContractDeployment
+): Promise<DeployedContract> {
+    const [deployed] = await broadcastStep(bundle, deployment.name);
+    if (!deployed?.contractAddress) {
+        throw new Error(
+            `${deployment.name} is neither completed in the manifest nor part of the signed bundle, build the bundle again`
+        );
+    }
+    console.log(`\n=== ${deployment.name} deployed by the signed bundle ===`);
+    return {
+        address: deployed.contractAddress,
+        txHash: deployed.hash,
+        broadcast: [deployed],
+    };
+}
+
+/**
+ * broadcastGrants is the counterpart of grantRoles for a signed bundle.
+ */
+async function broadcastGrants(
+    bundle: SignedBundle,
+    step: string,
+    contractAddress: string
+): Promise<DeploymentResult> {
+    const broadcast = await broadcastStep(bundle, step);
+    return {
+        address: contractAddress,
+        txHashes: broadcast.map((result) => result.hash),
+        broadcast,
+    };
 }
 
 async function verifyDeployment(
@@ -182,16 +800,24 @@ async function verifyDeployment(
     console.log("\nTesting basic integration:");
 
     // 2. Approve RewardDistributor to spend tokens
-    const approveTx = await iaiToken.approve(
-        rewardDistributorAddress,
-        REWARD_INITIAL_FUND_AMOUNT
+    await txSender.sendTransaction(
+        deployer,
+        await iaiToken.approve.populateTransaction(
+            rewardDistributorAddress,
+            REWARD_INITIAL_FUND_AMOUNT
+        ),
+        "approve RewardDistributor"
     );
-    await approveTx.wait();
     console.log("Approved RewardDistributor to spend tokens");
 
     // 3. Fund RewardDistributor
-    const fundTx = await rewardDistributor.addFunds(REWARD_INITIAL_FUND_AMOUNT);
-    await fundTx.wait();
+    await txSender.sendTransaction(
+        deployer,
+        await rewardDistributor.addFunds.populateTransaction(
+            REWARD_INITIAL_FUND_AMOUNT
+        ),
+        "addFunds"
+    );
     console.log("Funded RewardDistributor");
 
     // 4. Verify RewardDistributor balance
@@ -204,74 +830,235 @@ async function verifyDeployment(
     );
 
     // 5. Distribute rewards
-    const distributeTx = await rewardDistributor.distribute(
-        [deployerAddress],
-        [ethers.parseEther("1.5")]
+    await txSender.sendTransaction(
+        deployer,
+        await rewardDistributor.distribute.populateTransaction(
+            [deployerAddress],
+            [ethers.parseEther("1.5")]
+        ),
+        "distribute"
     );
-    await distributeTx.wait();
     console.log("Distributed rewards");
 
     console.log("\n✅ Post-deployment verification completed successfully");
 }
 
 (async (): Promise<void> => {
-    const { network, contracts: contractsPath } = program.opts();
+    const {
+        input: inputFilePath,
+        network,
+        contracts: contractsPath,
+        resetManifest,
+        dryRun,
+        buildUnsigned,
+        from,
+        broadcastSigned,
+    } = program.opts();
+    const optionErrors = offlineHelper.validateOfflineOptions(program.opts());
+    if (optionErrors.length > 0) {
+        optionErrors.forEach((err) => console.error(err));
+        process.exit(1);
+    }
+    const verifyOptions = verifyHelper.verifyOptionsFromCli(program.opts());
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const input = JSON.parse(inputContent) as Input;
 
     console.log(`Changing network to: ${network} ...`);
     await hre.changeNetwork(network);
     console.log(`Changed network to: ${network}`);
 
-    const [deployer] = await ethers.getSigners();
-    console.log("Deploying contracts with account:", deployer.address);
+    let signedBundle: SignedBundle | undefined;
+    if (broadcastSigned) {
+        const { bundle, errors } = await offlineHelper.loadSignedBundle(
+            ethers.provider,
+            broadcastSigned,
+            "deploy-all",
+            inputContent
+        );
+        if (errors.length > 0) {
+            console.error(`invalid signed bundle ${broadcastSigned}:`);
+            errors.forEach((err) => console.error(`  - ${err}`));
+            process.exit(1);
+        }
+        const warning = await offlineHelper.feeWarning(ethers.provider, bundle);
+        if (warning) {
+            console.warn(`WARNING: ${warning}`);
+        }
+        signedBundle = bundle;
+    }
+
+    // the offline deployer's key is not on this machine, it is only the
+    // sender of the transactions
+    const deployerAddress = buildUnsigned
+        ? ethers.getAddress(from)
+        : signedBundle?.from ?? (await cliHelper.getSigner(hre)).address;
+    console.log("Deploying contracts with account:", deployerAddress);
     console.log(
         "Account balance:",
-        ethers.formatEther(await ethers.provider.getBalance(deployer.address))
+        ethers.formatEther(await ethers.provider.getBalance(deployerAddress))
     );
 
+    const inputErrors = validateInput(input, deployerAddress);
+    if (inputErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        inputErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
     console.log("Compiling contracts...");
     await hre.run("compile");
     console.log("Compilation complete");
 
+    if (resetManifest && !dryRun && !buildUnsigned) {
+        manifestHelper.archiveManifest(network);
+    }
+    const { chainId } = await ethers.provider.getNetwork();
+    let manifest = manifestHelper.loadManifest(network);
+    if (manifest && manifest.chainId !== chainId.toString()) {
+        console.error(
+            `manifest at ${manifestHelper.manifestPath(
+                network
+            )} was written for chain ID ${
+                manifest.chainId
+            }, but ${network} is chain ID ${chainId}`
+        );
+        process.exit(1);
+    }
+    if (dryRun) {
+        const report = await dryRunDeployAll(
+            input,
+            resetManifest || !manifest
+                ? manifestHelper.createManifest(
+                      network,
+                      chainId,
+                      deployerAddress
+                  )
+                : manifest,
+            deployerAddress,
+            network
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+    if (buildUnsigned) {
+        const bundle = await buildUnsignedDeployAll(
+            input,
+            inputContent,
+            resetManifest || !manifest
+                ? manifestHelper.createManifest(
+                      network,
+                      chainId,
+                      deployerAddress
+                  )
+                : manifest,
+            deployerAddress,
+            network
+        );
+        offlineHelper.writeBundle(bundle, buildUnsigned);
+        console.log(
+            `unsigned bundle of ${bundle.transactions.length} transaction(s) written to: ${buildUnsigned}`
+        );
+        return;
+    }
+    if (!manifest) {
+        manifest = manifestHelper.createManifest(
+            network,
+            chainId,
+            deployerAddress
+        );
+        manifestHelper.saveManifest(manifest);
+    } else {
+        console.log(
+            "Resuming from manifest:",
+            manifestHelper.manifestPath(network)
+        );
+    }
+
+    // a signed bundle is broadcast step by step, so the manifest holds every
+    // step that confirmed when a later one fails
+    const deployStep = (deployment: ContractDeployment) =>
+        runDeployStep(
+            manifest!,
+            deployment,
+            () =>
+                signedBundle
+                    ? broadcastDeployment(signedBundle, deployment)
+                    : deployContract(deployment),
+            network,
+            contractsPath,
+            verifyOptions
+        );
+
     // Deploy in sequence
-    const callHelperResult = await deployCallHelper(
-        deployer,
-        network,
-        contractsPath
-    );
+    const callHelperResult = await deployStep(callHelperDeployment(input));
     console.log(`CallHelper deployed at: ${callHelperResult.address}`);
 
+    const callHelperRolesResult = await runStep(
+        manifest,
+        "CallHelperRoles",
+        (recorded) => verifyGrants(callHelperResult.address, recorded),
+        async () =>
+            signedBundle
+                ? await broadcastGrants(
+                      signedBundle,
+                      "CallHelperRoles",
+                      callHelperResult.address
+                  )
+                : await grantRoles(
+                      "CallHelper",
+                      callHelperResult.address,
+                      callHelperRoleGrants(input)
+                  )
+    );
+
     console.log(
         "Account balance:",
-        ethers.formatEther(await ethers.provider.getBalance(deployer.address))
-    );
-    const iaiTokenResult = await deployIAIToken(
-        deployer,
-        network,
-        contractsPath
+        ethers.formatEther(await ethers.provider.getBalance(deployerAddress))
     );
+    const iaiTokenResult = await deployStep(iaiTokenDeployment(input));
     console.log(`iAI Token deployed at: ${iaiTokenResult.address}`);
 
     console.log(
         "Account balance:",
-        ethers.formatEther(await ethers.provider.getBalance(deployer.address))
+        ethers.formatEther(await ethers.provider.getBalance(deployerAddress))
     );
-    const rewardDistributorResult = await deployRewardDistributor(
-        iaiTokenResult.address,
-        network,
-        contractsPath
+    const rewardDistributorResult = await deployStep(
+        rewardDistributorDeployment(iaiTokenResult.address)
     );
     console.log(
         `RewardDistributor deployed at: ${rewardDistributorResult.address}`
     );
 
+    const rewardDistributorRolesResult = await runStep(
+        manifest,
+        "RewardDistributorRoles",
+        (recorded) => verifyGrants(rewardDistributorResult.address, recorded),
+        async () =>
+            signedBundle
+                ? await broadcastGrants(
+                      signedBundle,
+                      "RewardDistributorRoles",
+                      rewardDistributorResult.address
+                  )
+                : await grantRoles(
+                      "RewardDistributor",
+                      rewardDistributorResult.address,
+                      rewardDistributorRoleGrants(input)
+                  )
+    );
+
     // Write final deployment summary
     const summaryDir = path.join(".", "out", network, "deployment", "summary");
     cliHelper.ensureDirExists(summaryDir);
     cliHelper.writeOutputResult(
         {
+            input,
             callHelper: callHelperResult,
+            callHelperRoles: callHelperRolesResult,
             iaiToken: iaiTokenResult,
             rewardDistributor: rewardDistributorResult,
+            rewardDistributorRoles: rewardDistributorRolesResult,
         },
         summaryDir,
         "deployment-summary.json"
@@ -287,7 +1074,7 @@ async function verifyDeployment(
                 callHelperResult.address,
                 iaiTokenResult.address,
                 rewardDistributorResult.address,
-                deployer
+                await cliHelper.getSigner(hre)
             );
         } catch (error) {
             console.error("❌ Post-deployment verification failed:", error);
@@ -299,4 +1086,4 @@ async function verifyDeployment(
         "\nDeployment Complete! Summary written to:",
         path.join(summaryDir, "deployment-summary.json")
     );
-})();
+})().catch(cliHelper.exitOnFailure);
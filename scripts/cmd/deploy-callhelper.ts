@@ -1,4 +1,7 @@
 import { Command } from "commander";
+import dryRunHelper from "../lib/dry-run";
+import txSender from "../lib/tx-sender";
+import verifyHelper from "../lib/verify";
 import cliHelper from "./cli-helper";
 import { ethers } from "hardhat";
 import * as hre from "hardhat";
@@ -12,6 +15,12 @@ const program = new Command("deploy-callhelper")
     .requiredOption("--input <path>", "path to input JSON file")
     .requiredOption("--network <network>", "network to deploy to")
     .requiredOption("--contracts <path>", "path to contracts directory")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--no-verify", "skip source verification on the block explorer")
+    .option(
+        "--explorer-api-url <url>",
+        "block explorer API to verify against, e.g. the local mock explorer"
+    )
     .parse(process.argv);
 
 (async (): Promise<void> => {
@@ -19,6 +28,7 @@ const program = new Command("deploy-callhelper")
         input: inputFilePath,
         network,
         contracts: contractsPath,
+        dryRun,
     } = program.opts();
     const inputContent = fs.readFileSync(inputFilePath, "utf-8");
     const input = JSON.parse(inputContent) as Input;
@@ -28,7 +38,7 @@ const program = new Command("deploy-callhelper")
     console.log(`changed network to: ${network} ...`);
     console.log(hre.config["networks"][network]);
 
-    const [deployer] = await ethers.getSigners();
+    const deployer = await cliHelper.getSigner(hre);
     console.log("deploying contract with the account:", deployer.address);
     console.log(
         "account balance:",
@@ -40,17 +50,34 @@ const program = new Command("deploy-callhelper")
     console.log("compiling ...done");
 
     console.log("getting contract factory for CallHelper...");
-    const CallHelper = await ethers.getContractFactory("CallHelper");
+    const CallHelper = await ethers.getContractFactory("CallHelper", deployer);
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "deploy-callhelper",
+            network,
+            deployer.address
+        );
+        await dryRunHelper.estimateStep(
+            report,
+            "deploy CallHelper",
+            await CallHelper.getDeployTransaction(
+                deployer.address,
+                deployer.address
+            )
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
     console.log("deploying CallHelper contract...");
-    const deployed = await CallHelper.deploy(
-        deployer.address,
-        deployer.address
+    const { sent: deployedTx } = await txSender.deployContract(
+        CallHelper,
+        [deployer.address, deployer.address],
+        "deploy CallHelper"
     );
-    await deployed.waitForDeployment();
-    const deployedTx = deployed.deploymentTransaction();
-    const deployedAddress = await deployed.getAddress();
+    const deployedAddress = deployedTx.contractAddress!;
     console.log(
-        `deployed CallHelper contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx}`
+        `deployed CallHelper contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx.hash}`
     );
     cliHelper.writeHLine();
 
@@ -69,14 +96,12 @@ const program = new Command("deploy-callhelper")
 
     // write output result ...
     console.log("writing deployment result...");
-    cliHelper.writeOutputResult(
-        {
-            address: deployedAddress,
-            txHash: deployedTx?.hash,
-        },
-        outDir,
-        "result.json"
-    );
+    const result = {
+        address: deployedAddress,
+        txHash: deployedTx.hash,
+        transactions: txSender.sentTransactions(),
+    };
+    cliHelper.writeOutputResult(result, outDir, "result.json");
     console.log("deployment result written.");
 
     // write copied of hardhat config ...
@@ -96,4 +121,13 @@ const program = new Command("deploy-callhelper")
         "CallHelper.flatten.sol"
     );
     console.log("flattened sol file... done");
-})();
+
+    // verify source on the block explorer ...
+    await verifyHelper.verifyAndRecord(
+        outDir,
+        result,
+        "contracts/CallHelper.sol:CallHelper",
+        [deployer.address, deployer.address],
+        verifyHelper.verifyOptionsFromCli(program.opts())
+    );
+})().catch(cliHelper.exitOnFailure);
@@ -1,4 +1,7 @@
 import { Command } from "commander";
+import dryRunHelper from "../lib/dry-run";
+import txSender from "../lib/tx-sender";
+import verifyHelper from "../lib/verify";
 import cliHelper from "./cli-helper";
 import { ethers } from "hardhat";
 import * as hre from "hardhat";
@@ -14,6 +17,12 @@ const program = new Command("deploy-iai-token")
     .requiredOption("--input <path>", "path to input JSON file")
     .requiredOption("--network <network>", "network to deploy to")
     .requiredOption("--contracts <path>", "path to contracts directory")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--no-verify", "skip source verification on the block explorer")
+    .option(
+        "--explorer-api-url <url>",
+        "block explorer API to verify against, e.g. the local mock explorer"
+    )
     .parse(process.argv);
 
 (async (): Promise<void> => {
@@ -21,6 +30,7 @@ const program = new Command("deploy-iai-token")
         input: inputFilePath,
         network,
         contracts: contractsPath,
+        dryRun,
     } = program.opts();
     const inputContent = fs.readFileSync(inputFilePath, "utf-8");
     const input = JSON.parse(inputContent) as Input;
@@ -30,7 +40,7 @@ const program = new Command("deploy-iai-token")
     console.log(`changed network to: ${network} ...`);
     console.log(hre.config["networks"][network]);
 
-    const [deployer] = await ethers.getSigners();
+    const deployer = await cliHelper.getSigner(hre);
     console.log("deploying contract with the account:", deployer.address);
     console.log(
         "account balance:",
@@ -41,19 +51,36 @@ const program = new Command("deploy-iai-token")
     await hre.run("compile");
     console.log("compiling ...done");
 
-    const adminWallet = await hre.ethers.provider.getSigner();
-    const adminWalletAddress = await adminWallet.getAddress();
+    // the deployer owns the token, a keystore signer has no RPC account
+    const adminWalletAddress = deployer.address;
 
-    const IAIToken = await ethers.getContractFactory("IAIToken");
-    const deployed = await IAIToken.deploy(
-        adminWalletAddress,
-        INITIAL_IAI_TOKEN_SUPPLY
+    const IAIToken = await ethers.getContractFactory("IAIToken", deployer);
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "deploy-iai-token",
+            network,
+            deployer.address
+        );
+        await dryRunHelper.estimateStep(
+            report,
+            "deploy IAIToken",
+            await IAIToken.getDeployTransaction(
+                adminWalletAddress,
+                INITIAL_IAI_TOKEN_SUPPLY
+            )
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+    const { sent: deployedTx } = await txSender.deployContract(
+        IAIToken,
+        [adminWalletAddress, INITIAL_IAI_TOKEN_SUPPLY],
+        "deploy IAIToken"
     );
-    await deployed.waitForDeployment();
-    const deployedTx = deployed.deploymentTransaction();
-    const deployedAddress = await deployed.getAddress();
+    const deployedAddress = deployedTx.contractAddress!;
     console.log(
-        `deployed iAI Token contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx}`
+        `deployed iAI Token contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx.hash}`
     );
     cliHelper.writeHLine();
 
@@ -69,14 +96,12 @@ const program = new Command("deploy-iai-token")
     cliHelper.ensureDirExists(outDir);
 
     // write output result ...
-    cliHelper.writeOutputResult(
-        {
-            address: deployedAddress,
-            txHash: deployedTx?.hash,
-        },
-        outDir,
-        "result.json"
-    );
+    const result = {
+        address: deployedAddress,
+        txHash: deployedTx.hash,
+        transactions: txSender.sentTransactions(),
+    };
+    cliHelper.writeOutputResult(result, outDir, "result.json");
 
     // write copied of hardhat config ...
     cliHelper.writeOutputResult(
@@ -93,4 +118,13 @@ const program = new Command("deploy-iai-token")
         "IAI.flatten.sol"
     );
     console.log("flattened sol file... done");
-})();
+
+    // verify source on the block explorer ...
+    await verifyHelper.verifyAndRecord(
+        outDir,
+        result,
+        "contracts/IAI.sol:IAIToken",
+        [adminWalletAddress, INITIAL_IAI_TOKEN_SUPPLY],
+        verifyHelper.verifyOptionsFromCli(program.opts())
+    );
+})().catch(cliHelper.exitOnFailure);
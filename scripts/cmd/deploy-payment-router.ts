@@ -0,0 +1,133 @@
+import { Command } from "commander";
+import dryRunHelper from "../lib/dry-run";
+import txSender from "../lib/tx-sender";
+import verifyHelper from "../lib/verify";
+import cliHelper from "./cli-helper";
+import { ethers } from "hardhat";
+import * as hre from "hardhat";
+import * as path from "path";
+import * as fs from "fs";
+
+interface Input {}
+
+const program = new Command("deploy-payment-router")
+    .description("deploy MMVPaymentRouterV1 contract")
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to deploy to")
+    .requiredOption("--contracts <path>", "path to contracts directory")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--no-verify", "skip source verification on the block explorer")
+    .option(
+        "--explorer-api-url <url>",
+        "block explorer API to verify against, e.g. the local mock explorer"
+    )
+    .parse(process.argv);
+
+(async (): Promise<void> => {
+    const {
+        input: inputFilePath,
+        network,
+        contracts: contractsPath,
+        dryRun,
+    } = program.opts();
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const input = JSON.parse(inputContent) as Input;
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network} ...`);
+    console.log(hre.config["networks"][network]);
+
+    const deployer = await cliHelper.getSigner(hre);
+    console.log("deploying contract with the account:", deployer.address);
+    console.log(
+        "account balance:",
+        (await ethers.provider.getBalance(deployer.address)).toString()
+    );
+
+    console.log("compiling ...");
+    await hre.run("compile");
+    console.log("compiling ...done");
+
+    console.log("getting contract factory for MMVPaymentRouterV1...");
+    const PaymentRouter = await ethers.getContractFactory(
+        "MMVPaymentRouterV1",
+        deployer
+    );
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "deploy-payment-router",
+            network,
+            deployer.address
+        );
+        await dryRunHelper.estimateStep(
+            report,
+            "deploy MMVPaymentRouterV1",
+            await PaymentRouter.getDeployTransaction()
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+    console.log("deploying MMVPaymentRouterV1 contract...");
+    const { sent: deployedTx } = await txSender.deployContract(
+        PaymentRouter,
+        [],
+        "deploy MMVPaymentRouterV1"
+    );
+    const deployedAddress = deployedTx.contractAddress!;
+    console.log(
+        `deployed MMVPaymentRouterV1 contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx.hash}`
+    );
+    cliHelper.writeHLine();
+
+    // make output dir ...
+    console.log("creating output directory...");
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "deployment",
+        "MMVPaymentRouterV1",
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    console.log("output directory created.");
+
+    // write output result ...
+    console.log("writing deployment result...");
+    const result = {
+        address: deployedAddress,
+        txHash: deployedTx.hash,
+        transactions: txSender.sentTransactions(),
+    };
+    cliHelper.writeOutputResult(result, outDir, "result.json");
+    console.log("deployment result written.");
+
+    // write copied of hardhat config ...
+    console.log("writing hardhat config...");
+    cliHelper.writeOutputResult(
+        cliHelper.JSONStringify(hre.config),
+        outDir,
+        "hardhat-config.json"
+    );
+    console.log("hardhat config written.");
+
+    // flatten sol file to output dir ...
+    console.log("flattening sol file...");
+    await cliHelper.flattenSolidity2File(
+        [path.join(contractsPath, "PaymentRouter.sol")],
+        outDir,
+        "PaymentRouter.flatten.sol"
+    );
+    console.log("flattened sol file... done");
+
+    // verify source on the block explorer ...
+    await verifyHelper.verifyAndRecord(
+        outDir,
+        result,
+        "contracts/PaymentRouter.sol:MMVPaymentRouterV1",
+        [],
+        verifyHelper.verifyOptionsFromCli(program.opts())
+    );
+})().catch(cliHelper.exitOnFailure);
@@ -1,4 +1,8 @@
 import { Command } from "commander";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import txSender from "../lib/tx-sender";
+import verifyHelper from "../lib/verify";
 import cliHelper from "./cli-helper";
 import { ethers } from "hardhat";
 import * as hre from "hardhat";
@@ -6,6 +10,7 @@ import * as path from "path";
 import * as fs from "fs";
 
 interface Input {
+    // address or deployment registry name, e.g. iAIToken
     rewardTokenAddress: string;
 }
 
@@ -14,6 +19,12 @@ const program = new Command("deploy-reward-distributor")
     .requiredOption("--input <path>", "path to input JSON file")
     .requiredOption("--network <network>", "network to deploy to")
     .requiredOption("--contracts <path>", "path to contracts directory")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--no-verify", "skip source verification on the block explorer")
+    .option(
+        "--explorer-api-url <url>",
+        "block explorer API to verify against, e.g. the local mock explorer"
+    )
     .parse(process.argv);
 
 (async (): Promise<void> => {
@@ -21,16 +32,27 @@ const program = new Command("deploy-reward-distributor")
         input: inputFilePath,
         network,
         contracts: contractsPath,
+        dryRun,
     } = program.opts();
     const inputContent = fs.readFileSync(inputFilePath, "utf-8");
-    const { rewardTokenAddress } = JSON.parse(inputContent) as Input;
+    const { input, errors: inputErrors } = registryHelper.resolveInputAddresses(
+        network,
+        JSON.parse(inputContent) as Input,
+        ["rewardTokenAddress"]
+    );
+    if (inputErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        inputErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    const { rewardTokenAddress } = input;
 
     console.log(`changing network to: ${network} ...`);
     await hre.changeNetwork(network);
     console.log(`changed network to: ${network} ...`);
     console.log(hre.config["networks"][network]);
 
-    const [deployer] = await ethers.getSigners();
+    const deployer = await cliHelper.getSigner(hre);
     console.log("deploying contract with the account:", deployer.address);
     console.log(
         "account balance:",
@@ -48,15 +70,33 @@ const program = new Command("deploy-reward-distributor")
 
     console.log("getting contract factory for RewardDistributor...");
     const RewardDistributor = await ethers.getContractFactory(
-        "RewardDistributor"
+        "RewardDistributor",
+        deployer
     );
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "deploy-reward-distributor",
+            network,
+            deployer.address
+        );
+        await dryRunHelper.estimateStep(
+            report,
+            "deploy RewardDistributor",
+            await RewardDistributor.getDeployTransaction(rewardTokenAddress)
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
     console.log("deploying RewardDistributor contract...");
-    const deployed = await RewardDistributor.deploy(rewardTokenAddress);
-    await deployed.waitForDeployment();
-    const deployedTx = deployed.deploymentTransaction();
-    const deployedAddress = await deployed.getAddress();
+    const { sent: deployedTx } = await txSender.deployContract(
+        RewardDistributor,
+        [rewardTokenAddress],
+        "deploy RewardDistributor"
+    );
+    const deployedAddress = deployedTx.contractAddress!;
     console.log(
-        `deployed RewardDistributor contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx}`
+        `deployed RewardDistributor contract to: ${deployedAddress} on ${network} ...done with tx: ${deployedTx.hash}`
     );
     cliHelper.writeHLine();
 
@@ -75,14 +115,12 @@ const program = new Command("deploy-reward-distributor")
 
     // write output result ...
     console.log("writing deployment result...");
-    cliHelper.writeOutputResult(
-        {
-            address: deployedAddress,
-            txHash: deployedTx?.hash,
-        },
-        outDir,
-        "result.json"
-    );
+    const result = {
+        address: deployedAddress,
+        txHash: deployedTx.hash,
+        transactions: txSender.sentTransactions(),
+    };
+    cliHelper.writeOutputResult(result, outDir, "result.json");
     console.log("deployment result written.");
 
     // write copied of hardhat config ...
@@ -102,4 +140,13 @@ const program = new Command("deploy-reward-distributor")
         "RewardDistributor.flatten.sol"
     );
     console.log("flattened sol file... done");
-})();
+
+    // verify source on the block explorer ...
+    await verifyHelper.verifyAndRecord(
+        outDir,
+        result,
+        "contracts/RewardDistributor.sol:RewardDistributor",
+        [rewardTokenAddress],
+        verifyHelper.verifyOptionsFromCli(program.opts())
+    );
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,396 @@
+import { Command } from "commander";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import txSender from "../lib/tx-sender";
+import verifyHelper from "../lib/verify";
+import cliHelper from "./cli-helper";
+import { ethers } from "hardhat";
+import * as hre from "hardhat";
+import * as path from "path";
+import * as fs from "fs";
+
+interface Input {
+    // existing SmartChefFactory to reuse, a new one is deployed when empty.
+    // factory and both tokens accept deployment registry names as well
+    factory?: string;
+    stakedToken: string;
+    rewardToken: string;
+    // in whole reward tokens
+    rewardPerBlock: string;
+    startBlock: number;
+    bonusEndBlock: number;
+    // in whole staked tokens, "0" for no limit
+    poolLimitPerUser: string;
+    admin: string;
+}
+
+const program = new Command("deploy-smartchef-pool")
+    .description("deploy a SmartChef pool through SmartChefFactory")
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to deploy to")
+    .requiredOption("--contracts <path>", "path to contracts directory")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--no-verify", "skip source verification on the block explorer")
+    .option(
+        "--explorer-api-url <url>",
+        "block explorer API to verify against, e.g. the local mock explorer"
+    )
+    .parse(process.argv);
+
+function validateInput(input: Input, currentBlock: number): string[] {
+    const errors: string[] = [];
+    const checkAddress = (field: string, value: unknown) => {
+        if (typeof value !== "string" || !ethers.isAddress(value)) {
+            errors.push(`${field}: "${value}" is not a valid address`);
+        } else if (value === ethers.ZeroAddress) {
+            errors.push(`${field}: must not be the zero address`);
+        }
+    };
+
+    if (input.factory) {
+        checkAddress("factory", input.factory);
+    }
+    checkAddress("stakedToken", input.stakedToken);
+    checkAddress("rewardToken", input.rewardToken);
+    checkAddress("admin", input.admin);
+    if (
+        typeof input.stakedToken === "string" &&
+        typeof input.rewardToken === "string" &&
+        input.stakedToken.toLowerCase() === input.rewardToken.toLowerCase()
+    ) {
+        errors.push("stakedToken and rewardToken must be different");
+    }
+    if (
+        !Number.isInteger(input.startBlock) ||
+        !Number.isInteger(input.bonusEndBlock)
+    ) {
+        errors.push("startBlock and bonusEndBlock must be block numbers");
+    } else {
+        if (input.startBlock >= input.bonusEndBlock) {
+            errors.push("startBlock must be lower than bonusEndBlock");
+        }
+        if (input.startBlock <= currentBlock) {
+            errors.push(
+                `startBlock must be higher than the current block ${currentBlock}`
+            );
+        }
+    }
+    for (const field of ["rewardPerBlock", "poolLimitPerUser"] as const) {
+        if (!/^\d+(\.\d+)?$/.test(String(input[field]))) {
+            errors.push(`${field}: "${input[field]}" is not a token amount`);
+        }
+    }
+
+    return errors;
+}
+
+(async (): Promise<void> => {
+    const {
+        input: inputFilePath,
+        network,
+        contracts: contractsPath,
+        dryRun,
+    } = program.opts();
+    const verifyOptions = verifyHelper.verifyOptionsFromCli(program.opts());
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const { input, errors: registryErrors } =
+        registryHelper.resolveInputAddresses(
+            network,
+            JSON.parse(inputContent) as Input,
+            ["factory", "stakedToken", "rewardToken"]
+        );
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network} ...`);
+
+    const deployer = await cliHelper.getSigner(hre);
+    console.log("deploying pool with the account:", deployer.address);
+    console.log(
+        "account balance:",
+        (await ethers.provider.getBalance(deployer.address)).toString()
+    );
+
+    const currentBlock = await ethers.provider.getBlockNumber();
+    const inputErrors =
+        registryErrors.length > 0
+            ? registryErrors
+            : validateInput(input, currentBlock);
+    if (inputErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        inputErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
+    console.log("compiling ...");
+    await hre.run("compile");
+    console.log("compiling ...done");
+
+    const stakedToken = await ethers.getContractAt("ERC20", input.stakedToken);
+    const rewardToken = await ethers.getContractAt("ERC20", input.rewardToken);
+    const stakedDecimals = await stakedToken.decimals();
+    const rewardDecimals = await rewardToken.decimals();
+    const rewardPerBlockWei = ethers.parseUnits(
+        input.rewardPerBlock,
+        rewardDecimals
+    );
+    const poolLimitPerUserWei = ethers.parseUnits(
+        input.poolLimitPerUser,
+        stakedDecimals
+    );
+
+    // mirrors SmartChefFactory.deployPool
+    const totalBlocks = BigInt(input.bonusEndBlock - input.startBlock);
+    const totalRewardsNeeded = totalBlocks * rewardPerBlockWei;
+    console.log(
+        `total rewards needed: (${input.bonusEndBlock} - ${
+            input.startBlock
+        }) * ${input.rewardPerBlock} = ${ethers.formatUnits(
+            totalRewardsNeeded,
+            rewardDecimals
+        )} ${await rewardToken.symbol()}`
+    );
+
+    const rewardBalance = await rewardToken.balanceOf(deployer.address);
+    if (rewardBalance < totalRewardsNeeded) {
+        console.log(
+            `current reward balance: ${ethers.formatUnits(
+                rewardBalance,
+                rewardDecimals
+            )}, requires ${ethers.formatUnits(
+                totalRewardsNeeded - rewardBalance,
+                rewardDecimals
+            )} more`
+        );
+        process.exit(1);
+    }
+
+    const SmartChefFactory = await ethers.getContractFactory(
+        "SmartChefFactory",
+        deployer
+    );
+    if (input.factory) {
+        const factory = await ethers.getContractAt(
+            "SmartChefFactory",
+            input.factory
+        );
+        const factoryOwner = await factory.owner();
+        if (factoryOwner !== deployer.address) {
+            console.error(
+                `factory ${input.factory} is owned by ${factoryOwner}, not by ${deployer.address}`
+            );
+            process.exit(1);
+        }
+
+        // the factory deploys pools with CREATE2, so the same tokens and
+        // start block can only be used once per factory
+        const SmartChefInitializable = await ethers.getContractFactory(
+            "SmartChefInitializable"
+        );
+        const predictedPool = ethers.getCreate2Address(
+            input.factory,
+            ethers.solidityPackedKeccak256(
+                ["address", "address", "uint256"],
+                [input.stakedToken, input.rewardToken, input.startBlock]
+            ),
+            ethers.keccak256(SmartChefInitializable.bytecode)
+        );
+        if ((await ethers.provider.getCode(predictedPool)) !== "0x") {
+            console.error(
+                `a pool for these tokens and start block already exists at ${predictedPool}`
+            );
+            process.exit(1);
+        }
+    }
+
+    const deployPoolArgs = [
+        input.stakedToken,
+        input.rewardToken,
+        rewardPerBlockWei,
+        input.startBlock,
+        input.bonusEndBlock,
+        poolLimitPerUserWei,
+        input.admin,
+    ] as const;
+
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "deploy-smartchef-pool",
+            network,
+            deployer.address
+        );
+        if (!input.factory) {
+            await dryRunHelper.estimateStep(
+                report,
+                "deploy SmartChefFactory",
+                await SmartChefFactory.getDeployTransaction()
+            );
+        }
+        const factoryAddress =
+            input.factory ||
+            ethers.getCreateAddress({
+                from: deployer.address,
+                nonce: await ethers.provider.getTransactionCount(
+                    deployer.address,
+                    "pending"
+                ),
+            });
+        await dryRunHelper.estimateStep(
+            report,
+            "approve SmartChefFactory",
+            await rewardToken.approve.populateTransaction(
+                factoryAddress,
+                totalRewardsNeeded
+            )
+        );
+        const deployPoolTx = await (
+            await ethers.getContractAt("SmartChefFactory", factoryAddress)
+        ).deployPool.populateTransaction(...deployPoolArgs);
+        dryRunHelper.skipStep(
+            report,
+            "deployPool",
+            deployPoolTx,
+            "requires the approve step to be mined first"
+        );
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+
+    let factoryAddress = input.factory;
+    let factoryTxHash: string | undefined;
+    if (!factoryAddress) {
+        console.log("deploying SmartChefFactory contract...");
+        const { sent } = await txSender.deployContract(
+            SmartChefFactory,
+            [],
+            "deploy SmartChefFactory"
+        );
+        factoryAddress = sent.contractAddress!;
+        factoryTxHash = sent.hash;
+        console.log(
+            `deployed SmartChefFactory contract to: ${factoryAddress} on ${network} ...done with tx: ${factoryTxHash}`
+        );
+
+        const factoryOutDir = path.join(
+            ".",
+            "out",
+            network,
+            "deployment",
+            "SmartChefFactory",
+            `${+new Date()}`
+        );
+        cliHelper.ensureDirExists(factoryOutDir);
+        const factoryResult = {
+            address: factoryAddress,
+            txHash: factoryTxHash,
+            transactions: [txSender.summary(sent)],
+        };
+        cliHelper.writeOutputResult(
+            factoryResult,
+            factoryOutDir,
+            "result.json"
+        );
+        await cliHelper.flattenSolidity2File(
+            [path.join(contractsPath, "SmartChefFactory.sol")],
+            factoryOutDir,
+            "SmartChefFactory.flatten.sol"
+        );
+        await verifyHelper.verifyAndRecord(
+            factoryOutDir,
+            factoryResult,
+            "contracts/SmartChefFactory.sol:SmartChefFactory",
+            [],
+            verifyOptions
+        );
+    } else {
+        console.log("reusing SmartChefFactory contract at:", factoryAddress);
+    }
+    const factory = await ethers.getContractAt(
+        "SmartChefFactory",
+        factoryAddress
+    );
+
+    console.log("approving reward tokens...");
+    const approveTx = await txSender.sendTransaction(
+        deployer,
+        await rewardToken.approve.populateTransaction(
+            factoryAddress,
+            totalRewardsNeeded
+        ),
+        "approve SmartChefFactory"
+    );
+
+    console.log("deploying pool...");
+    const deployPoolTx = await txSender.sendTransaction(
+        deployer,
+        await factory.deployPool.populateTransaction(...deployPoolArgs),
+        "deployPool"
+    );
+    const { receipt } = deployPoolTx;
+    const newPoolLog = receipt.logs
+        .map((log) => factory.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "NewSmartChefContract");
+    if (!newPoolLog) {
+        console.error(
+            `NewSmartChefContract event not found in tx: ${deployPoolTx.hash}`
+        );
+        process.exit(1);
+    }
+    const poolAddress: string = newPoolLog.args.smartChef;
+    console.log(
+        `deployed SmartChef pool to: ${poolAddress} on ${network} ...done with tx: ${deployPoolTx.hash}`
+    );
+    cliHelper.writeHLine();
+
+    // make output dir ...
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "deployment",
+        "SmartChefPool",
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+
+    // write output result ...
+    const result = {
+        address: poolAddress,
+        txHash: deployPoolTx.hash,
+        factory: factoryAddress,
+        factoryTxHash,
+        approveTxHash: approveTx.hash,
+        transactions: txSender.sentTransactions(),
+        config: {
+            stakedToken: input.stakedToken,
+            rewardToken: input.rewardToken,
+            rewardPerBlock: rewardPerBlockWei.toString(),
+            startBlock: input.startBlock,
+            bonusEndBlock: input.bonusEndBlock,
+            poolLimitPerUser: poolLimitPerUserWei.toString(),
+            admin: input.admin,
+            totalRewards: totalRewardsNeeded.toString(),
+        },
+    };
+    cliHelper.writeOutputResult(result, outDir, "result.json");
+    cliHelper.saveInputToOutDir(input, outDir);
+
+    // flatten sol file to output dir ...
+    console.log("flattening sol file...");
+    await cliHelper.flattenSolidity2File(
+        [path.join(contractsPath, "SmartChefInitializable.sol")],
+        outDir,
+        "SmartChefInitializable.flatten.sol"
+    );
+    console.log("flattened sol file... done");
+
+    // verify source on the block explorer ...
+    await verifyHelper.verifyAndRecord(
+        outDir,
+        result,
+        "contracts/SmartChefInitializable.sol:SmartChefInitializable",
+        [],
+        verifyOptions
+    );
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,515 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { RewardDistributor__factory } from "../../typechain-types";
+import registryHelper from "../lib/deployment-registry";
+import distributionHelper from "../lib/distribution";
+import dryRunHelper from "../lib/dry-run";
+import offlineHelper, {
+    BroadcastResult,
+    SignedBundle,
+} from "../lib/offline-signing";
+import journalHelper, {
+    DistributionJournal,
+    JournalChunk,
+} from "../lib/distribution-journal";
+import txSender, { TransactionRevertedError } from "../lib/tx-sender";
+import cliHelper from "./cli-helper";
+
+interface Input {
+    // address or deployment registry name, e.g. RewardDistributor
+    distributor: string;
+    // recipients CSV with address,amount rows, relative to the input file
+    csv: string;
+    // max recipients per distribute transaction
+    chunkSize?: number;
+    // chunks estimated above this are split further
+    maxGasPerChunk?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 200;
+const DEFAULT_MAX_GAS_PER_CHUNK = 10_000_000n;
+const DISTRIBUTOR_ROLE = ethers.id("DISTRIBUTOR_ROLE");
+
+const program = new Command("distribute")
+    .description(
+        "distribute RewardDistributor funds to the recipients of a CSV file in chunks, resumable through a local journal"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to run on")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option(
+        "--build-unsigned <path>",
+        "write the chunk transactions unsigned to this file, to be signed by sign-offline"
+    )
+    .option("--from <address>", "offline signer, with --build-unsigned")
+    .option(
+        "--broadcast-signed <path>",
+        "broadcast a bundle signed by sign-offline, journaling every chunk"
+    )
+    .parse(process.argv);
+
+interface OfflineChunk {
+    step: string;
+    // CSV line range, for reporting
+    lines: string;
+    recipients: string[];
+    // in wei
+    amounts: string[];
+}
+
+/**
+ * broadcastChunks sends the chunks of a signed bundle, journaling each one
+ * under its known hash before it is sent. Chunks the journal already holds as
+ * confirmed are skipped, so the broadcast can be re-run after a crash.
+ * @returns the chunks confirmed in this run
+ */
+async function broadcastChunks(
+    journal: DistributionJournal,
+    bundle: SignedBundle
+) {
+    const chunks = bundle.context.chunks as OfflineChunk[];
+    const confirmed: (OfflineChunk & {
+        txHash: string;
+        broadcast: BroadcastResult;
+    })[] = [];
+    for (const signed of bundle.transactions) {
+        if (
+            journal.chunks.some(
+                (chunk) =>
+                    chunk.txHash === signed.hash && chunk.status === "confirmed"
+            )
+        ) {
+            console.log(`${signed.label} already confirmed, skipping`);
+            continue;
+        }
+        const chunk = chunks.find((c) => c.step === signed.step)!;
+        const entry: JournalChunk = {
+            index: journal.chunks.length,
+            recipients: chunk.recipients,
+            amounts: chunk.amounts,
+            status: "pending",
+            nonce: signed.tx.nonce,
+            txHash: signed.hash,
+            updatedAt: +new Date(),
+        };
+        journal.chunks.push(entry);
+        journalHelper.saveJournal(journal);
+
+        console.log(`distributing chunk ${entry.index}: ${signed.label} ...`);
+        const result = await offlineHelper
+            .sendSignedTransaction(
+                ethers.provider,
+                bundle.from,
+                signed,
+                txSender.networkConfirmations()
+            )
+            .catch((err) => {
+                journalHelper.updateChunk(journal, entry, { status: "failed" });
+                throw err;
+            });
+        journalHelper.updateChunk(journal, entry, {
+            status: "confirmed",
+            blockNumber: result.blockNumber,
+        });
+        console.log(`chunk ${entry.index} ...done with tx: ${result.hash}`);
+        confirmed.push({ ...chunk, txHash: result.hash, broadcast: result });
+    }
+    return confirmed;
+}
+
+(async (): Promise<void> => {
+    const {
+        input: inputFilePath,
+        network,
+        dryRun,
+        buildUnsigned,
+        from,
+        broadcastSigned,
+    } = program.opts();
+    const optionErrors = offlineHelper.validateOfflineOptions(program.opts());
+    if (optionErrors.length > 0) {
+        optionErrors.forEach((err) => console.error(err));
+        process.exit(1);
+    }
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const { input, errors: registryErrors } =
+        registryHelper.resolveInputAddresses(
+            network,
+            JSON.parse(inputContent) as Input,
+            ["distributor"]
+        );
+    if (registryErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        registryErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    const chunkSize = input.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const maxGasPerChunk = BigInt(
+        input.maxGasPerChunk ?? DEFAULT_MAX_GAS_PER_CHUNK
+    );
+    if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+        console.error(`chunkSize: "${chunkSize}" must be a positive integer`);
+        process.exit(1);
+    }
+
+    const csvPath = path.resolve(path.dirname(inputFilePath), input.csv);
+    const csvContent = fs.readFileSync(csvPath, "utf-8");
+    const csvSha256 = crypto
+        .createHash("sha256")
+        .update(csvContent)
+        .digest("hex");
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    // an offline bundle covers the recipients CSV as well as the input
+    const offlineInput = inputContent + csvContent;
+    let signedBundle: SignedBundle | undefined;
+    if (broadcastSigned) {
+        const { bundle, errors } = await offlineHelper.loadSignedBundle(
+            ethers.provider,
+            broadcastSigned,
+            "distribute",
+            offlineInput
+        );
+        if (errors.length > 0) {
+            console.error(`invalid signed bundle ${broadcastSigned}:`);
+            errors.forEach((err) => console.error(`  - ${err}`));
+            process.exit(1);
+        }
+        const warning = await offlineHelper.feeWarning(ethers.provider, bundle);
+        if (warning) {
+            console.warn(`WARNING: ${warning}`);
+        }
+        signedBundle = bundle;
+    }
+
+    // with an offline signer its key is not on this machine, it is only the
+    // sender of the transactions
+    const account = buildUnsigned
+        ? ethers.getAddress(from)
+        : signedBundle?.from ?? (await cliHelper.getSigner(hre)).address;
+    console.log("using account:", account);
+
+    // reads, estimates and populated calls go through the provider, only the
+    // sending path below needs the signer
+    const distributor = RewardDistributor__factory.connect(
+        input.distributor,
+        ethers.provider
+    );
+    const token = await ethers.getContractAt(
+        "ERC20",
+        await distributor.rewardToken()
+    );
+    const decimals = await token.decimals();
+    const symbol = await token.symbol();
+
+    const { recipients, errors } = distributionHelper.parseRecipients(
+        csvContent,
+        decimals
+    );
+    if (errors.length > 0) {
+        console.error(`invalid recipients file ${csvPath}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    if (!(await distributor.hasRole(DISTRIBUTOR_ROLE, account))) {
+        console.error(`${account} does not hold DISTRIBUTOR_ROLE`);
+        process.exit(1);
+    }
+
+    let journal = journalHelper.loadJournal(
+        network,
+        input.distributor,
+        csvSha256
+    );
+    if (journal && journal.signer !== account) {
+        console.error(
+            `journal ${journalHelper.journalPath(
+                network,
+                input.distributor,
+                csvSha256
+            )} was started by ${journal.signer}, resume it with that account`
+        );
+        process.exit(1);
+    }
+    if (journal) {
+        console.log(
+            `resuming distribution from journal: ${journalHelper.journalPath(
+                network,
+                input.distributor,
+                csvSha256
+            )}`
+        );
+    } else {
+        journal = {
+            network,
+            distributor: input.distributor,
+            token: await token.getAddress(),
+            signer: account,
+            csvPath,
+            csvSha256,
+            startBlock: await ethers.provider.getBlockNumber(),
+            createdAt: +new Date(),
+            updatedAt: +new Date(),
+            chunks: [],
+        };
+    }
+
+    // settle chunks left pending by a crashed run before paying anyone else
+    const pendingChunks = journal.chunks.filter(
+        (chunk) => chunk.status === "pending"
+    );
+    if (pendingChunks.length > 0 && (dryRun || buildUnsigned)) {
+        console.error(
+            `${pendingChunks.length} chunk(s) of the previous run are unsettled, run without --dry-run or --build-unsigned to settle them first`
+        );
+        process.exit(1);
+    }
+    for (const chunk of pendingChunks) {
+        const resolved = await distributionHelper.resolvePendingChunk(
+            journal,
+            chunk
+        );
+        console.log(`chunk ${chunk.index} settled as ${resolved.status}`);
+        journalHelper.updateChunk(journal, chunk, resolved);
+    }
+
+    const writeResult = (
+        txHashes: string[],
+        distributedInThisRun: number,
+        amountWei: bigint,
+        broadcast?: BroadcastResult[]
+    ) => {
+        const outDir = path.join(
+            ".",
+            "out",
+            network,
+            "distribute",
+            "RewardDistributor",
+            `${+new Date()}`
+        );
+        cliHelper.ensureDirExists(outDir);
+        cliHelper.writeOutputResult(
+            {
+                distributor: input.distributor,
+                token: journal!.token,
+                csvPath,
+                csvSha256,
+                recipients: recipients.length,
+                distributedInThisRun,
+                amountWei: amountWei.toString(),
+                txHashes,
+                transactions: txSender.sentTransactions(),
+                ...(broadcast ? { broadcast } : {}),
+                journal: journalHelper.journalPath(
+                    network,
+                    input.distributor,
+                    csvSha256
+                ),
+            },
+            outDir,
+            "result.json"
+        );
+    };
+
+    if (signedBundle) {
+        journalHelper.saveJournal(journal);
+        const sent = await broadcastChunks(journal, signedBundle);
+        writeResult(
+            sent.map((chunk) => chunk.txHash),
+            sent.reduce((sum, chunk) => sum + chunk.recipients.length, 0),
+            sent
+                .flatMap((chunk) => chunk.amounts)
+                .reduce((sum, amount) => sum + BigInt(amount), 0n),
+            sent.map((chunk) => chunk.broadcast)
+        );
+        console.log("distribution complete!");
+        return;
+    }
+
+    const paid = journalHelper.paidRecipients(journal);
+    const remaining = recipients.filter(
+        (recipient) => !paid.has(recipient.address.toLowerCase())
+    );
+    const remainingTotal = remaining.reduce(
+        (sum, recipient) => sum + recipient.amountWei,
+        0n
+    );
+    console.log(
+        `${recipients.length} recipients, ${
+            recipients.length - remaining.length
+        } already paid, ${remaining.length} remaining for ${ethers.formatUnits(
+            remainingTotal,
+            decimals
+        )} ${symbol}`
+    );
+    if (remaining.length === 0) {
+        console.log("nothing left to distribute");
+        return;
+    }
+
+    const contractBalance = await token.balanceOf(input.distributor);
+    if (contractBalance < remainingTotal) {
+        console.error(
+            `distributor holds only ${ethers.formatUnits(
+                contractBalance,
+                decimals
+            )} ${symbol}, requires ${ethers.formatUnits(
+                remainingTotal - contractBalance,
+                decimals
+            )} more`
+        );
+        process.exit(1);
+    }
+
+    const nextChunk = (from: number) =>
+        distributionHelper.nextChunk(
+            remaining,
+            from,
+            { chunkSize, maxGasPerChunk },
+            (chunk) =>
+                distributor.distribute.estimateGas(
+                    chunk.map((recipient) => recipient.address),
+                    chunk.map((recipient) => recipient.amountWei),
+                    { from: account }
+                )
+        );
+
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "distribute",
+            network,
+            account
+        );
+        for (let from = 0; from < remaining.length; ) {
+            const chunk = await nextChunk(from);
+            await dryRunHelper.estimateStep(
+                report,
+                `distribute to CSV lines ${chunk[0].line}-${
+                    chunk[chunk.length - 1].line
+                } (${chunk.length} recipients)`,
+                await distributor.distribute.populateTransaction(
+                    chunk.map((recipient) => recipient.address),
+                    chunk.map((recipient) => recipient.amountWei)
+                )
+            );
+            from += chunk.length;
+        }
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+
+    if (buildUnsigned) {
+        const chunks: OfflineChunk[] = [];
+        const bundle = await offlineHelper.createUnsignedBundle(
+            ethers.provider,
+            "distribute",
+            network,
+            account,
+            offlineInput,
+            { chunks }
+        );
+        for (let from = 0; from < remaining.length; ) {
+            const chunk = await nextChunk(from);
+            const offlineChunk: OfflineChunk = {
+                step: `chunk-${chunks.length}`,
+                lines: `${chunk[0].line}-${chunk[chunk.length - 1].line}`,
+                recipients: chunk.map((recipient) => recipient.address),
+                amounts: chunk.map((recipient) =>
+                    recipient.amountWei.toString()
+                ),
+            };
+            chunks.push(offlineChunk);
+            await offlineHelper.addTransaction(
+                ethers.provider,
+                bundle,
+                offlineChunk.step,
+                `distribute to CSV lines ${offlineChunk.lines} (${chunk.length} recipients)`,
+                await distributor.distribute.populateTransaction(
+                    offlineChunk.recipients,
+                    offlineChunk.amounts
+                )
+            );
+            from += chunk.length;
+        }
+        offlineHelper.writeBundle(bundle, buildUnsigned);
+        console.log(
+            `unsigned bundle of ${bundle.transactions.length} chunk(s) written to: ${buildUnsigned}`
+        );
+        return;
+    }
+
+    const signer = await cliHelper.getSigner(hre);
+    journalHelper.saveJournal(journal);
+    const txHashes: string[] = [];
+    for (let from = 0; from < remaining.length; ) {
+        const chunk = await nextChunk(from);
+        const addresses = chunk.map((recipient) => recipient.address);
+        const amounts = chunk.map((recipient) => recipient.amountWei);
+
+        // reserve the nonce in the journal before broadcasting, so a crash
+        // right after sending can still be told apart from a chunk never sent
+        const entry: JournalChunk = {
+            index: journal.chunks.length,
+            recipients: addresses,
+            amounts: amounts.map((amount) => amount.toString()),
+            status: "pending",
+            nonce: await signer.getNonce("pending"),
+            updatedAt: +new Date(),
+        };
+        journal.chunks.push(entry);
+        journalHelper.saveJournal(journal);
+
+        console.log(
+            `distributing chunk ${entry.index}: CSV lines ${chunk[0].line}-${
+                chunk[chunk.length - 1].line
+            } (${chunk.length} recipients) ...`
+        );
+        const tx = await txSender
+            .sendTransaction(
+                signer,
+                {
+                    ...(await distributor.distribute.populateTransaction(
+                        addresses,
+                        amounts
+                    )),
+                    nonce: entry.nonce,
+                },
+                `distribute chunk ${entry.index}`,
+                {
+                    onSent: (txHash, replacedTxHashes) =>
+                        journalHelper.updateChunk(journal!, entry, {
+                            txHash,
+                            replacedTxHashes,
+                        }),
+                }
+            )
+            .catch((err) => {
+                if (err instanceof TransactionRevertedError) {
+                    journalHelper.updateChunk(journal!, entry, {
+                        status: "failed",
+                        txHash: err.sent.hash,
+                    });
+                }
+                throw err;
+            });
+        journalHelper.updateChunk(journal, entry, {
+            status: "confirmed",
+            txHash: tx.hash,
+            blockNumber: tx.receipt.blockNumber,
+        });
+        console.log(`chunk ${entry.index} ...done with tx: ${tx.hash}`);
+        txHashes.push(tx.hash);
+        from += chunk.length;
+    }
+
+    writeResult(txHashes, remaining.length, remainingTotal);
+    console.log("distribution complete!");
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,211 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import handoverHelper, {
+    HandoverInput,
+    RoleMatrix,
+} from "../lib/role-handover";
+import txSender from "../lib/tx-sender";
+import cliHelper from "./cli-helper";
+
+const program = new Command("handover-roles")
+    .description(
+        "hand the deployer's roles on CallHelper and RewardDistributor and the iAI Token ownership over to a multisig"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to run on")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option("--yes", "do not ask before transferring ownership and renouncing")
+    .parse(process.argv);
+
+function printRoleMatrix(matrix: RoleMatrix, accounts: string[]) {
+    const label = (account: string, i: number) =>
+        i === 0 ? `${account} (deployer)` : account;
+    const width = accounts[0].length + " (deployer)".length;
+    for (const [contractName, { address, roles }] of Object.entries(matrix)) {
+        cliHelper.writeHLine("-");
+        console.log(`${contractName} ${address}`);
+        const roleNames = Object.keys(roles);
+        console.log(["account".padEnd(width), ...roleNames].join(" | "));
+        accounts.forEach((account, i) => {
+            console.log(
+                [
+                    label(account, i).padEnd(width),
+                    ...roleNames.map((role) =>
+                        (roles[role].includes(account) ? "x" : "-").padEnd(
+                            role.length
+                        )
+                    ),
+                ].join(" | ")
+            );
+        });
+    }
+    cliHelper.writeHLine("-");
+}
+
+(async (): Promise<void> => {
+    const { input: inputFilePath, network, dryRun, yes } = program.opts();
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const input = JSON.parse(inputContent) as HandoverInput;
+
+    // resolve registry names of the contracts to hand over
+    const registryErrors: string[] = [];
+    for (const key of [
+        "callHelper",
+        "rewardDistributor",
+        "iaiToken",
+    ] as const) {
+        const section = input[key];
+        if (!section) {
+            continue;
+        }
+        const resolved = registryHelper.resolveInputAddresses(
+            network,
+            section,
+            ["address"]
+        );
+        Object.assign(section, resolved.input);
+        registryErrors.push(...resolved.errors.map((err) => `${key}.${err}`));
+    }
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    const deployer = await cliHelper.getSigner(hre);
+    console.log("handing over roles held by:", deployer.address);
+
+    const inputErrors =
+        registryErrors.length > 0
+            ? registryErrors
+            : handoverHelper.validateInput(input, deployer.address);
+    if (inputErrors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        inputErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    const { errors: chainErrors, warnings } = await handoverHelper.checkOnChain(
+        input,
+        deployer.address
+    );
+    warnings.forEach((warning) => console.warn(`WARNING: ${warning}`));
+    if (chainErrors.length > 0) {
+        console.error("cannot hand over roles:");
+        chainErrors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
+    const steps = await handoverHelper.planHandover(input, deployer.address);
+
+    if (dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            "handover-roles",
+            network,
+            deployer.address
+        );
+        for (const step of steps) {
+            await dryRunHelper.estimateStep(
+                report,
+                handoverHelper.stepName(step),
+                await handoverHelper.populateStep(step)
+            );
+        }
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+
+    const txHashes: { [step: string]: string } = {};
+    const grants = steps.filter((step) => !step.irreversible);
+    const irreversible = steps.filter((step) => step.irreversible);
+
+    // grant every target role first ...
+    if (grants.length > 0) {
+        console.log("\n=== Granting roles ===");
+    }
+    for (const step of grants) {
+        const name = handoverHelper.stepName(step);
+        const tx = await txSender.sendTransaction(
+            deployer,
+            await handoverHelper.populateStep(step),
+            name
+        );
+        console.log(`${name} with tx: ${tx.hash}`);
+        txHashes[name] = tx.hash;
+    }
+
+    // ... and confirm them on-chain before giving anything up
+    const unconfirmed = await handoverHelper.unconfirmedGrants(grants);
+    if (unconfirmed.length > 0) {
+        console.error(
+            "grants not confirmed on-chain, keeping the deployer's roles:"
+        );
+        unconfirmed.forEach((grant) => console.error(`  - ${grant}`));
+        process.exit(1);
+    }
+    console.log("all target roles confirmed on-chain");
+
+    if (irreversible.length > 0) {
+        console.log("\nthe following steps cannot be undone:");
+        irreversible.forEach((step) =>
+            console.log(`  - ${handoverHelper.stepName(step)}`)
+        );
+        if (!yes && !(await cliHelper.confirmPromptMessage("continue?"))) {
+            console.log("aborted, target roles are granted");
+            process.exit(1);
+        }
+    }
+
+    const iaiToken = input.iaiToken
+        ? await ethers.getContractAt("IAIToken", input.iaiToken.address)
+        : undefined;
+    for (const step of irreversible) {
+        const name = handoverHelper.stepName(step);
+        console.log(`\n=== ${name} ===`);
+        const tx = await txSender.sendTransaction(
+            deployer,
+            await handoverHelper.populateStep(step),
+            name
+        );
+        if (step.action === "transferOwnership") {
+            const owner = await iaiToken!.owner();
+            if (owner.toLowerCase() !== step.account.toLowerCase()) {
+                console.error(`iAIToken is owned by ${owner} after ${tx.hash}`);
+                process.exit(1);
+            }
+        }
+        console.log(`done with tx: ${tx.hash}`);
+        txHashes[name] = tx.hash;
+    }
+
+    // final role matrix over the deployer and every target account
+    const accounts = handoverHelper.matrixAccounts(input, deployer.address);
+    const matrix = await handoverHelper.buildRoleMatrix(input, accounts);
+    const iaiTokenOwner = iaiToken ? await iaiToken.owner() : undefined;
+    console.log("\nrole matrix after handover:");
+    printRoleMatrix(matrix, accounts);
+    if (iaiTokenOwner) {
+        console.log(
+            `iAIToken ${input.iaiToken!.address} owner: ${iaiTokenOwner}`
+        );
+    }
+
+    const outDir = path.join(".", "out", network, "handover", `${+new Date()}`);
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(
+        {
+            deployer: deployer.address,
+            input,
+            txHashes,
+            transactions: txSender.sentTransactions(),
+            roleMatrix: matrix,
+            iaiTokenOwner,
+        },
+        outDir,
+        "result.json"
+    );
+})().catch(cliHelper.exitOnFailure);
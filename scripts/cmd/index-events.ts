@@ -0,0 +1,303 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import registryHelper from "../lib/deployment-registry";
+import indexerHelper, {
+    EventQuery,
+    INDEXED_EVENTS,
+    IndexerSource,
+    SourceKind,
+} from "../lib/event-indexer";
+import cliHelper from "./cli-helper";
+
+interface SourceInput {
+    // address or deployment registry name
+    contract: string;
+    // required for plain addresses, registry names imply it
+    kind?: SourceKind;
+    // defaults to the deployment block of registry entries and to 0 for plain
+    // addresses, only used the first time the source is indexed
+    fromBlock?: number;
+}
+
+interface Input {
+    // defaults to out/<network>/events/events.sqlite
+    database?: string;
+    sources: SourceInput[];
+    // max blocks per log request
+    blockRange?: number;
+    // recent block hashes kept to detect reorgs
+    reorgDepth?: number;
+    // delay between syncs with --follow
+    pollSeconds?: number;
+}
+
+interface CommandOptions {
+    input: string;
+    network: string;
+}
+
+interface QueryOptions extends CommandOptions {
+    account?: string;
+    event?: string[];
+    contract?: string;
+    received?: boolean;
+    paid?: boolean;
+    since?: string;
+    until?: string;
+}
+
+// registry contract names of the indexed contracts
+const REGISTRY_KINDS: { [contractName: string]: SourceKind } = {
+    RewardDistributor: "RewardDistributor",
+    SmartChefPool: "SmartChef",
+    MMVPaymentRouterV1: "PaymentRouter",
+};
+
+const DEFAULT_POLL_SECONDS = 15;
+
+const program = new Command("index-events").description(
+    "index RewardDistributor, SmartChef and payment router events into a local SQLite store and query it"
+);
+
+function readInput(opts: CommandOptions) {
+    const input = JSON.parse(fs.readFileSync(opts.input, "utf-8")) as Input;
+    const errors: string[] = [];
+    if (!Array.isArray(input.sources) || input.sources.length === 0) {
+        errors.push("sources: must list at least one contract");
+    }
+    const sources: (IndexerSource & { txHash?: string })[] = [];
+    for (const [i, source] of (input.sources ?? []).entries()) {
+        try {
+            const address = registryHelper.resolveAddress(
+                opts.network,
+                source.contract
+            );
+            const entry = ethers.isAddress(source.contract)
+                ? undefined
+                : registryHelper.resolveName(opts.network, source.contract);
+            const kind = source.kind ?? REGISTRY_KINDS[entry?.contractName!];
+            if (!Object.values(REGISTRY_KINDS).includes(kind)) {
+                throw new Error(
+                    `kind must be one of ${Object.values(REGISTRY_KINDS).join(
+                        ", "
+                    )}`
+                );
+            }
+            sources.push({
+                address,
+                name: entry?.contractName ?? source.contract,
+                kind,
+                fromBlock: source.fromBlock ?? 0,
+                txHash:
+                    source.fromBlock === undefined ? entry?.txHash : undefined,
+            });
+        } catch (err: any) {
+            errors.push(`sources[${i}]: ${err.message}`);
+        }
+    }
+    if (errors.length > 0) {
+        console.error(`invalid input file ${opts.input}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    const database =
+        input.database ??
+        path.join(".", "out", opts.network, "events", "events.sqlite");
+    return { input, sources, database };
+}
+
+function parseDate(option: string, value: string | undefined) {
+    if (value === undefined) {
+        return undefined;
+    }
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+        console.error(`${option}: "${value}" is not a date, e.g. 2026-09-01`);
+        process.exit(1);
+    }
+    return Math.floor(time / 1000);
+}
+
+function readQuery(opts: QueryOptions): EventQuery {
+    if (opts.received && opts.paid) {
+        console.error("--received and --paid are exclusive");
+        process.exit(1);
+    }
+    for (const [option, value] of [
+        ["--account", opts.account],
+        ["--contract", opts.contract],
+    ]) {
+        if (value !== undefined && !ethers.isAddress(value)) {
+            console.error(`${option}: "${value}" is not a valid address`);
+            process.exit(1);
+        }
+    }
+    const known = Object.values(INDEXED_EVENTS).flat();
+    const unknown = (opts.event ?? []).filter(
+        (event) => !known.includes(event)
+    );
+    if (unknown.length > 0) {
+        console.error(
+            `--event: ${unknown.join(", ")} not indexed, use ${known.join(
+                ", "
+            )}`
+        );
+        process.exit(1);
+    }
+    return {
+        account: opts.account,
+        contract: opts.contract,
+        events: opts.event,
+        direction: opts.received ? "in" : opts.paid ? "out" : undefined,
+        since: parseDate("--since", opts.since),
+        until: parseDate("--until", opts.until),
+    };
+}
+
+function withQueryOptions(command: Command) {
+    return command
+        .requiredOption("--input <path>", "path to input JSON file")
+        .requiredOption("--network <network>", "network of the store")
+        .option("--account <address>", "account that received or paid")
+        .option(
+            "--event <names...>",
+            `any of ${Object.values(INDEXED_EVENTS).flat().join(", ")}`
+        )
+        .option("--contract <address>", "indexed contract")
+        .option("--received", "only amounts the account received")
+        .option("--paid", "only amounts the account paid")
+        .option("--since <date>", "from this date, e.g. 2026-09-01")
+        .option("--until <date>", "before this date, e.g. 2026-10-01");
+}
+
+program
+    .command("sync")
+    .description(
+        "backfill the sources from their last indexed block, rolling back reorged blocks first"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to index")
+    .option("--follow", "keep tailing new blocks until interrupted")
+    .action(async (opts: CommandOptions & { follow?: boolean }) => {
+        const { input, sources, database } = readInput(opts);
+
+        console.log(`changing network to: ${opts.network} ...`);
+        await hre.changeNetwork(opts.network);
+        console.log(`changed network to: ${opts.network}`);
+
+        for (const source of sources) {
+            if (source.txHash) {
+                const receipt = await ethers.provider.getTransactionReceipt(
+                    source.txHash
+                );
+                source.fromBlock = receipt?.blockNumber ?? 0;
+            }
+        }
+        const db = indexerHelper.openStore(
+            database,
+            (await ethers.provider.getNetwork()).chainId
+        );
+        await indexerHelper.addSources(db, sources);
+        console.log(`indexing into ${database}`);
+
+        let stopping = false;
+        process.on("SIGINT", () => {
+            if (stopping) {
+                process.exit(130);
+            }
+            console.log("stopping after the current sync ...");
+            stopping = true;
+        });
+        try {
+            do {
+                const result = await indexerHelper.sync(db, {
+                    blockRange: input.blockRange,
+                    reorgDepth: input.reorgDepth,
+                });
+                if (result.reorgedFrom !== undefined) {
+                    console.warn(
+                        `reorg detected, indexed again from block ${result.reorgedFrom}`
+                    );
+                }
+                console.log(
+                    `indexed blocks ${result.fromBlock} to ${result.toBlock}: ${result.inserted} event(s)`
+                );
+                if (opts.follow && !stopping) {
+                    await new Promise((resolve) =>
+                        setTimeout(
+                            resolve,
+                            (input.pollSeconds ?? DEFAULT_POLL_SECONDS) * 1000
+                        )
+                    );
+                }
+            } while (opts.follow && !stopping);
+        } finally {
+            db.close();
+        }
+    });
+
+withQueryOptions(
+    program
+        .command("query")
+        .description(
+            "list the indexed events that match, with totals per token"
+        )
+).action((opts: QueryOptions) => {
+    const { database } = readInput(opts);
+    const db = indexerHelper.openStore(database);
+    const events = indexerHelper.queryEvents(db, readQuery(opts));
+    const tokens = indexerHelper.tokens(db);
+    db.close();
+
+    for (const event of events) {
+        console.log(
+            [
+                new Date(event.timestamp * 1000).toISOString(),
+                `${event.contractName}.${event.event}`,
+                event.direction,
+                event.account,
+                `${indexerHelper.formatAmount(
+                    tokens,
+                    event.token,
+                    event.amount
+                )} ${tokens.get(event.token)?.symbol ?? event.token}`,
+                event.txHash,
+            ].join("  ")
+        );
+    }
+    cliHelper.writeHLine("-");
+    console.log(`${events.length} event(s)`);
+    for (const total of indexerHelper.totals(events, tokens)) {
+        console.log(
+            `${total.event} (${total.direction}): ${
+                total.count
+            } event(s), ${indexerHelper.formatAmount(
+                tokens,
+                total.token,
+                total.amount
+            )} ${total.symbol || total.token}`
+        );
+    }
+});
+
+withQueryOptions(
+    program
+        .command("export")
+        .description("write the indexed events that match to a CSV file")
+        .requiredOption("--out <path>", "CSV file to write")
+).action((opts: QueryOptions & { out: string }) => {
+    const { database } = readInput(opts);
+    const db = indexerHelper.openStore(database);
+    const events = indexerHelper.queryEvents(db, readQuery(opts));
+    const csv = indexerHelper.toCsv(events, indexerHelper.tokens(db));
+    db.close();
+
+    cliHelper.ensureDirExists(path.dirname(opts.out));
+    fs.writeFileSync(opts.out, csv);
+    console.log(`${events.length} event(s) written to: ${opts.out}`);
+});
+
+program.parseAsync(process.argv).catch(cliHelper.exitOnFailure);
@@ -0,0 +1,25 @@
+import { Command } from "commander";
+import mockExplorerHelper from "../lib/mock-explorer";
+
+const program = new Command("mock-explorer")
+    .description(
+        "serve a local mock of the Etherscan verification API, pass its API url to deploy commands with --explorer-api-url"
+    )
+    .option("--port <port>", "port to listen on", "4000")
+    .option(
+        "--pending-polls <count>",
+        "status polls answered as pending per submission",
+        "1"
+    )
+    .parse(process.argv);
+
+(async (): Promise<void> => {
+    const { port, pendingPolls } = program.opts();
+
+    const explorer = await mockExplorerHelper.startMockExplorer({
+        port: parseInt(port),
+        pendingPolls: parseInt(pendingPolls),
+    });
+    console.log(`mock explorer API listening on: ${explorer.apiUrl}`);
+    console.log("press Ctrl+C to stop");
+})();
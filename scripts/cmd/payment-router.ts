@@ -0,0 +1,426 @@
+import { Command } from "commander";
+import { TransactionRequest } from "ethers";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as path from "path";
+import * as fs from "fs";
+import { MMVPaymentRouterV1__factory } from "../../typechain-types";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import permitHelper from "../lib/permit";
+import safeBatchHelper from "../lib/safe-batch";
+import txSender from "../lib/tx-sender";
+import cliHelper from "./cli-helper";
+
+// router and token accept deployment registry names as well as addresses
+interface PayInput {
+    router: string;
+    user: string;
+    token: string;
+    amount: string;
+}
+
+interface WithdrawInput {
+    router: string;
+    token: string;
+    to: string;
+    amount: string;
+}
+
+interface SuperAdminInput {
+    router: string;
+    account: string;
+}
+
+interface CommandOptions {
+    input: string;
+    network: string;
+    dryRun?: boolean;
+    // Safe to export the admin call for instead of sending it
+    exportSafe?: string;
+    // permit signed by the paying user, submitted in place of their approve
+    permit?: string;
+}
+
+const program = new Command("payment-router").description(
+    "operate MMVPaymentRouterV1 contract"
+);
+
+function readInput<T extends object>(
+    opts: CommandOptions,
+    addressFields: (keyof T & string)[]
+): T {
+    if (opts.exportSafe && opts.dryRun) {
+        console.error("--export-safe and --dry-run are exclusive");
+        process.exit(1);
+    }
+    if (opts.exportSafe && !ethers.isAddress(opts.exportSafe)) {
+        console.error(
+            `--export-safe: "${opts.exportSafe}" is not a valid address`
+        );
+        process.exit(1);
+    }
+    const inputContent = fs.readFileSync(opts.input, "utf-8");
+    const { input, errors } = registryHelper.resolveInputAddresses(
+        opts.network,
+        JSON.parse(inputContent) as T,
+        addressFields
+    );
+    if (errors.length > 0) {
+        console.error(`invalid input file ${opts.input}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    return input;
+}
+
+async function connectRouter(network: string, router: string) {
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    const signer = await cliHelper.getSigner(hre);
+    console.log("using account:", signer.address);
+
+    const routerContract = MMVPaymentRouterV1__factory.connect(router, signer);
+    const SUPER_ADMIN_ROLE = await routerContract.SUPER_ADMIN_ROLE();
+    return { signer, routerContract, SUPER_ADMIN_ROLE };
+}
+
+/**
+ * actorOf returns the account the role checks apply to, the Safe when the
+ * call is exported for it.
+ */
+function actorOf(opts: CommandOptions, signer: { address: string }) {
+    return opts.exportSafe
+        ? ethers.getAddress(opts.exportSafe)
+        : signer.address;
+}
+
+/**
+ * send either estimates the transaction for --dry-run, exports it as a Safe
+ * batch for --export-safe or sends it and waits for it to be mined.
+ * @returns the mined transaction, undefined on dry-run and export
+ */
+async function send(
+    opts: CommandOptions,
+    command: string,
+    from: string,
+    tx: TransactionRequest
+) {
+    if (opts.dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            `payment-router-${command}`,
+            opts.network,
+            from
+        );
+        await dryRunHelper.estimateStep(report, command, tx);
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return undefined;
+    }
+    if (opts.exportSafe) {
+        await safeBatchHelper.exportSafeBatch(
+            opts.network,
+            `payment-router-${command}`,
+            `${command} on MMVPaymentRouterV1 ${tx.to}`,
+            from,
+            [
+                {
+                    artifact: "MMVPaymentRouterV1",
+                    to: tx.to as string,
+                    data: tx.data as string,
+                },
+            ]
+        );
+        return undefined;
+    }
+    const signer = await cliHelper.getSigner(hre);
+    const sent = await txSender.sendTransaction(signer, tx, command);
+    console.log(`${command} ...done with tx: ${sent.hash}`);
+    return sent;
+}
+
+function writeResult(network: string, command: string, result: {}) {
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        command,
+        "MMVPaymentRouterV1",
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(
+        { ...result, transactions: txSender.sentTransactions() },
+        outDir,
+        "result.json"
+    );
+}
+
+program
+    .command("pay")
+    .description("collect a payment from a user who approved the router")
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to run on")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option(
+        "--permit <path>",
+        "permit of the user for the router, written by permit sign, submitted when the allowance is short"
+    )
+    .action(async (opts: CommandOptions) => {
+        const { router, user, token, amount } = readInput<PayInput>(opts, [
+            "router",
+            "token",
+        ]);
+        const { signer, routerContract, SUPER_ADMIN_ROLE } =
+            await connectRouter(opts.network, router);
+        if (!(await routerContract.hasRole(SUPER_ADMIN_ROLE, signer.address))) {
+            console.error(`${signer.address} does not hold SUPER_ADMIN_ROLE`);
+            process.exit(1);
+        }
+
+        const tokenContract = await ethers.getContractAt("ERC20", token);
+        const decimals = await tokenContract.decimals();
+        const amountWei = ethers.parseUnits(amount, decimals);
+
+        // the router pulls the payment with transferFrom and ignores its
+        // return value, so check allowance and balance up front
+        const allowance = await tokenContract.allowance(user, router);
+        const permit =
+            opts.permit && allowance < amountWei
+                ? permitHelper.readPermit(opts.permit)
+                : undefined;
+        if (permit) {
+            const errors = await permitHelper.verifyPermit(
+                ethers.provider,
+                permit
+            );
+            const { owner, spender, value } = permit.message;
+            if (ethers.getAddress(owner) !== ethers.getAddress(user)) {
+                errors.push(`permit owner ${owner} is not the user ${user}`);
+            }
+            if (ethers.getAddress(spender) !== ethers.getAddress(router)) {
+                errors.push(`permit spender ${spender} is not the router`);
+            }
+            if (ethers.getAddress(permit.token) !== ethers.getAddress(token)) {
+                errors.push(`permit is for token ${permit.token}`);
+            }
+            if (BigInt(value) < amountWei) {
+                errors.push(
+                    `permit allows only ${ethers.formatUnits(
+                        value,
+                        decimals
+                    )}, requires ${amount}`
+                );
+            }
+            if (errors.length > 0) {
+                console.error(`invalid permit ${opts.permit}:`);
+                errors.forEach((err) => console.error(`  - ${err}`));
+                process.exit(1);
+            }
+        } else if (allowance < amountWei) {
+            console.error(
+                `user ${user} allowed the router only ${ethers.formatUnits(
+                    allowance,
+                    decimals
+                )}, requires ${amount}; pass a permit of the user with --permit`
+            );
+            process.exit(1);
+        }
+        const balance = await tokenContract.balanceOf(user);
+        if (balance < amountWei) {
+            console.error(
+                `user ${user} holds only ${ethers.formatUnits(
+                    balance,
+                    decimals
+                )}, requires ${amount}`
+            );
+            process.exit(1);
+        }
+
+        const payTx = await routerContract.pay.populateTransaction(
+            user,
+            amountWei,
+            token
+        );
+        let permitTxHash: string | undefined;
+        if (permit) {
+            const permitTx = await permitHelper.permitTransaction(permit);
+            if (opts.dryRun) {
+                const report = await dryRunHelper.createDryRunReport(
+                    "payment-router-pay",
+                    opts.network,
+                    signer.address
+                );
+                await dryRunHelper.estimateStep(report, "permit", permitTx);
+                dryRunHelper.skipStep(
+                    report,
+                    "pay",
+                    payTx,
+                    "requires the permit step to be mined first"
+                );
+                dryRunHelper.printDryRunReport(report);
+                dryRunHelper.writeDryRunReport(report);
+                return;
+            }
+            console.log("submitting permit of the user...");
+            const sentPermit = await txSender.sendTransaction(
+                signer,
+                permitTx,
+                "permit"
+            );
+            permitTxHash = sentPermit.hash;
+            console.log(`permit ...done with tx: ${permitTxHash}`);
+        }
+
+        console.log("paying...");
+        const sent = await send(opts, "pay", signer.address, payTx);
+        if (!sent) {
+            return;
+        }
+
+        writeResult(opts.network, "pay", {
+            router,
+            user,
+            token,
+            amount,
+            amountWei: amountWei.toString(),
+            permitTx: permitTxHash,
+            payTx: sent.hash,
+        });
+    });
+
+program
+    .command("withdraw")
+    .description("withdraw tokens held by the router (adminTokenWithdraw)")
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to run on")
+    .option("--dry-run", "estimate gas and cost without broadcasting")
+    .option(
+        "--export-safe <safe>",
+        "write a Safe Transaction Builder batch for this Safe instead of sending"
+    )
+    .action(async (opts: CommandOptions) => {
+        const { router, token, to, amount } = readInput<WithdrawInput>(opts, [
+            "router",
+            "token",
+        ]);
+        const { signer, routerContract, SUPER_ADMIN_ROLE } =
+            await connectRouter(opts.network, router);
+        const actor = actorOf(opts, signer);
+        if (!(await routerContract.hasRole(SUPER_ADMIN_ROLE, actor))) {
+            console.error(`${actor} does not hold SUPER_ADMIN_ROLE`);
+            process.exit(1);
+        }
+
+        const tokenContract = await ethers.getContractAt("ERC20", token);
+        const decimals = await tokenContract.decimals();
+        const amountWei = ethers.parseUnits(amount, decimals);
+        const routerBalance = await tokenContract.balanceOf(router);
+        if (routerBalance < amountWei) {
+            console.error(
+                `router holds only ${ethers.formatUnits(
+                    routerBalance,
+                    decimals
+                )}, requires ${amount}`
+            );
+            process.exit(1);
+        }
+
+        console.log("withdrawing...");
+        const sent = await send(
+            opts,
+            "withdraw",
+            actor,
+            await routerContract.adminTokenWithdraw.populateTransaction(
+                token,
+                to,
+                amountWei
+            )
+        );
+        if (!sent) {
+            return;
+        }
+
+        writeResult(opts.network, "withdraw", {
+            router,
+            token,
+            to,
+            amount,
+            amountWei: amountWei.toString(),
+            withdrawTx: sent.hash,
+        });
+    });
+
+for (const [command, grant] of [
+    ["grant-super-admin", true],
+    ["revoke-super-admin", false],
+] as const) {
+    program
+        .command(command)
+        .description(`${grant ? "grant" : "revoke"} SUPER_ADMIN_ROLE`)
+        .requiredOption("--input <path>", "path to input JSON file")
+        .requiredOption("--network <network>", "network to run on")
+        .option("--dry-run", "estimate gas and cost without broadcasting")
+        .option(
+            "--export-safe <safe>",
+            "write a Safe Transaction Builder batch for this Safe instead of sending"
+        )
+        .action(async (opts: CommandOptions) => {
+            const { router, account } = readInput<SuperAdminInput>(opts, [
+                "router",
+            ]);
+            const { signer, routerContract, SUPER_ADMIN_ROLE } =
+                await connectRouter(opts.network, router);
+            const actor = actorOf(opts, signer);
+            const DEFAULT_ADMIN_ROLE =
+                await routerContract.DEFAULT_ADMIN_ROLE();
+            if (!(await routerContract.hasRole(DEFAULT_ADMIN_ROLE, actor))) {
+                console.error(`${actor} does not hold DEFAULT_ADMIN_ROLE`);
+                process.exit(1);
+            }
+            if (
+                (await routerContract.hasRole(SUPER_ADMIN_ROLE, account)) ===
+                grant
+            ) {
+                console.log(
+                    `${account} ${
+                        grant ? "already holds" : "does not hold"
+                    } SUPER_ADMIN_ROLE, nothing to do`
+                );
+                return;
+            }
+
+            const sent = await send(
+                opts,
+                command,
+                actor,
+                grant
+                    ? await routerContract.grantRole.populateTransaction(
+                          SUPER_ADMIN_ROLE,
+                          account
+                      )
+                    : await routerContract.revokeRole.populateTransaction(
+                          SUPER_ADMIN_ROLE,
+                          account
+                      )
+            );
+            if (!sent) {
+                return;
+            }
+
+            writeResult(opts.network, command, {
+                router,
+                account,
+                role: SUPER_ADMIN_ROLE,
+                hasRole: await routerContract.hasRole(
+                    SUPER_ADMIN_ROLE,
+                    account
+                ),
+                tx: sent.hash,
+            });
+        });
+}
+
+program.parseAsync(process.argv).catch(cliHelper.exitOnFailure);
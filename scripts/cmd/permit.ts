@@ -0,0 +1,141 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as path from "path";
+import * as fs from "fs";
+import registryHelper from "../lib/deployment-registry";
+import permitHelper, { SignedPermit } from "../lib/permit";
+import cliHelper from "./cli-helper";
+
+// token and spender accept deployment registry names as well as addresses
+interface SignInput {
+    token: string;
+    spender: string;
+    // in whole tokens
+    amount: string;
+    // the permit can be submitted until this many minutes after signing
+    validForMinutes?: number;
+}
+
+interface CommandOptions {
+    network: string;
+}
+
+const DEFAULT_VALID_FOR_MINUTES = 60;
+
+const program = new Command("permit").description(
+    "sign and verify EIP-2612 permits, approvals that need no transaction from the token owner"
+);
+
+async function connect(network: string) {
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+}
+
+function printPermit(permit: SignedPermit) {
+    const { owner, spender, value, nonce, deadline } = permit.message;
+    console.log(`token:    ${permit.token} (${permit.domain.name})`);
+    console.log(`owner:    ${owner}`);
+    console.log(`spender:  ${spender}`);
+    console.log(`value:    ${value}`);
+    console.log(`nonce:    ${nonce}`);
+    console.log(`deadline: ${new Date(Number(deadline) * 1000).toISOString()}`);
+}
+
+program
+    .command("sign")
+    .description("sign a permit for the spender with the configured account")
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network the permit is for")
+    .action(async (opts: CommandOptions & { input: string }) => {
+        const { input, errors } = registryHelper.resolveInputAddresses(
+            opts.network,
+            JSON.parse(fs.readFileSync(opts.input, "utf-8")) as SignInput,
+            ["token", "spender"]
+        );
+        const validForMinutes =
+            input.validForMinutes ?? DEFAULT_VALID_FOR_MINUTES;
+        if (typeof input.amount !== "string" || input.amount === "") {
+            errors.push("amount: is required");
+        }
+        if (typeof validForMinutes !== "number" || validForMinutes <= 0) {
+            errors.push("validForMinutes: must be a positive number");
+        }
+        if (errors.length > 0) {
+            console.error(`invalid input file ${opts.input}:`);
+            errors.forEach((err) => console.error(`  - ${err}`));
+            process.exit(1);
+        }
+        await connect(opts.network);
+
+        if (
+            !(await permitHelper.supportsPermit(ethers.provider, input.token))
+        ) {
+            console.error(`${input.token} does not support EIP-2612 permits`);
+            process.exit(1);
+        }
+        const signer = await cliHelper.getSigner(hre);
+        console.log("signing with account:", signer.address);
+        const token = await ethers.getContractAt("ERC20", input.token);
+        const value = ethers.parseUnits(input.amount, await token.decimals());
+
+        const permit = await permitHelper.signPermit(
+            signer,
+            input.token,
+            input.spender,
+            value,
+            await permitHelper.deadlineIn(ethers.provider, validForMinutes)
+        );
+        const verifyErrors = await permitHelper.verifyPermit(
+            ethers.provider,
+            permit
+        );
+        if (verifyErrors.length > 0) {
+            console.error("signed permit does not verify:");
+            verifyErrors.forEach((err) => console.error(`  - ${err}`));
+            process.exit(1);
+        }
+        printPermit(permit);
+
+        const outDir = path.join(
+            ".",
+            "out",
+            opts.network,
+            "permit",
+            `${+new Date()}`
+        );
+        cliHelper.ensureDirExists(outDir);
+        cliHelper.writeOutputResult(permit, outDir, "permit.json");
+        console.log(
+            `hand ${path.join(
+                outDir,
+                "permit.json"
+            )} to the submitter, e.g. payment-router pay --permit`
+        );
+    });
+
+program
+    .command("verify")
+    .description("check that the token would accept a signed permit now")
+    .requiredOption("--permit <path>", "permit written by permit sign")
+    .requiredOption("--network <network>", "network the permit is for")
+    .action(async (opts: CommandOptions & { permit: string }) => {
+        const permit = permitHelper.readPermit(opts.permit);
+        await connect(opts.network);
+
+        printPermit(permit);
+        const errors = await permitHelper.verifyPermit(ethers.provider, permit);
+        if (errors.length > 0) {
+            console.error(`invalid permit ${opts.permit}:`);
+            errors.forEach((err) => console.error(`  - ${err}`));
+            process.exit(1);
+        }
+        console.log(
+            `permit is valid, signed by ${permitHelper.recoverPermitSigner(
+                permit
+            )}`
+        );
+    });
+
+program.parseAsync(process.argv);
@@ -0,0 +1,190 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { SmartChefInitializable__factory } from "../../typechain-types";
+import registryHelper from "../lib/deployment-registry";
+import plannerHelper, { PlanKind } from "../lib/pool-planner";
+import adminHelper from "../lib/smartchef-admin";
+import cliHelper from "./cli-helper";
+
+interface Input {
+    // address or deployment registry name of the SmartChef pool
+    pool: string;
+    // run the program this many days longer, counted from the current end
+    // for a reschedule and from the successor's start otherwise, or until
+    // endDate
+    extendDays?: number;
+    endDate?: string;
+    // defaults to the current start for a reschedule and to the current
+    // end for a successor
+    startDate?: string;
+    // in whole reward tokens, defaults to the pool's rewardPerBlock
+    rewardPerBlock?: string;
+    // successor or reschedule, picked from whether the pool has started
+    // when left out, a started pool can only be followed by a successor
+    kind?: PlanKind;
+    // blocks to average the block time over
+    sampleBlocks?: number;
+    // minimum time in minutes between now and a successor's start
+    leadMinutes?: number;
+}
+
+const DEFAULT_SAMPLE_BLOCKS = 10000;
+const DEFAULT_LEAD_MINUTES = 60;
+
+const program = new Command("plan-smartchef-extension")
+    .description(
+        "plan a successor pool or a pre-start reschedule to extend a SmartChef program, and write the inputs of the commands that carry it out"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network the pool is on")
+    .parse(process.argv);
+
+function validateInput(input: Input): string[] {
+    const errors: string[] = [];
+    if (typeof input.pool !== "string" || !ethers.isAddress(input.pool)) {
+        errors.push(`pool: "${input.pool}" is not a valid address`);
+    }
+    for (const field of ["endDate", "startDate"] as const) {
+        if (input[field] !== undefined && isNaN(Date.parse(input[field]!))) {
+            errors.push(`${field}: "${input[field]}" is not a date`);
+        }
+    }
+    if (
+        input.rewardPerBlock !== undefined &&
+        !/^\d+(\.\d+)?$/.test(String(input.rewardPerBlock))
+    ) {
+        errors.push(
+            `rewardPerBlock: "${input.rewardPerBlock}" is not a token amount`
+        );
+    }
+    if (
+        input.kind !== undefined &&
+        input.kind !== "successor" &&
+        input.kind !== "reschedule"
+    ) {
+        errors.push(`kind: "${input.kind}" is not successor or reschedule`);
+    }
+    if (
+        input.sampleBlocks !== undefined &&
+        !(Number.isInteger(input.sampleBlocks) && input.sampleBlocks > 0)
+    ) {
+        errors.push("sampleBlocks: must be a positive whole number");
+    }
+    if (
+        input.leadMinutes !== undefined &&
+        !(typeof input.leadMinutes === "number" && input.leadMinutes > 0)
+    ) {
+        errors.push("leadMinutes: must be a positive number");
+    }
+    return errors;
+}
+
+function exitOnInvalidInput(inputFilePath: string, errors: string[]) {
+    if (errors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+}
+
+const toUnixTime = (date: string | undefined) =>
+    date === undefined ? undefined : Math.floor(Date.parse(date) / 1000);
+
+(async (): Promise<void> => {
+    const { input: inputFilePath, network } = program.opts();
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const { input, errors } = registryHelper.resolveInputAddresses(
+        network,
+        JSON.parse(inputContent) as Input,
+        ["pool"]
+    );
+    exitOnInvalidInput(inputFilePath, [...errors, ...validateInput(input)]);
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    const state = await adminHelper.readPoolState(input.pool);
+    const factory = await SmartChefInitializable__factory.connect(
+        input.pool,
+        ethers.provider
+    ).SMART_CHEF_FACTORY();
+    const sampleBlocks = input.sampleBlocks ?? DEFAULT_SAMPLE_BLOCKS;
+    console.log(`measuring the block time over ${sampleBlocks} blocks ...`);
+    const sample = await plannerHelper.measureBlockTime(sampleBlocks);
+    console.log(
+        `average block time: ${sample.secondsPerBlock.toFixed(3)}s from block ${
+            sample.fromBlock
+        } to ${sample.latestBlock}`
+    );
+
+    const leadMinutes = input.leadMinutes ?? DEFAULT_LEAD_MINUTES;
+    const { plan, errors: planErrors } = plannerHelper.planExtension(
+        state,
+        sample,
+        {
+            kind: input.kind,
+            extendDays: input.extendDays,
+            endTime: toUnixTime(input.endDate),
+            startTime: toUnixTime(input.startDate),
+            rewardPerBlock:
+                input.rewardPerBlock === undefined
+                    ? undefined
+                    : ethers.parseUnits(
+                          input.rewardPerBlock,
+                          state.rewardDecimals
+                      ),
+            leadBlocks: Math.ceil((leadMinutes * 60) / sample.secondsPerBlock),
+        }
+    );
+    if (!plan) {
+        adminHelper
+            .describePoolState(state)
+            .forEach((line) => console.error(`  ${line}`));
+        exitOnInvalidInput(inputFilePath, planErrors);
+        return;
+    }
+
+    const reward = (wei: string) =>
+        `${ethers.formatUnits(wei, state.rewardDecimals)} ${
+            state.rewardSymbol
+        }`;
+    cliHelper.writeHLine("-");
+    console.log(`${plan.kind} of pool ${plan.pool}`);
+    console.log(
+        `  blocks:           ${plan.startBlock} - ${plan.bonusEndBlock} (was ${state.startBlock} - ${state.bonusEndBlock})`
+    );
+    console.log(
+        `  estimated dates:  ${plan.estimatedStart} - ${plan.estimatedEnd}`
+    );
+    console.log(`  reward per block: ${reward(plan.rewardPerBlock)}`);
+    console.log(`  rewards needed:   ${reward(plan.rewardsNeeded)}`);
+    console.log(`  rewards held:     ${reward(plan.rewardsHeld)}`);
+    console.log(`  top-up:           ${reward(plan.topUp)}`);
+    if (plan.excess !== "0") {
+        console.log(`  excess:           ${reward(plan.excess)}`);
+    }
+    cliHelper.writeHLine("-");
+
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "pool-plan",
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(
+        { plan, sample, state, factory },
+        outDir,
+        "plan.json"
+    );
+    const inputs = plannerHelper.commandInputs(state, plan, factory);
+    for (const [fileName, commandInput] of Object.entries(inputs)) {
+        cliHelper.writeOutputResult(commandInput, outDir, fileName);
+    }
+    console.log(`plan and command inputs written to: ${outDir}`);
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,101 @@
+import { Command } from "commander";
+import registryHelper, { RegistryEntry } from "../lib/deployment-registry";
+
+interface CommandOptions {
+    network: string;
+}
+
+const program = new Command("registry").description(
+    "look up deployments recorded under out/<network>/deployment"
+);
+
+function printEntry(entry: RegistryEntry) {
+    console.log(
+        `${entry.pinned ? "*" : " "} ${entry.timestamp} ${entry.address} ${
+            entry.outDir
+        }`
+    );
+}
+
+program
+    .command("list")
+    .description("show the current deployment of every contract")
+    .requiredOption("--network <network>", "network to look up")
+    .action((opts: CommandOptions) => {
+        const contracts = registryHelper.listContracts(opts.network);
+        if (contracts.length === 0) {
+            console.log(`no deployments recorded for ${opts.network}`);
+            return;
+        }
+        for (const contractName of contracts) {
+            const entry = registryHelper.resolve(opts.network, contractName)!;
+            console.log(
+                `${contractName}: ${entry.address}${
+                    entry.pinned ? " (pinned)" : ""
+                }`
+            );
+        }
+    });
+
+program
+    .command("resolve <name>")
+    .description(
+        "print the address a registry name resolves to, e.g. RewardDistributor or iAIToken@<timestamp>"
+    )
+    .requiredOption("--network <network>", "network to look up")
+    .action((name: string, opts: CommandOptions) => {
+        try {
+            console.log(registryHelper.resolveAddress(opts.network, name));
+        } catch (err: any) {
+            console.error(err.message);
+            process.exit(1);
+        }
+    });
+
+program
+    .command("history <contract>")
+    .description("list the deployments of a contract, newest first")
+    .requiredOption("--network <network>", "network to look up")
+    .action((contractName: string, opts: CommandOptions) => {
+        const entries = registryHelper.history(opts.network, contractName);
+        if (entries.length === 0) {
+            console.log(`no deployments of ${contractName} on ${opts.network}`);
+            return;
+        }
+        console.log(`deployments of ${contractName} on ${opts.network}:`);
+        entries.forEach(printEntry);
+        if (!entries.some((entry) => entry.pinned)) {
+            console.log("not pinned, resolves to the latest deployment");
+        }
+    });
+
+program
+    .command("pin <contract> <ref>")
+    .description(
+        "promote a deployment, given by timestamp or address, to the one the contract name resolves to"
+    )
+    .requiredOption("--network <network>", "network to look up")
+    .action((contractName: string, ref: string, opts: CommandOptions) => {
+        try {
+            const entry = registryHelper.pin(opts.network, contractName, ref);
+            console.log(`pinned ${contractName} on ${opts.network} to:`);
+            printEntry(entry);
+        } catch (err: any) {
+            console.error(err.message);
+            process.exit(1);
+        }
+    });
+
+program
+    .command("unpin <contract>")
+    .description("resolve the contract to its latest deployment again")
+    .requiredOption("--network <network>", "network to look up")
+    .action((contractName: string, opts: CommandOptions) => {
+        if (!registryHelper.unpin(opts.network, contractName)) {
+            console.log(`${contractName} is not pinned on ${opts.network}`);
+            return;
+        }
+        console.log(`unpinned ${contractName} on ${opts.network}`);
+    });
+
+program.parse(process.argv);
@@ -0,0 +1,88 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import registryHelper from "../lib/deployment-registry";
+import poolReportHelper from "../lib/pool-report";
+import cliHelper from "./cli-helper";
+
+interface Input {
+    // address or deployment registry name of the SmartChefFactory
+    factory: string;
+    // first block to read logs from, defaults to the deployment block of a
+    // registry entry and to 0 for a plain address
+    fromBlock?: number;
+    // max blocks per log request
+    blockRange?: number;
+}
+
+const program = new Command("report-smartchef-pools")
+    .description(
+        "list every pool of a SmartChefFactory with its status, staked supply and reward solvency"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to report on")
+    .parse(process.argv);
+
+(async (): Promise<void> => {
+    const { input: inputFilePath, network } = program.opts();
+    const inputContent = fs.readFileSync(inputFilePath, "utf-8");
+    const input = JSON.parse(inputContent) as Input;
+
+    let factory: string;
+    let txHash: string | undefined;
+    try {
+        factory = registryHelper.resolveAddress(network, input.factory);
+        txHash = ethers.isAddress(input.factory)
+            ? undefined
+            : registryHelper.resolveName(network, input.factory)?.txHash;
+    } catch (err: any) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        console.error(`  - factory: ${err.message}`);
+        process.exit(1);
+    }
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    let fromBlock = input.fromBlock;
+    if (fromBlock === undefined && txHash) {
+        const receipt = await ethers.provider.getTransactionReceipt(txHash);
+        fromBlock = receipt?.blockNumber;
+    }
+    console.log(
+        `reading pools of SmartChefFactory ${factory} from block ${
+            fromBlock ?? 0
+        } ...`
+    );
+    const report = await poolReportHelper.reportPools(network, factory, {
+        fromBlock: fromBlock ?? 0,
+        blockRange: input.blockRange,
+    });
+
+    const markdown = poolReportHelper.renderMarkdown(report);
+    console.log(markdown);
+
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "pool-report",
+        `${report.createdAt}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(report, outDir, "pool-report.json");
+    fs.writeFileSync(path.join(outDir, "pool-report.md"), markdown);
+    console.log(`pool report written to: ${outDir}`);
+
+    if (report.underfunded > 0) {
+        console.warn(
+            `WARNING: ${report.underfunded} underfunded pool(s): ${report.pools
+                .filter((pool) => pool.underfunded)
+                .map((pool) => pool.address)
+                .join(", ")}`
+        );
+    }
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,98 @@
+import { Command } from "commander";
+import { ethers } from "ethers";
+import prompts from "prompts";
+import keystoreHelper from "../lib/keystore";
+import offlineHelper, { UnsignedTransaction } from "../lib/offline-signing";
+
+// Phase two of the offline workflow. Deliberately no hardhat import: this
+// runs on the air-gapped machine, without any network access or config.
+
+const program = new Command("sign-offline")
+    .description(
+        "sign an unsigned transaction bundle with an encrypted JSON keystore, without network access"
+    )
+    .requiredOption(
+        "--unsigned <path>",
+        "unsigned bundle written by --build-unsigned"
+    )
+    .requiredOption("--keystore <path>", "path to encrypted JSON keystore")
+    .option(
+        "--out <path>",
+        "where to write the signed bundle, defaults to <unsigned>.signed.json"
+    )
+    .option("--yes", "sign without confirmation")
+    .parse(process.argv);
+
+(async (): Promise<void> => {
+    const { unsigned: unsignedPath, keystore, out, yes } = program.opts();
+    const bundle = offlineHelper.readBundle<UnsignedTransaction>(unsignedPath);
+    if (bundle.signedAt) {
+        console.error(`${unsignedPath} is already signed`);
+        process.exit(1);
+    }
+
+    console.log(
+        `${bundle.command} on ${bundle.network} (chain ID ${bundle.chainId}) from ${bundle.from}`
+    );
+    bundle.transactions.forEach(({ label, tx }) =>
+        console.log(
+            `  nonce ${tx.nonce}: ${label} (to: ${
+                tx.to ?? "new contract"
+            }, value: ${ethers.formatEther(tx.value)}, gas limit: ${
+                tx.gasLimit
+            })`
+        )
+    );
+    console.log(
+        `max cost: ${ethers.formatEther(
+            offlineHelper.maxTransactionCost(bundle)
+        )} at ${ethers.formatUnits(
+            bundle.fees.maxFeePerGas ?? bundle.fees.gasPrice ?? 0,
+            "gwei"
+        )} gwei`
+    );
+
+    const { password } = await prompts({
+        type: "password",
+        name: "password",
+        message: `password of ${keystore}:`,
+    });
+    if (password === undefined) {
+        console.log("aborted, nothing signed");
+        process.exit(1);
+    }
+    const wallet = await keystoreHelper.decryptKeystore(keystore, password);
+    console.log("decrypted account:", wallet.address);
+
+    if (
+        !yes &&
+        !(
+            await prompts({
+                type: "confirm",
+                name: "confirm",
+                message: `sign ${bundle.transactions.length} transaction(s)?`,
+                initial: false,
+            })
+        ).confirm
+    ) {
+        console.log("aborted, nothing signed");
+        process.exit(1);
+    }
+
+    const signed = await offlineHelper
+        .signBundle(bundle, wallet)
+        .catch((err) => {
+            console.error(err.message);
+            process.exit(1);
+        });
+    const outPath = out ?? unsignedPath.replace(/(\.json)?$/, ".signed.json");
+    offlineHelper.writeBundle(signed, outPath);
+    console.log(`signed bundle written to: ${outPath}`);
+    console.log(
+        `copy it to the networked machine and re-run ${bundle.command} with --broadcast-signed ${outPath}`
+    );
+})().catch((err) => {
+    // cli-helper's exitOnFailure needs hardhat, report the failure here
+    console.error(`\nFAILED: ${err instanceof Error ? err.message : err}`);
+    process.exit(1);
+});
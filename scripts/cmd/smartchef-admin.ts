@@ -0,0 +1,414 @@
+import { Command } from "commander";
+import { TransactionRequest } from "ethers";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import * as path from "path";
+import * as fs from "fs";
+import {
+    SmartChefInitializable,
+    SmartChefInitializable__factory,
+} from "../../typechain-types";
+import registryHelper from "../lib/deployment-registry";
+import dryRunHelper from "../lib/dry-run";
+import safeBatchHelper from "../lib/safe-batch";
+import adminHelper, { PoolState } from "../lib/smartchef-admin";
+import txSender from "../lib/tx-sender";
+import cliHelper from "./cli-helper";
+
+// pool and token accept deployment registry names, e.g. SmartChefPool, as
+// well as addresses. Amounts are in whole tokens
+interface PoolInput {
+    pool: string;
+}
+
+interface RewardPerBlockInput extends PoolInput {
+    // in whole reward tokens
+    rewardPerBlock: string;
+}
+
+interface StartAndEndBlocksInput extends PoolInput {
+    startBlock: number;
+    bonusEndBlock: number;
+}
+
+interface PoolLimitInput extends PoolInput {
+    // false removes the limit, poolLimitPerUser is then ignored
+    hasUserLimit: boolean;
+    // in whole staked tokens
+    poolLimitPerUser?: string;
+}
+
+interface RewardWithdrawInput extends PoolInput {
+    // in whole reward tokens
+    amount: string;
+}
+
+interface RecoverInput extends PoolInput {
+    token: string;
+    amount: string;
+}
+
+interface CommandOptions {
+    input: string;
+    network: string;
+    dryRun?: boolean;
+    // Safe to export the admin call for instead of sending it
+    exportSafe?: string;
+}
+
+interface AdminAction {
+    // precondition failures on the current pool state
+    errors: string[];
+    tx: TransactionRequest;
+    // the call's arguments, written to the result file
+    params: {};
+}
+
+const program = new Command("smartchef-admin").description(
+    "run the owner functions of a SmartChef pool after checking the contract's rules against its current state"
+);
+
+const isAmount = (value: unknown) =>
+    typeof value === "string" && /^\d+(\.\d+)?$/.test(value);
+
+function readInput<T extends PoolInput>(
+    opts: CommandOptions,
+    addressFields: (keyof T & string)[],
+    validate: (input: T) => string[] = () => []
+): T {
+    if (opts.exportSafe && opts.dryRun) {
+        console.error("--export-safe and --dry-run are exclusive");
+        process.exit(1);
+    }
+    if (opts.exportSafe && !ethers.isAddress(opts.exportSafe)) {
+        console.error(
+            `--export-safe: "${opts.exportSafe}" is not a valid address`
+        );
+        process.exit(1);
+    }
+    const inputContent = fs.readFileSync(opts.input, "utf-8");
+    const { input, errors } = registryHelper.resolveInputAddresses(
+        opts.network,
+        JSON.parse(inputContent) as T,
+        ["pool", ...addressFields]
+    );
+    errors.push(...validate(input));
+    if (errors.length > 0) {
+        console.error(`invalid input file ${opts.input}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+    return input;
+}
+
+function printState(title: string, state: PoolState) {
+    cliHelper.writeHLine("-");
+    console.log(title);
+    adminHelper
+        .describePoolState(state)
+        .forEach((line) => console.log(`  ${line}`));
+    cliHelper.writeHLine("-");
+}
+
+/**
+ * runAction checks the owner and the action's preconditions against the
+ * current pool state, then estimates the call for --dry-run, exports it as a
+ * Safe batch for --export-safe or sends it, and writes the state before and
+ * after to the result file.
+ */
+async function runAction(
+    opts: CommandOptions,
+    command: string,
+    pool: string,
+    build: (
+        chef: SmartChefInitializable,
+        state: PoolState
+    ) => Promise<AdminAction>
+) {
+    console.log(`changing network to: ${opts.network} ...`);
+    await hre.changeNetwork(opts.network);
+    console.log(`changed network to: ${opts.network}`);
+
+    // the owner check applies to the Safe when the call is exported for it,
+    // the signer's key is not needed then
+    const actor = opts.exportSafe
+        ? ethers.getAddress(opts.exportSafe)
+        : (await cliHelper.getSigner(hre)).address;
+    console.log(
+        `${opts.exportSafe ? "exporting for Safe" : "using account"}:`,
+        actor
+    );
+
+    const chef = SmartChefInitializable__factory.connect(pool, ethers.provider);
+    const before = await adminHelper.readPoolState(pool);
+    printState("pool state before:", before);
+
+    const action = await build(chef, before);
+    const errors = [...adminHelper.checkOwner(before, actor), ...action.errors];
+    if (errors.length > 0) {
+        console.error(`cannot ${command}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
+    if (opts.dryRun) {
+        const report = await dryRunHelper.createDryRunReport(
+            `smartchef-${command}`,
+            opts.network,
+            actor
+        );
+        await dryRunHelper.estimateStep(report, command, action.tx);
+        dryRunHelper.printDryRunReport(report);
+        dryRunHelper.writeDryRunReport(report);
+        return;
+    }
+    if (opts.exportSafe) {
+        // the checks hold for the next block, the Safe executes later
+        console.warn(
+            "the preconditions were checked at the current block, check them again before the Safe executes"
+        );
+        await safeBatchHelper.exportSafeBatch(
+            opts.network,
+            `smartchef-${command}`,
+            `${command} on SmartChef pool ${before.pool}`,
+            actor,
+            [
+                {
+                    artifact: "SmartChefInitializable",
+                    to: action.tx.to as string,
+                    data: action.tx.data as string,
+                },
+            ]
+        );
+        return;
+    }
+
+    console.log(`${command}...`);
+    const sent = await txSender.sendTransaction(
+        await cliHelper.getSigner(hre),
+        action.tx,
+        command
+    );
+    console.log(`${command} ...done with tx: ${sent.hash}`);
+    const after = await adminHelper.readPoolState(pool);
+    printState("pool state after:", after);
+
+    const outDir = path.join(
+        ".",
+        "out",
+        opts.network,
+        `smartchef-${command}`,
+        "SmartChefPool",
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(
+        {
+            pool: before.pool,
+            command,
+            params: action.params,
+            tx: sent.hash,
+            before,
+            after,
+            transactions: txSender.sentTransactions(),
+        },
+        outDir,
+        "result.json"
+    );
+}
+
+function adminCommand(name: string, description: string) {
+    return program
+        .command(name)
+        .description(description)
+        .requiredOption("--input <path>", "path to input JSON file")
+        .requiredOption("--network <network>", "network to run on")
+        .option("--dry-run", "estimate gas and cost without broadcasting")
+        .option(
+            "--export-safe <safe>",
+            "write a Safe Transaction Builder batch for this Safe instead of sending"
+        );
+}
+
+adminCommand(
+    "update-reward-per-block",
+    "change the reward per block, only before the pool starts"
+).action(async (opts: CommandOptions) => {
+    const input = readInput<RewardPerBlockInput>(opts, [], (input) =>
+        isAmount(input.rewardPerBlock)
+            ? []
+            : [`rewardPerBlock: "${input.rewardPerBlock}" is not an amount`]
+    );
+    await runAction(
+        opts,
+        "update-reward-per-block",
+        input.pool,
+        async (chef, state) => {
+            const rewardPerBlock = ethers.parseUnits(
+                input.rewardPerBlock,
+                state.rewardDecimals
+            );
+            return {
+                errors: adminHelper.checkUpdateRewardPerBlock(state),
+                tx: await chef.updateRewardPerBlock.populateTransaction(
+                    rewardPerBlock
+                ),
+                params: { rewardPerBlock: rewardPerBlock.toString() },
+            };
+        }
+    );
+});
+
+adminCommand(
+    "update-start-and-end-blocks",
+    "move the start and end blocks, only before the pool starts"
+).action(async (opts: CommandOptions) => {
+    const input = readInput<StartAndEndBlocksInput>(opts, [], (input) =>
+        (["startBlock", "bonusEndBlock"] as const)
+            .filter((field) => !Number.isSafeInteger(input[field]))
+            .map((field) => `${field}: must be a block number`)
+    );
+    await runAction(
+        opts,
+        "update-start-and-end-blocks",
+        input.pool,
+        async (chef, state) => ({
+            errors: adminHelper.checkUpdateStartAndEndBlocks(
+                state,
+                input.startBlock,
+                input.bonusEndBlock
+            ),
+            tx: await chef.updateStartAndEndBlocks.populateTransaction(
+                input.startBlock,
+                input.bonusEndBlock
+            ),
+            params: {
+                startBlock: input.startBlock,
+                bonusEndBlock: input.bonusEndBlock,
+            },
+        })
+    );
+});
+
+adminCommand(
+    "update-pool-limit",
+    "raise the limit per user or remove it"
+).action(async (opts: CommandOptions) => {
+    const input = readInput<PoolLimitInput>(opts, [], (input) => {
+        if (typeof input.hasUserLimit !== "boolean") {
+            return ["hasUserLimit: must be true or false"];
+        }
+        return input.hasUserLimit && !isAmount(input.poolLimitPerUser)
+            ? [`poolLimitPerUser: "${input.poolLimitPerUser}" is not an amount`]
+            : [];
+    });
+    await runAction(
+        opts,
+        "update-pool-limit",
+        input.pool,
+        async (chef, state) => {
+            const poolLimitPerUser = input.hasUserLimit
+                ? ethers.parseUnits(
+                      input.poolLimitPerUser!,
+                      state.stakedDecimals
+                  )
+                : 0n;
+            return {
+                errors: adminHelper.checkUpdatePoolLimitPerUser(
+                    state,
+                    input.hasUserLimit,
+                    poolLimitPerUser
+                ),
+                tx: await chef.updatePoolLimitPerUser.populateTransaction(
+                    input.hasUserLimit,
+                    poolLimitPerUser
+                ),
+                params: {
+                    hasUserLimit: input.hasUserLimit,
+                    poolLimitPerUser: poolLimitPerUser.toString(),
+                },
+            };
+        }
+    );
+});
+
+adminCommand(
+    "stop-reward",
+    "end the rewards at the block the call is mined in"
+).action(async (opts: CommandOptions) => {
+    const input = readInput<PoolInput>(opts, []);
+    await runAction(opts, "stop-reward", input.pool, async (chef, state) => ({
+        errors: adminHelper.checkStopReward(state),
+        tx: await chef.stopReward.populateTransaction(),
+        params: {},
+    }));
+});
+
+adminCommand(
+    "emergency-reward-withdraw",
+    "withdraw reward tokens from the pool to the owner"
+).action(async (opts: CommandOptions) => {
+    const input = readInput<RewardWithdrawInput>(opts, [], (input) =>
+        isAmount(input.amount)
+            ? []
+            : [`amount: "${input.amount}" is not an amount`]
+    );
+    await runAction(
+        opts,
+        "emergency-reward-withdraw",
+        input.pool,
+        async (chef, state) => {
+            const amount = ethers.parseUnits(
+                input.amount,
+                state.rewardDecimals
+            );
+            return {
+                errors: adminHelper.checkEmergencyRewardWithdraw(state, amount),
+                tx: await chef.emergencyRewardWithdraw.populateTransaction(
+                    amount
+                ),
+                params: { amount: amount.toString() },
+            };
+        }
+    );
+});
+
+adminCommand(
+    "recover-wrong-tokens",
+    "send tokens other than the staked and reward token back to the owner"
+).action(async (opts: CommandOptions) => {
+    const input = readInput<RecoverInput>(opts, ["token"], (input) =>
+        isAmount(input.amount)
+            ? []
+            : [`amount: "${input.amount}" is not an amount`]
+    );
+    await runAction(
+        opts,
+        "recover-wrong-tokens",
+        input.pool,
+        async (chef, state) => {
+            const token = await ethers.getContractAt("ERC20", input.token);
+            const decimals = Number(await token.decimals());
+            const amount = ethers.parseUnits(input.amount, decimals);
+            return {
+                errors: adminHelper.checkRecoverWrongTokens(
+                    state,
+                    input.token,
+                    amount,
+                    {
+                        balance: await token.balanceOf(state.pool),
+                        decimals,
+                        symbol: await token.symbol(),
+                    }
+                ),
+                tx: await chef.recoverWrongTokens.populateTransaction(
+                    input.token,
+                    amount
+                ),
+                params: { token: input.token, amount: amount.toString() },
+            };
+        }
+    );
+});
+
+program.parseAsync(process.argv).catch(cliHelper.exitOnFailure);
@@ -0,0 +1,88 @@
+import { Command } from "commander";
+import * as hre from "hardhat";
+import * as fs from "fs";
+import registryHelper from "../lib/deployment-registry";
+import watcherHelper, {
+    DEFAULT_POLL_SECONDS,
+    WatchConfig,
+} from "../lib/balance-watcher";
+import cliHelper from "./cli-helper";
+
+const program = new Command("watch-reward-distributor")
+    .description(
+        "watch the RewardDistributor reward token balance and distribution rate, alert when the projected runway drops below the threshold"
+    )
+    .requiredOption("--input <path>", "path to input JSON file")
+    .requiredOption("--network <network>", "network to watch")
+    .option(
+        "--once",
+        "poll a single time and exit, e.g. from cron, a low runway is then alerted on every run"
+    )
+    .parse(process.argv);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+(async (): Promise<void> => {
+    const { input: inputFilePath, network, once } = program.opts();
+    const { input: config, errors } = registryHelper.resolveInputAddresses(
+        network,
+        JSON.parse(fs.readFileSync(inputFilePath, "utf-8")) as WatchConfig,
+        ["distributor"]
+    );
+    errors.push(...watcherHelper.validateWatchConfig(config));
+    if (errors.length > 0) {
+        console.error(`invalid input file ${inputFilePath}:`);
+        errors.forEach((err) => console.error(`  - ${err}`));
+        process.exit(1);
+    }
+
+    console.log(`changing network to: ${network} ...`);
+    await hre.changeNetwork(network);
+    console.log(`changed network to: ${network}`);
+
+    const state = await watcherHelper.initWatcher(network, config);
+    console.log(
+        `watching RewardDistributor ${state.distributor}, reward token ${state.symbol} ${state.token}, from block ${state.nextBlock}`
+    );
+
+    let stopping = false;
+    process.on("SIGINT", () => {
+        if (stopping) {
+            process.exit(130);
+        }
+        console.log("stopping after the current poll ...");
+        stopping = true;
+    });
+
+    while (!stopping) {
+        try {
+            const snapshot = await watcherHelper.poll(config, state);
+            console.log(
+                `${new Date(snapshot.observedAt * 1000).toISOString()} block ${
+                    snapshot.blockNumber
+                }: ${watcherHelper.describeSnapshot(state, snapshot)}`
+            );
+            const alert = watcherHelper.evaluateAlert(config, state, snapshot);
+            if (alert) {
+                console.warn(`ALERT ${alert.kind}: ${alert.message}`);
+                const sinkErrors = await watcherHelper.deliverAlert(
+                    config.sinks,
+                    alert
+                );
+                sinkErrors.forEach((err) =>
+                    console.error(`alert not delivered to ${err}`)
+                );
+            }
+        } catch (err: any) {
+            if (once) {
+                throw err;
+            }
+            // a flaky RPC must not end the watch, the next poll catches up
+            console.error(`poll failed: ${err.shortMessage ?? err.message}`);
+        }
+        if (once) {
+            break;
+        }
+        await sleep((config.pollSeconds ?? DEFAULT_POLL_SECONDS) * 1000);
+    }
+})().catch(cliHelper.exitOnFailure);
@@ -0,0 +1,391 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import {
+    ERC20__factory,
+    RewardDistributor__factory,
+} from "../../typechain-types";
+
+// alerts go to every configured sink
+export interface AlertSinks {
+    // receives each alert as a JSON POST, with a Slack compatible text field
+    webhookUrl?: string;
+    webhookHeaders?: { [name: string]: string };
+    // each alert is appended as one JSON line
+    file?: string;
+}
+
+export interface WatchConfig {
+    // address or deployment registry name of the RewardDistributor
+    distributor: string;
+    // alert when the balance lasts less than this at the rate of its
+    // TokensDistributed events
+    runwayThresholdHours: number;
+    // the distribution rate is measured over this trailing window
+    rateWindowHours?: number;
+    // a runway that is still low is alerted again after this long, a
+    // recovery is alerted once
+    realertMinutes?: number;
+    pollSeconds?: number;
+    // max blocks per eth_getLogs request, public RPCs reject large ranges
+    blockRange?: number;
+    sinks: AlertSinks;
+}
+
+interface Distribution {
+    blockNumber: number;
+    timestamp: number;
+    amount: bigint;
+}
+
+export interface WatcherState {
+    network: string;
+    distributor: string;
+    token: string;
+    symbol: string;
+    decimals: number;
+    // first block not read yet
+    nextBlock: number;
+    // the rate window cannot reach back before the first block read
+    watchedSince: number;
+    // inside the rate window, oldest first
+    distributions: Distribution[];
+    alerting: boolean;
+    lastAlertAt?: number;
+}
+
+export interface WatchSnapshot {
+    // unix timestamp in seconds
+    observedAt: number;
+    blockNumber: number;
+    // in wei
+    balance: string;
+    distributedInWindow: string;
+    windowSeconds: number;
+    // in wei per hour
+    ratePerHour: string;
+    // how long the balance lasts at the rate, null when nothing was
+    // distributed in the window
+    runwayHours: number | null;
+}
+
+export interface RunwayAlert {
+    kind: "low-runway" | "recovered";
+    network: string;
+    distributor: string;
+    token: string;
+    message: string;
+    snapshot: WatchSnapshot;
+}
+
+const DEFAULT_RATE_WINDOW_HOURS = 24;
+const DEFAULT_REALERT_MINUTES = 60;
+export const DEFAULT_POLL_SECONDS = 60;
+const DEFAULT_BLOCK_RANGE = 2000;
+
+function validateWatchConfig(config: WatchConfig): string[] {
+    const errors: string[] = [];
+    const positive = (
+        field: keyof WatchConfig,
+        value: unknown,
+        required = false
+    ) => {
+        if (value === undefined && !required) {
+            return;
+        }
+        if (typeof value !== "number" || !(value > 0)) {
+            errors.push(`${field}: must be a positive number`);
+        }
+    };
+    if (!ethers.isAddress(config.distributor)) {
+        errors.push(`distributor: "${config.distributor}" is not an address`);
+    }
+    positive("runwayThresholdHours", config.runwayThresholdHours, true);
+    positive("rateWindowHours", config.rateWindowHours);
+    positive("realertMinutes", config.realertMinutes);
+    positive("pollSeconds", config.pollSeconds);
+    if (
+        config.blockRange !== undefined &&
+        !(Number.isInteger(config.blockRange) && config.blockRange > 0)
+    ) {
+        errors.push("blockRange: must be a positive whole number");
+    }
+
+    const sinks = config.sinks ?? {};
+    if (!sinks.webhookUrl && !sinks.file) {
+        errors.push("sinks: configure a webhookUrl, a file or both");
+    }
+    if (sinks.webhookUrl) {
+        try {
+            const { protocol } = new URL(sinks.webhookUrl);
+            if (protocol !== "http:" && protocol !== "https:") {
+                throw new Error();
+            }
+        } catch {
+            errors.push(
+                `sinks.webhookUrl: "${sinks.webhookUrl}" is not an http(s) URL`
+            );
+        }
+    }
+    return errors;
+}
+
+/**
+ * chainNow is the later of the latest block time and the local clock, the
+ * latest block lags behind on an idle chain.
+ */
+async function chainNow() {
+    const latest = await ethers.provider.getBlock("latest");
+    return {
+        blockNumber: latest!.number,
+        now: Math.max(latest!.timestamp, Math.floor(Date.now() / 1000)),
+    };
+}
+
+/**
+ * firstBlockSince returns the first block mined at or after the timestamp.
+ */
+async function firstBlockSince(timestamp: number, latestBlock: number) {
+    let low = 0;
+    let high = latestBlock;
+    while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        const block = await ethers.provider.getBlock(mid);
+        if (block!.timestamp < timestamp) {
+            low = mid + 1;
+        } else {
+            high = mid;
+        }
+    }
+    return low;
+}
+
+/**
+ * initWatcher reads the distributor's reward token and starts one rate window
+ * back, so the first snapshot already knows the current rate.
+ */
+async function initWatcher(
+    network: string,
+    config: WatchConfig
+): Promise<WatcherState> {
+    const distributor = RewardDistributor__factory.connect(
+        config.distributor,
+        ethers.provider
+    );
+    const token = await distributor.rewardToken();
+    const erc20 = ERC20__factory.connect(token, ethers.provider);
+    const windowSeconds = rateWindowSeconds(config);
+    const { blockNumber, now } = await chainNow();
+    const nextBlock = await firstBlockSince(now - windowSeconds, blockNumber);
+    const first = await ethers.provider.getBlock(nextBlock);
+    return {
+        network,
+        distributor: ethers.getAddress(config.distributor),
+        token,
+        symbol: await erc20.symbol(),
+        decimals: Number(await erc20.decimals()),
+        nextBlock,
+        watchedSince: first!.timestamp,
+        distributions: [],
+        alerting: false,
+    };
+}
+
+function rateWindowSeconds(config: WatchConfig) {
+    return Math.round(
+        (config.rateWindowHours ?? DEFAULT_RATE_WINDOW_HOURS) * 3600
+    );
+}
+
+/**
+ * poll reads the TokensDistributed logs since the previous poll and the
+ * current balance, and measures the rate over the trailing window.
+ */
+async function poll(
+    config: WatchConfig,
+    state: WatcherState
+): Promise<WatchSnapshot> {
+    const distributor = RewardDistributor__factory.connect(
+        state.distributor,
+        ethers.provider
+    );
+    const { blockNumber, now } = await chainNow();
+    const blockRange = config.blockRange ?? DEFAULT_BLOCK_RANGE;
+    const timestamps = new Map<number, number>();
+    // committed with nextBlock once every chunk is read, a failed poll is
+    // retried from the same block without counting any log twice
+    const found: Distribution[] = [];
+    for (
+        let start = state.nextBlock;
+        start <= blockNumber;
+        start += blockRange
+    ) {
+        const end = Math.min(start + blockRange - 1, blockNumber);
+        const logs = await distributor.queryFilter(
+            distributor.filters.TokensDistributed(),
+            start,
+            end
+        );
+        for (const log of logs) {
+            if (!timestamps.has(log.blockNumber)) {
+                const block = await ethers.provider.getBlock(log.blockNumber);
+                timestamps.set(log.blockNumber, block!.timestamp);
+            }
+            found.push({
+                blockNumber: log.blockNumber,
+                timestamp: timestamps.get(log.blockNumber)!,
+                amount: log.args.amount,
+            });
+        }
+    }
+    state.distributions.push(...found);
+    state.nextBlock = Math.max(state.nextBlock, blockNumber + 1);
+
+    const windowStart = Math.max(
+        now - rateWindowSeconds(config),
+        state.watchedSince
+    );
+    state.distributions = state.distributions.filter(
+        (distribution) => distribution.timestamp >= windowStart
+    );
+    const distributed = state.distributions.reduce(
+        (sum, distribution) => sum + distribution.amount,
+        0n
+    );
+    const windowSeconds = Math.max(now - windowStart, 1);
+    const balance = await ERC20__factory.connect(
+        state.token,
+        ethers.provider
+    ).balanceOf(state.distributor, { blockTag: blockNumber });
+
+    let runwayHours: number | null = null;
+    if (balance === 0n) {
+        runwayHours = 0;
+    } else if (distributed > 0n) {
+        const runwaySeconds = (balance * BigInt(windowSeconds)) / distributed;
+        runwayHours = Number(runwaySeconds) / 3600;
+    }
+    return {
+        observedAt: now,
+        blockNumber,
+        balance: balance.toString(),
+        distributedInWindow: distributed.toString(),
+        windowSeconds,
+        ratePerHour: ((distributed * 3600n) / BigInt(windowSeconds)).toString(),
+        runwayHours,
+    };
+}
+
+function formatAmount(state: WatcherState, wei: string) {
+    return `${ethers.formatUnits(wei, state.decimals)} ${state.symbol}`;
+}
+
+function describeSnapshot(state: WatcherState, snapshot: WatchSnapshot) {
+    const runway =
+        snapshot.runwayHours === null
+            ? "no distributions in the window"
+            : `runway ${snapshot.runwayHours.toFixed(1)}h`;
+    return `balance ${formatAmount(
+        state,
+        snapshot.balance
+    )}, rate ${formatAmount(state, snapshot.ratePerHour)}/h, ${runway}`;
+}
+
+/**
+ * evaluateAlert decides whether the snapshot is alerted: when the runway
+ * first drops below the threshold, again every realertMinutes while it stays
+ * there, and once when it recovers.
+ */
+function evaluateAlert(
+    config: WatchConfig,
+    state: WatcherState,
+    snapshot: WatchSnapshot
+): RunwayAlert | undefined {
+    const low =
+        snapshot.runwayHours !== null &&
+        snapshot.runwayHours < config.runwayThresholdHours;
+    const realertSeconds =
+        (config.realertMinutes ?? DEFAULT_REALERT_MINUTES) * 60;
+    const alert = (kind: RunwayAlert["kind"], message: string) => ({
+        kind,
+        network: state.network,
+        distributor: state.distributor,
+        token: state.token,
+        message: `RewardDistributor ${state.distributor} on ${
+            state.network
+        }: ${message}, ${describeSnapshot(state, snapshot)}`,
+        snapshot,
+    });
+
+    if (
+        low &&
+        (!state.alerting ||
+            snapshot.observedAt - state.lastAlertAt! >= realertSeconds)
+    ) {
+        state.alerting = true;
+        state.lastAlertAt = snapshot.observedAt;
+        return alert(
+            "low-runway",
+            `runway below ${config.runwayThresholdHours}h, add funds`
+        );
+    }
+    if (!low && state.alerting) {
+        state.alerting = false;
+        state.lastAlertAt = undefined;
+        return alert(
+            "recovered",
+            `runway back above ${config.runwayThresholdHours}h`
+        );
+    }
+    return undefined;
+}
+
+/**
+ * deliverAlert sends the alert to every sink. A failing sink does not stop
+ * the others or the watcher.
+ * @returns errors of the sinks that failed
+ */
+async function deliverAlert(
+    sinks: AlertSinks,
+    alert: RunwayAlert
+): Promise<string[]> {
+    const errors: string[] = [];
+    if (sinks.file) {
+        try {
+            fs.mkdirSync(path.dirname(sinks.file), { recursive: true });
+            fs.appendFileSync(sinks.file, `${JSON.stringify(alert)}\n`);
+        } catch (err: any) {
+            errors.push(`file ${sinks.file}: ${err.message}`);
+        }
+    }
+    if (sinks.webhookUrl) {
+        try {
+            const response = await fetch(sinks.webhookUrl, {
+                method: "POST",
+                headers: {
+                    "content-type": "application/json",
+                    ...sinks.webhookHeaders,
+                },
+                body: JSON.stringify({ text: alert.message, ...alert }),
+                signal: AbortSignal.timeout(10000),
+            });
+            if (!response.ok) {
+                throw new Error(
+                    `HTTP ${response.status} ${response.statusText}`
+                );
+            }
+        } catch (err: any) {
+            errors.push(`webhook: ${err.message}`);
+        }
+    }
+    return errors;
+}
+
+export default {
+    validateWatchConfig,
+    initWatcher,
+    poll,
+    describeSnapshot,
+    evaluateAlert,
+    deliverAlert,
+};
@@ -0,0 +1,270 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { ethers } from "ethers";
+import { CallHelper__factory } from "../../typechain-types";
+import registryHelper from "./deployment-registry";
+import revertHelper, { DecodedRevert } from "./revert-decoder";
+
+export interface BundleCallSpec {
+    // shown in reports and encoded as the bytes32 signature, max 31 bytes
+    label: string;
+    // address or deployment registry name
+    target: string;
+    // human-readable signature, e.g. transfer(address to, uint256 amount)
+    function: string;
+    // address arguments accept registry names as well
+    args?: unknown[];
+}
+
+export interface BundleSpec {
+    // address or deployment registry name of the CallHelper
+    callHelper: string;
+    calls: BundleCallSpec[];
+}
+
+export interface EncodedCall {
+    index: number;
+    label: string;
+    target: string;
+    function: string;
+    args: unknown[];
+    data: string;
+    signature: string;
+}
+
+export interface EncodedBundle {
+    callHelper: string;
+    calls: EncodedCall[];
+}
+
+export interface CallResult extends EncodedCall {
+    status: "success" | "failure";
+}
+
+export interface PreflightResult {
+    index: number;
+    label: string;
+    ok: boolean;
+    revert?: DecodedRevert;
+    warning?: string;
+}
+
+/**
+ * readBundleSpec loads a bundle spec from a .yaml/.yml or a JSON file.
+ */
+function readBundleSpec(filePath: string): BundleSpec {
+    const content = fs.readFileSync(filePath, "utf-8");
+    const ext = path.extname(filePath).toLowerCase();
+    return (
+        ext === ".yaml" || ext === ".yml"
+            ? yaml.load(content)
+            : JSON.parse(content)
+    ) as BundleSpec;
+}
+
+function labelToSignature(label: string) {
+    return ethers.encodeBytes32String(label);
+}
+
+/**
+ * resolveArg replaces registry names in address and address[] arguments.
+ */
+function resolveArg(network: string, type: ethers.ParamType, value: unknown) {
+    if (type.baseType === "address" && typeof value === "string") {
+        return registryHelper.resolveAddress(network, value);
+    }
+    if (
+        type.baseType === "array" &&
+        type.arrayChildren!.baseType === "address" &&
+        Array.isArray(value)
+    ) {
+        return value.map((v) =>
+            typeof v === "string"
+                ? registryHelper.resolveAddress(network, v)
+                : v
+        );
+    }
+    return value;
+}
+
+/**
+ * encodeBundle turns a bundle spec into the parallel arrays CallHelper.call
+ * takes, validating every entry.
+ * @returns the encoded bundle and one error per invalid entry
+ */
+function encodeBundle(network: string, spec: BundleSpec) {
+    const errors: string[] = [];
+    const calls: EncodedCall[] = [];
+
+    let callHelper = "";
+    try {
+        callHelper = registryHelper.resolveAddress(network, spec.callHelper);
+    } catch (err: any) {
+        errors.push(`callHelper: ${err.message}`);
+    }
+    if (!Array.isArray(spec.calls) || spec.calls.length === 0) {
+        errors.push("calls: requires at least one call");
+        return { bundle: { callHelper, calls }, errors };
+    }
+
+    const labels = new Set<string>();
+    spec.calls.forEach((call, index) => {
+        const field = `calls[${index}]${call.label ? ` (${call.label})` : ""}`;
+        try {
+            if (typeof call.label !== "string" || call.label === "") {
+                throw new Error("label is required");
+            }
+            if (labels.has(call.label)) {
+                throw new Error("label must be unique within the bundle");
+            }
+            labels.add(call.label);
+            // throws for labels longer than 31 bytes
+            const signature = labelToSignature(call.label);
+
+            const target = registryHelper.resolveAddress(network, call.target);
+            const fragment = ethers.FunctionFragment.from(
+                call.function.trim().startsWith("function ")
+                    ? call.function
+                    : `function ${call.function}`
+            );
+            const args = call.args ?? [];
+            if (args.length !== fragment.inputs.length) {
+                throw new Error(
+                    `${fragment.format()} takes ${
+                        fragment.inputs.length
+                    } argument(s), got ${args.length}`
+                );
+            }
+            const resolvedArgs = fragment.inputs.map((input, i) =>
+                resolveArg(network, input, args[i])
+            );
+            const data = new ethers.Interface([fragment]).encodeFunctionData(
+                fragment,
+                resolvedArgs
+            );
+            calls.push({
+                index,
+                label: call.label,
+                target,
+                function: fragment.format(),
+                args: resolvedArgs,
+                data,
+                signature,
+            });
+        } catch (err: any) {
+            errors.push(`${field}: ${err.shortMessage ?? err.message}`);
+        }
+    });
+
+    return { bundle: { callHelper, calls }, errors };
+}
+
+/**
+ * bundleCallArgs returns the arguments of CallHelper.call for the bundle.
+ */
+function bundleCallArgs(bundle: EncodedBundle): [string[], string[], string[]] {
+    return [
+        bundle.calls.map((call) => call.target),
+        bundle.calls.map((call) => call.data),
+        bundle.calls.map((call) => call.signature),
+    ];
+}
+
+/**
+ * decodeBundleResults matches the Success/Failure events of a CallHelper.call
+ * receipt back to the calls, the contract emits exactly one per call in order.
+ */
+function decodeBundleResults(
+    bundle: EncodedBundle,
+    logs: readonly {
+        address: string;
+        topics: readonly string[];
+        data: string;
+    }[]
+): CallResult[] {
+    const iface = CallHelper__factory.createInterface();
+    const events = logs
+        .filter(
+            (log) =>
+                log.address.toLowerCase() === bundle.callHelper.toLowerCase()
+        )
+        .map((log) => iface.parseLog(log))
+        .filter(
+            (event) => event?.name === "Success" || event?.name === "Failure"
+        );
+    if (events.length !== bundle.calls.length) {
+        throw new Error(
+            `expected ${bundle.calls.length} Success/Failure events, got ${events.length}`
+        );
+    }
+
+    return bundle.calls.map((call, i) => {
+        const event = events[i]!;
+        if (event.args._signature !== call.signature) {
+            throw new Error(
+                `event ${i} carries ${ethers.decodeBytes32String(
+                    event.args._signature
+                )}, expected ${call.label}`
+            );
+        }
+        return {
+            ...call,
+            status: event.name === "Success" ? "success" : "failure",
+        };
+    });
+}
+
+/**
+ * simulateBundle eth_calls every sub-call with CallHelper as sender at the
+ * pending block, recovering the revert reasons CallHelper.call swallows.
+ * Sub-calls are simulated one by one, so the state changes of earlier calls
+ * in the bundle are not applied.
+ */
+async function simulateBundle(
+    provider: ethers.Provider,
+    bundle: EncodedBundle
+): Promise<PreflightResult[]> {
+    const results: PreflightResult[] = [];
+    for (const call of bundle.calls) {
+        const result: PreflightResult = {
+            index: call.index,
+            label: call.label,
+            ok: true,
+        };
+        if ((await provider.getCode(call.target)) === "0x") {
+            result.warning =
+                "target has no code, the call succeeds without any effect";
+        }
+        try {
+            await provider.call({
+                from: bundle.callHelper,
+                to: call.target,
+                data: call.data,
+                blockTag: "pending",
+            });
+        } catch (err: any) {
+            const data = revertHelper.revertDataOf(err);
+            if (data === undefined && !ethers.isError(err, "CALL_EXCEPTION")) {
+                throw err;
+            }
+            result.ok = false;
+            result.revert = await revertHelper.decodeRevert(data);
+            if (call.index > 0) {
+                result.warning =
+                    "simulated without the earlier calls of the bundle, it may depend on them";
+            }
+        }
+        results.push(result);
+    }
+    return results;
+}
+
+export default {
+    readBundleSpec,
+    labelToSignature,
+    encodeBundle,
+    bundleCallArgs,
+    decodeBundleResults,
+    simulateBundle,
+};
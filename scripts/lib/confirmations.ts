@@ -0,0 +1,121 @@
+import { ethers } from "ethers";
+
+// Used by the broadcast phase of offline signing as well, keep this module
+// free of hardhat.
+
+// receipt fields the commands record in their result files
+export interface ReceiptSummary {
+    // 1 for success, 0 for reverted
+    status: number;
+    blockNumber: number;
+    gasUsed: string;
+    // in wei
+    effectiveGasPrice: string;
+    // blocks on top of and including the transaction's block when it was
+    // accepted
+    confirmations: number;
+}
+
+export interface ConfirmedReceipt {
+    receipt: ethers.TransactionReceipt;
+    confirmations: number;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 4000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * validateConfirmations returns the errors of a confirmation count.
+ */
+function validateConfirmations(confirmations: unknown): string[] {
+    return Number.isInteger(confirmations) && (confirmations as number) >= 1
+        ? []
+        : [
+              `confirmations: "${confirmations}" is not a whole number of at least 1`,
+          ];
+}
+
+/**
+ * findReceipt returns the receipt of whichever of the hashes was mined.
+ */
+async function findReceipt(provider: ethers.Provider, hashes: string[]) {
+    for (const hash of hashes) {
+        const receipt = await provider.getTransactionReceipt(hash);
+        if (receipt) {
+            return receipt;
+        }
+    }
+    return null;
+}
+
+/**
+ * waitForConfirmations waits until the mined transaction is the given number
+ * of blocks deep. The receipt is read again on every poll, a reorg may move
+ * the transaction to another block, with another status, or remove it.
+ * @param hashes every hash sent for the transaction's nonce
+ * @returns the receipt in its final block, null when a reorg removed the
+ * transaction from the chain and it has to be waited for again
+ */
+async function waitForConfirmations(
+    provider: ethers.Provider,
+    label: string,
+    hashes: string[],
+    receipt: ethers.TransactionReceipt,
+    confirmations: number,
+    pollMs = DEFAULT_POLL_INTERVAL_MS
+): Promise<ConfirmedReceipt | null> {
+    let current = receipt;
+    let announced = false;
+    for (;;) {
+        const depth =
+            (await provider.getBlockNumber()) - current.blockNumber + 1;
+        const latest = await findReceipt(provider, hashes);
+        if (!latest) {
+            console.warn(
+                `${label}: ${current.hash} was removed from block ${current.blockNumber} by a reorg`
+            );
+            return null;
+        }
+        if (latest.blockHash !== current.blockHash) {
+            console.warn(
+                `${label}: ${latest.hash} moved from block ${current.blockNumber} to ${latest.blockNumber} by a reorg`
+            );
+            current = latest;
+            continue;
+        }
+        if (depth >= confirmations) {
+            return { receipt: latest, confirmations: depth };
+        }
+        if (!announced) {
+            console.log(
+                `${label}: mined in block ${current.blockNumber}, waiting for ${confirmations} confirmations ...`
+            );
+            announced = true;
+        }
+        await sleep(pollMs);
+    }
+}
+
+/**
+ * receiptSummary is the result file record of a confirmed receipt.
+ */
+function receiptSummary({
+    receipt,
+    confirmations,
+}: ConfirmedReceipt): ReceiptSummary {
+    return {
+        status: receipt.status!,
+        blockNumber: receipt.blockNumber,
+        gasUsed: receipt.gasUsed.toString(),
+        effectiveGasPrice: receipt.gasPrice.toString(),
+        confirmations,
+    };
+}
+
+export default {
+    validateConfirmations,
+    findReceipt,
+    waitForConfirmations,
+    receiptSummary,
+};
@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "hardhat";
+import cliHelper from "../cmd/cli-helper";
+
+export interface ManifestStep {
+    name: string;
+    address?: string;
+    txHash?: string;
+    txHashes?: string[];
+    // a contract is recorded once its deploy receipt is confirmed, outDir is
+    // set once its flattened source and verification are written as well
+    outDir?: string;
+    completedAt: number;
+}
+
+export interface DeploymentManifest {
+    network: string;
+    chainId: string;
+    deployer: string;
+    createdAt: number;
+    updatedAt: number;
+    steps: { [name: string]: ManifestStep };
+}
+
+/**
+ * manifestPath returns the location of the per-network deployment manifest,
+ * next to the per-contract deployment output directories.
+ */
+function manifestPath(network: string) {
+    return path.join(".", "out", network, "deployment", "manifest.json");
+}
+
+function loadManifest(network: string): DeploymentManifest | undefined {
+    const filePath = manifestPath(network);
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as DeploymentManifest;
+}
+
+function createManifest(
+    network: string,
+    chainId: bigint,
+    deployer: string
+): DeploymentManifest {
+    const now = +new Date();
+    return {
+        network,
+        chainId: chainId.toString(),
+        deployer,
+        createdAt: now,
+        updatedAt: now,
+        steps: {},
+    };
+}
+
+function saveManifest(manifest: DeploymentManifest) {
+    const filePath = manifestPath(manifest.network);
+    cliHelper.ensureDirExists(path.dirname(filePath));
+    manifest.updatedAt = +new Date();
+    fs.writeFileSync(filePath, JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * archiveManifest moves an existing manifest aside so the next run starts
+ * from scratch, while keeping the old one around for reference.
+ */
+function archiveManifest(network: string) {
+    const filePath = manifestPath(network);
+    if (!fs.existsSync(filePath)) {
+        return;
+    }
+    const archivedPath = filePath.replace(
+        /\.json$/,
+        `.${+new Date()}.archived.json`
+    );
+    fs.renameSync(filePath, archivedPath);
+    console.log(`archived previous manifest to: ${archivedPath}`);
+}
+
+/**
+ * recordStep stores a completed step and persists the manifest immediately,
+ * so a failure in a later step never loses track of what already landed.
+ */
+function recordStep(
+    manifest: DeploymentManifest,
+    step: Omit<ManifestStep, "completedAt">
+) {
+    manifest.steps[step.name] = { ...step, completedAt: +new Date() };
+    saveManifest(manifest);
+}
+
+async function hasCode(address: string) {
+    const code = await ethers.provider.getCode(address);
+    return code !== "0x";
+}
+
+export default {
+    manifestPath,
+    loadManifest,
+    createManifest,
+    saveManifest,
+    archiveManifest,
+    recordStep,
+    hasCode,
+};
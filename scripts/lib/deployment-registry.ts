@@ -0,0 +1,246 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import cliHelper from "../cmd/cli-helper";
+
+export interface RegistryEntry {
+    network: string;
+    contractName: string;
+    // name of the timestamped output directory
+    timestamp: string;
+    outDir: string;
+    address: string;
+    txHash?: string;
+    pinned: boolean;
+}
+
+export interface RegistryPin {
+    timestamp: string;
+    address: string;
+    pinnedAt: number;
+}
+
+export interface RegistryPins {
+    [contractName: string]: RegistryPin;
+}
+
+// directories under out/<network>/deployment that are not contract names
+const NON_CONTRACT_DIRS = ["summary"];
+
+function deploymentDir(network: string) {
+    return path.join(".", "out", network, "deployment");
+}
+
+/**
+ * pinsPath returns the location of the per-network pin file, next to the
+ * deployment manifest.
+ */
+function pinsPath(network: string) {
+    return path.join(deploymentDir(network), "registry.json");
+}
+
+function loadPins(network: string): RegistryPins {
+    const filePath = pinsPath(network);
+    if (!fs.existsSync(filePath)) {
+        return {};
+    }
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as RegistryPins;
+}
+
+function savePins(network: string, pins: RegistryPins) {
+    const filePath = pinsPath(network);
+    cliHelper.ensureDirExists(path.dirname(filePath));
+    fs.writeFileSync(filePath, JSON.stringify(pins, null, 2));
+}
+
+/**
+ * listContracts returns the names of the contracts that have at least one
+ * deployment output directory on the network.
+ */
+function listContracts(network: string): string[] {
+    const dir = deploymentDir(network);
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    return fs
+        .readdirSync(dir, { withFileTypes: true })
+        .filter(
+            (entry) =>
+                entry.isDirectory() && !NON_CONTRACT_DIRS.includes(entry.name)
+        )
+        .map((entry) => entry.name)
+        .filter((name) => history(network, name).length > 0)
+        .sort();
+}
+
+/**
+ * history lists the deployments of a contract on the network, newest first.
+ * Output directories without a result.json carrying an address, e.g. from a
+ * run that failed half way, are left out.
+ */
+function history(network: string, contractName: string): RegistryEntry[] {
+    const dir = path.join(deploymentDir(network), contractName);
+    if (!fs.existsSync(dir)) {
+        return [];
+    }
+    const pin = loadPins(network)[contractName];
+
+    const entries: RegistryEntry[] = [];
+    for (const timestamp of fs.readdirSync(dir)) {
+        const resultPath = path.join(dir, timestamp, "result.json");
+        if (!/^\d+$/.test(timestamp) || !fs.existsSync(resultPath)) {
+            continue;
+        }
+        const result = JSON.parse(fs.readFileSync(resultPath, "utf-8"));
+        if (typeof result.address !== "string") {
+            continue;
+        }
+        entries.push({
+            network,
+            contractName,
+            timestamp,
+            outDir: path.join(dir, timestamp),
+            address: result.address,
+            txHash: result.txHash,
+            pinned: pin?.timestamp === timestamp,
+        });
+    }
+    return entries.sort((a, b) => Number(b.timestamp) - Number(a.timestamp));
+}
+
+/**
+ * resolve returns the current deployment of a contract on the network: the
+ * pinned one if any, otherwise the latest.
+ */
+function resolve(
+    network: string,
+    contractName: string
+): RegistryEntry | undefined {
+    const entries = history(network, contractName);
+    return entries.find((entry) => entry.pinned) ?? entries[0];
+}
+
+function findDeployment(network: string, contractName: string, ref: string) {
+    return history(network, contractName).find(
+        (entry) =>
+            entry.timestamp === ref ||
+            entry.address.toLowerCase() === ref.toLowerCase()
+    );
+}
+
+/**
+ * pin makes a specific deployment the one resolve returns, regardless of
+ * newer deployments of the same contract.
+ * @param ref timestamp of the output directory or address of the deployment
+ */
+function pin(network: string, contractName: string, ref: string) {
+    const entry = findDeployment(network, contractName, ref);
+    if (!entry) {
+        throw new Error(
+            `no deployment of ${contractName} on ${network} matches ${ref}`
+        );
+    }
+    const pins = loadPins(network);
+    pins[contractName] = {
+        timestamp: entry.timestamp,
+        address: entry.address,
+        pinnedAt: +new Date(),
+    };
+    savePins(network, pins);
+    return { ...entry, pinned: true };
+}
+
+/**
+ * unpin drops the pin of a contract so resolve follows the latest deployment
+ * again.
+ * @returns whether a pin was removed
+ */
+function unpin(network: string, contractName: string) {
+    const pins = loadPins(network);
+    if (!pins[contractName]) {
+        return false;
+    }
+    delete pins[contractName];
+    savePins(network, pins);
+    return true;
+}
+
+/**
+ * resolveName looks up a registry name, which is a contract name optionally
+ * followed by @<timestamp> or @<address> to select a specific deployment,
+ * e.g. RewardDistributor or iAIToken@1730000000000.
+ */
+function resolveName(network: string, name: string): RegistryEntry | undefined {
+    const [contractName, ref] = name.split("@");
+    return ref
+        ? findDeployment(network, contractName, ref)
+        : resolve(network, contractName);
+}
+
+/**
+ * resolveAddress accepts either an address or a registry name, see
+ * resolveName.
+ */
+function resolveAddress(network: string, value: string): string {
+    if (ethers.isAddress(value)) {
+        return value;
+    }
+    const name: string = value;
+    if (/^0x/i.test(name)) {
+        throw new Error(`"${name}" is not a valid address`);
+    }
+
+    const entry = resolveName(network, name);
+    if (!entry) {
+        const known = listContracts(network);
+        throw new Error(
+            `"${name}" is neither an address nor a deployment in the ${network} registry` +
+                (known.length > 0 ? ` (known: ${known.join(", ")})` : "")
+        );
+    }
+    console.log(
+        `resolved ${name} to ${entry.address} (${entry.outDir}${
+            entry.pinned ? ", pinned" : ""
+        })`
+    );
+    return entry.address;
+}
+
+/**
+ * resolveInputAddresses replaces registry names in the given input fields
+ * with addresses. Empty fields are left as they are so optional addresses
+ * keep their meaning.
+ * @returns the resolved input and one error per unresolvable field
+ */
+function resolveInputAddresses<T extends object>(
+    network: string,
+    input: T,
+    fields: (keyof T & string)[]
+): { input: T; errors: string[] } {
+    const resolved: T = { ...input };
+    const errors: string[] = [];
+    for (const field of fields) {
+        const value = input[field];
+        if (typeof value !== "string" || value === "") {
+            continue;
+        }
+        try {
+            resolved[field] = resolveAddress(network, value) as T[typeof field];
+        } catch (err: any) {
+            errors.push(`${field}: ${err.message}`);
+        }
+    }
+    return { input: resolved, errors };
+}
+
+export default {
+    pinsPath,
+    listContracts,
+    history,
+    resolve,
+    pin,
+    unpin,
+    resolveName,
+    resolveAddress,
+    resolveInputAddresses,
+};
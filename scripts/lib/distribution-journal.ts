@@ -0,0 +1,106 @@
+import * as fs from "fs";
+import * as path from "path";
+import cliHelper from "../cmd/cli-helper";
+
+export interface JournalChunk {
+    index: number;
+    recipients: string[];
+    // in wei
+    amounts: string[];
+    status: "pending" | "confirmed" | "failed";
+    // nonce reserved for the chunk before it is broadcast
+    nonce: number;
+    // latest attempt, the earlier ones it replaced at the same nonce
+    txHash?: string;
+    replacedTxHashes?: string[];
+    blockNumber?: number;
+    updatedAt: number;
+}
+
+export interface DistributionJournal {
+    network: string;
+    distributor: string;
+    token: string;
+    signer: string;
+    csvPath: string;
+    // the journal belongs to exactly one CSV content
+    csvSha256: string;
+    // no payment of this distribution can be older than this block
+    startBlock: number;
+    createdAt: number;
+    updatedAt: number;
+    chunks: JournalChunk[];
+}
+
+/**
+ * journalPath returns the location of the journal of a distribution, one per
+ * distributor and CSV content so a re-run of the same file resumes it.
+ */
+function journalPath(network: string, distributor: string, csvSha256: string) {
+    return path.join(
+        ".",
+        "out",
+        network,
+        "distribute",
+        "journal",
+        `${distributor}-${csvSha256.slice(0, 16)}.json`
+    );
+}
+
+function loadJournal(
+    network: string,
+    distributor: string,
+    csvSha256: string
+): DistributionJournal | undefined {
+    const filePath = journalPath(network, distributor, csvSha256);
+    if (!fs.existsSync(filePath)) {
+        return undefined;
+    }
+    return JSON.parse(
+        fs.readFileSync(filePath, "utf-8")
+    ) as DistributionJournal;
+}
+
+/**
+ * saveJournal persists the journal immediately, it is written before and
+ * after every broadcast so a crash never loses track of a sent chunk.
+ */
+function saveJournal(journal: DistributionJournal) {
+    const filePath = journalPath(
+        journal.network,
+        journal.distributor,
+        journal.csvSha256
+    );
+    cliHelper.ensureDirExists(path.dirname(filePath));
+    journal.updatedAt = +new Date();
+    fs.writeFileSync(filePath, JSON.stringify(journal, null, 2));
+}
+
+function updateChunk(
+    journal: DistributionJournal,
+    chunk: JournalChunk,
+    update: Partial<JournalChunk>
+) {
+    Object.assign(chunk, update, { updatedAt: +new Date() });
+    saveJournal(journal);
+}
+
+/**
+ * paidRecipients lists the recipients of all confirmed chunks, lowercased.
+ */
+function paidRecipients(journal: DistributionJournal) {
+    return new Set(
+        journal.chunks
+            .filter((chunk) => chunk.status === "confirmed")
+            .flatMap((chunk) => chunk.recipients)
+            .map((recipient) => recipient.toLowerCase())
+    );
+}
+
+export default {
+    journalPath,
+    loadJournal,
+    saveJournal,
+    updateChunk,
+    paidRecipients,
+};
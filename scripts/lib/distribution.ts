@@ -0,0 +1,260 @@
+import { ethers } from "hardhat";
+import { RewardDistributor__factory } from "../../typechain-types";
+import confirmationHelper from "./confirmations";
+import { DistributionJournal, JournalChunk } from "./distribution-journal";
+import txSender from "./tx-sender";
+
+export interface Recipient {
+    line: number;
+    address: string;
+    // in whole tokens, as written in the CSV
+    amount: string;
+    amountWei: bigint;
+}
+
+export interface ChunkLimits {
+    // max recipients per distribute transaction
+    chunkSize: number;
+    // chunks estimated above this are split further
+    maxGasPerChunk: bigint;
+}
+
+const DEFAULT_BLOCK_RANGE = 2000;
+
+/**
+ * parseRecipients reads address,amount rows. Blank lines, # comments and an
+ * address,amount header are skipped; amounts are in whole tokens.
+ * @returns recipients and validation errors, by CSV line number
+ */
+function parseRecipients(content: string, decimals: bigint) {
+    const recipients: Recipient[] = [];
+    const errors: string[] = [];
+    const seen = new Map<string, number>();
+
+    content.split(/\r?\n/).forEach((raw, i) => {
+        const line = i + 1;
+        const text = raw.trim();
+        if (text === "" || text.startsWith("#")) {
+            return;
+        }
+        const columns = text.split(",").map((column) => column.trim());
+        if (
+            recipients.length === 0 &&
+            errors.length === 0 &&
+            /^(address|recipient)$/i.test(columns[0])
+        ) {
+            return;
+        }
+        if (columns.length !== 2) {
+            errors.push(`line ${line}: expected address,amount`);
+            return;
+        }
+
+        const [address, amount] = columns;
+        if (!ethers.isAddress(address)) {
+            errors.push(`line ${line}: "${address}" is not a valid address`);
+            return;
+        }
+        if (ethers.getAddress(address) !== address) {
+            errors.push(
+                `line ${line}: "${address}" is not checksummed, expected ${ethers.getAddress(
+                    address
+                )}`
+            );
+            return;
+        }
+        if (address === ethers.ZeroAddress) {
+            errors.push(`line ${line}: recipient must not be the zero address`);
+            return;
+        }
+        const firstLine = seen.get(address.toLowerCase());
+        if (firstLine !== undefined) {
+            errors.push(
+                `line ${line}: duplicate recipient ${address}, first on line ${firstLine}`
+            );
+            return;
+        }
+        seen.set(address.toLowerCase(), line);
+
+        let amountWei = 0n;
+        try {
+            if (!/^\d+(\.\d+)?$/.test(amount)) {
+                throw new Error();
+            }
+            amountWei = ethers.parseUnits(amount, decimals);
+        } catch (err) {
+            errors.push(`line ${line}: "${amount}" is not a token amount`);
+            return;
+        }
+        if (amountWei === 0n) {
+            errors.push(`line ${line}: amount must be greater than 0`);
+            return;
+        }
+        recipients.push({ line, address, amount, amountWei });
+    });
+
+    if (recipients.length === 0 && errors.length === 0) {
+        errors.push("no recipients");
+    }
+    return { recipients, errors };
+}
+
+/**
+ * nextChunk takes up to chunkSize recipients from the given position and
+ * halves the chunk while its estimate exceeds maxGasPerChunk. A single
+ * recipient is returned whatever its estimate.
+ * @param estimateGas estimates distribute to the chunk's recipients
+ */
+async function nextChunk(
+    remaining: Recipient[],
+    from: number,
+    limits: ChunkLimits,
+    estimateGas: (chunk: Recipient[]) => Promise<bigint>
+) {
+    let size = Math.min(limits.chunkSize, remaining.length - from);
+    for (;;) {
+        const chunk = remaining.slice(from, from + size);
+        const gas = await estimateGas(chunk);
+        if (gas <= limits.maxGasPerChunk || size === 1) {
+            return chunk;
+        }
+        size = Math.ceil(size / 2);
+    }
+}
+
+/**
+ * findChunkPayment looks for the transaction at the chunk's nonce among the
+ * signer's TokensDistributed logs since the journal started, and accepts it
+ * only when it paid exactly the chunk's recipients and amounts.
+ */
+async function findChunkPayment(
+    journal: DistributionJournal,
+    chunk: JournalChunk,
+    blockRange: number
+) {
+    const distributor = RewardDistributor__factory.connect(
+        journal.distributor,
+        ethers.provider
+    );
+    const payments = (recipients: string[], amounts: string[]) =>
+        recipients
+            .map((recipient, i) => `${recipient.toLowerCase()}:${amounts[i]}`)
+            .sort()
+            .join(",");
+    const expected = payments(chunk.recipients, chunk.amounts);
+
+    const latest = await ethers.provider.getBlockNumber();
+    for (let start = journal.startBlock; start <= latest; start += blockRange) {
+        const end = Math.min(start + blockRange - 1, latest);
+        const logs = await distributor.queryFilter(
+            distributor.filters.TokensDistributed(journal.signer),
+            start,
+            end
+        );
+        // a distribute transaction's logs all fall in its block
+        const byTx = new Map<string, typeof logs>();
+        for (const log of logs) {
+            byTx.set(log.transactionHash, [
+                ...(byTx.get(log.transactionHash) ?? []),
+                log,
+            ]);
+        }
+        for (const [txHash, txLogs] of byTx) {
+            const paid = payments(
+                txLogs.map((log) => log.args.recipient),
+                txLogs.map((log) => log.args.amount.toString())
+            );
+            if (paid !== expected) {
+                continue;
+            }
+            const tx = await ethers.provider.getTransaction(txHash);
+            if (tx?.nonce === chunk.nonce) {
+                return { txHash, blockNumber: txLogs[0].blockNumber };
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * resolvePendingChunk finds out what happened to a chunk that was about to be
+ * or had been broadcast when the previous run stopped.
+ * @param blockRange max blocks per eth_getLogs request when searching for
+ * the chunk's payment
+ * @returns the settled chunk fields, failed if it never paid anyone
+ */
+async function resolvePendingChunk(
+    journal: DistributionJournal,
+    chunk: JournalChunk,
+    blockRange = DEFAULT_BLOCK_RANGE
+): Promise<Partial<JournalChunk>> {
+    // any attempt at the chunk's nonce may be the one that was mined
+    for (const txHash of [
+        ...(chunk.txHash ? [chunk.txHash] : []),
+        ...(chunk.replacedTxHashes ?? []),
+    ]) {
+        const tx = await ethers.provider.getTransaction(txHash);
+        if (tx) {
+            console.log(`waiting for chunk ${chunk.index} tx ${txHash} ...`);
+            // the hardhat provider does not implement waitForTransaction
+            const receipt = await tx.wait().catch((err) => {
+                if (ethers.isError(err, "CALL_EXCEPTION")) {
+                    return err.receipt ?? null;
+                }
+                throw err;
+            });
+            if (!receipt) {
+                return { status: "failed" };
+            }
+            const confirmed = await confirmationHelper.waitForConfirmations(
+                ethers.provider,
+                `chunk ${chunk.index}`,
+                [receipt.hash],
+                receipt,
+                txSender.networkConfirmations()
+            );
+            if (!confirmed) {
+                throw new Error(
+                    `chunk ${chunk.index} tx ${txHash} was removed by a reorg, re-run once it is mined again`
+                );
+            }
+            return confirmed.receipt.status === 1
+                ? {
+                      status: "confirmed",
+                      txHash: confirmed.receipt.hash,
+                      blockNumber: confirmed.receipt.blockNumber,
+                  }
+                : { status: "failed" };
+        }
+    }
+
+    // the reserved nonce is still free: the chunk never landed, unless it is
+    // waiting in the mempool under a hash the journal did not get to record
+    const latestNonce = await ethers.provider.getTransactionCount(
+        journal.signer,
+        "latest"
+    );
+    if (latestNonce <= chunk.nonce) {
+        const pendingNonce = await ethers.provider.getTransactionCount(
+            journal.signer,
+            "pending"
+        );
+        if (pendingNonce > chunk.nonce) {
+            throw new Error(
+                `chunk ${chunk.index} may still be pending with nonce ${chunk.nonce}, re-run once it is mined`
+            );
+        }
+        return { status: "failed" };
+    }
+
+    // the nonce was used under a hash the journal did not record, look for
+    // the payment itself
+    const paid = await findChunkPayment(journal, chunk, blockRange);
+    return paid ? { status: "confirmed", ...paid } : { status: "failed" };
+}
+
+export default {
+    parseRecipients,
+    nextChunk,
+    resolvePendingChunk,
+};
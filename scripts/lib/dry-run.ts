@@ -0,0 +1,193 @@
+import { TransactionRequest } from "ethers";
+import { ethers } from "hardhat";
+import * as path from "path";
+import cliHelper from "../cmd/cli-helper";
+
+export interface DryRunStep {
+    name: string;
+    to: string | null;
+    data?: string;
+    value: string;
+    gas?: string;
+    cost?: string;
+    costFormatted?: string;
+    error?: string;
+}
+
+export interface DryRunReport {
+    command: string;
+    network: string;
+    chainId: string;
+    from: string;
+    fromBalance: string;
+    createdAt: number;
+    feeData: {
+        gasPrice?: string;
+        maxFeePerGas?: string;
+        maxPriorityFeePerGas?: string;
+    };
+    // the per-gas price used for every cost in this report
+    pricePerGas: string;
+    steps: DryRunStep[];
+    totalGas: string;
+    totalCost: string;
+    totalCostFormatted: string;
+    // false when at least one step could not be estimated
+    complete: boolean;
+}
+
+async function createDryRunReport(
+    command: string,
+    network: string,
+    from: string
+): Promise<DryRunReport> {
+    const { chainId } = await ethers.provider.getNetwork();
+    const feeData = await ethers.provider.getFeeData();
+    // price against the max fee, so the report is an upper bound for EIP-1559
+    // networks and the plain gas price for legacy ones
+    const pricePerGas = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    return {
+        command,
+        network,
+        chainId: chainId.toString(),
+        from,
+        fromBalance: (await ethers.provider.getBalance(from)).toString(),
+        createdAt: +new Date(),
+        feeData: {
+            gasPrice: feeData.gasPrice?.toString(),
+            maxFeePerGas: feeData.maxFeePerGas?.toString(),
+            maxPriorityFeePerGas: feeData.maxPriorityFeePerGas?.toString(),
+        },
+        pricePerGas: pricePerGas.toString(),
+        steps: [],
+        totalGas: "0",
+        totalCost: "0",
+        totalCostFormatted: "0.0",
+        complete: true,
+    };
+}
+
+/**
+ * estimateStep estimates the gas of a transaction without broadcasting it and
+ * adds it to the report. A failed estimation is recorded on the step instead
+ * of being thrown, so the rest of the plan is still reported.
+ */
+async function estimateStep(
+    report: DryRunReport,
+    name: string,
+    tx: TransactionRequest
+): Promise<DryRunStep> {
+    const step: DryRunStep = {
+        name,
+        to: tx.to ? tx.to.toString() : null,
+        data: tx.data ?? undefined,
+        value: (tx.value ?? 0n).toString(),
+    };
+    try {
+        const gas = await ethers.provider.estimateGas({
+            ...tx,
+            from: report.from,
+        });
+        const cost = gas * BigInt(report.pricePerGas);
+        step.gas = gas.toString();
+        step.cost = cost.toString();
+        step.costFormatted = ethers.formatEther(cost);
+    } catch (err: any) {
+        step.error = err?.shortMessage ?? err?.message ?? String(err);
+    }
+    addStep(report, step);
+    return step;
+}
+
+/**
+ * skipStep records a step whose gas cannot be estimated yet, typically
+ * because it calls a contract that is only deployed earlier in the same run.
+ */
+function skipStep(
+    report: DryRunReport,
+    name: string,
+    tx: TransactionRequest,
+    reason: string
+): DryRunStep {
+    const step: DryRunStep = {
+        name,
+        to: tx.to ? tx.to.toString() : null,
+        data: tx.data ?? undefined,
+        value: (tx.value ?? 0n).toString(),
+        error: reason,
+    };
+    addStep(report, step);
+    return step;
+}
+
+function addStep(report: DryRunReport, step: DryRunStep) {
+    report.steps.push(step);
+    if (step.gas === undefined) {
+        report.complete = false;
+        return;
+    }
+    const totalGas = BigInt(report.totalGas) + BigInt(step.gas);
+    const totalCost = BigInt(report.totalCost) + BigInt(step.cost!);
+    report.totalGas = totalGas.toString();
+    report.totalCost = totalCost.toString();
+    report.totalCostFormatted = ethers.formatEther(totalCost);
+}
+
+function printDryRunReport(report: DryRunReport) {
+    cliHelper.writeHLine();
+    console.log(`dry-run of ${report.command} on ${report.network}`);
+    console.log(
+        "price per gas:",
+        ethers.formatUnits(report.pricePerGas, "gwei"),
+        "gwei"
+    );
+    for (const step of report.steps) {
+        if (step.gas === undefined) {
+            console.log(`- ${step.name}: not estimated (${step.error})`);
+        } else {
+            console.log(
+                `- ${step.name}: ${step.gas} gas, ${step.costFormatted} native`
+            );
+        }
+    }
+    console.log(
+        `total: ${report.totalGas} gas, ${report.totalCostFormatted} native${
+            report.complete ? "" : " (lower bound, some steps not estimated)"
+        }`
+    );
+    if (BigInt(report.fromBalance) < BigInt(report.totalCost)) {
+        console.log(
+            `WARNING: ${report.from} holds only ${ethers.formatEther(
+                report.fromBalance
+            )} native`
+        );
+    }
+    cliHelper.writeHLine();
+}
+
+/**
+ * writeDryRunReport writes the report to
+ * out/<network>/dry-run/<command>/<timestamp>/dry-run-report.json
+ * @returns the output directory
+ */
+function writeDryRunReport(report: DryRunReport) {
+    const outDir = path.join(
+        ".",
+        "out",
+        report.network,
+        "dry-run",
+        report.command,
+        `${report.createdAt}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(report, outDir, "dry-run-report.json");
+    return outDir;
+}
+
+export default {
+    createDryRunReport,
+    estimateStep,
+    skipStep,
+    printDryRunReport,
+    writeDryRunReport,
+};
@@ -0,0 +1,659 @@
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import { Block, Interface, Log } from "ethers";
+import { ethers } from "hardhat";
+import {
+    ERC20__factory,
+    MMVPaymentRouterV1__factory,
+    RewardDistributor__factory,
+    SmartChefInitializable__factory,
+} from "../../typechain-types";
+
+export type SourceKind = "RewardDistributor" | "SmartChef" | "PaymentRouter";
+
+export interface IndexerSource {
+    address: string;
+    name: string;
+    kind: SourceKind;
+    fromBlock: number;
+}
+
+// "in" when the account received the amount, "out" when it paid it
+export type Direction = "in" | "out";
+
+export interface IndexedEvent {
+    blockNumber: number;
+    blockHash: string;
+    // unix timestamp in seconds
+    timestamp: number;
+    txHash: string;
+    logIndex: number;
+    contract: string;
+    contractName: string;
+    event: string;
+    direction: Direction;
+    // the address the amount went to or came from
+    account: string;
+    // the other party, e.g. the distributor that sent a distribution
+    counterparty: string | null;
+    token: string;
+    // in wei
+    amount: string;
+}
+
+export interface EventQuery {
+    account?: string;
+    events?: string[];
+    contract?: string;
+    direction?: Direction;
+    // unix timestamps in seconds, until is exclusive
+    since?: number;
+    until?: number;
+}
+
+export interface TokenInfo {
+    address: string;
+    symbol: string;
+    decimals: number;
+}
+
+export interface EventTotal {
+    event: string;
+    direction: Direction;
+    token: string;
+    symbol: string;
+    count: number;
+    // in wei
+    amount: string;
+}
+
+export interface SyncOptions {
+    // max blocks per eth_getLogs request, public RPCs reject large ranges
+    blockRange?: number;
+    // recent blocks whose hashes are kept to detect reorgs
+    reorgDepth?: number;
+}
+
+export interface SyncResult {
+    fromBlock: number;
+    toBlock: number;
+    inserted: number;
+    // first block that was indexed again after a reorg
+    reorgedFrom?: number;
+}
+
+// every event the indexer stores, the amount is its amount argument except
+// for EmergencyWithdraw, see emergencyWithdrawAmount
+export const INDEXED_EVENTS: { [kind in SourceKind]: string[] } = {
+    RewardDistributor: ["FundsAdded", "TokensDistributed"],
+    SmartChef: ["Deposit", "Withdraw", "EmergencyWithdraw"],
+    PaymentRouter: ["PaymentMade", "AdminTokenWithdrawn"],
+};
+
+const INTERFACES: { [kind in SourceKind]: Interface } = {
+    RewardDistributor: RewardDistributor__factory.createInterface(),
+    SmartChef: SmartChefInitializable__factory.createInterface(),
+    PaymentRouter: MMVPaymentRouterV1__factory.createInterface(),
+};
+
+const DEFAULT_BLOCK_RANGE = 2000;
+const DEFAULT_REORG_DEPTH = 64;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS sources (
+    address TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    -- the single token of the source, null when it varies per event
+    token TEXT,
+    -- first block not indexed yet
+    next_block INTEGER NOT NULL
+);
+CREATE TABLE IF NOT EXISTS tokens (
+    address TEXT PRIMARY KEY,
+    symbol TEXT NOT NULL,
+    decimals INTEGER NOT NULL
+);
+-- hashes of recently indexed blocks, to detect reorgs
+CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    event TEXT NOT NULL,
+    direction TEXT NOT NULL,
+    account TEXT NOT NULL,
+    counterparty TEXT,
+    token TEXT NOT NULL,
+    -- wei as a decimal string, uint256 does not fit an INTEGER
+    amount TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+);
+CREATE INDEX IF NOT EXISTS events_account ON events (account, timestamp);
+CREATE INDEX IF NOT EXISTS events_block ON events (block_number);
+`;
+
+/**
+ * openStore opens or creates the SQLite store and binds it to the chain, a
+ * store is never mixed across chains.
+ * @param chainId of the connected network, left out to only read the store
+ */
+function openStore(dbPath: string, chainId?: bigint) {
+    if (chainId === undefined && !fs.existsSync(dbPath)) {
+        throw new Error(`${dbPath} does not exist, run sync first`);
+    }
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const db = new Database(dbPath);
+    db.pragma("journal_mode = WAL");
+    db.exec(SCHEMA);
+    if (chainId === undefined) {
+        return db;
+    }
+    const stored = db
+        .prepare("SELECT value FROM meta WHERE key = 'chainId'")
+        .get() as { value: string } | undefined;
+    if (!stored) {
+        db.prepare("INSERT INTO meta (key, value) VALUES ('chainId', ?)").run(
+            chainId.toString()
+        );
+    } else if (stored.value !== chainId.toString()) {
+        db.close();
+        throw new Error(
+            `${dbPath} indexes chain ID ${stored.value}, connected to ${chainId}`
+        );
+    }
+    return db;
+}
+
+async function readToken(db: Database.Database, token: string) {
+    if (db.prepare("SELECT 1 FROM tokens WHERE address = ?").get(token)) {
+        return;
+    }
+    const erc20 = ERC20__factory.connect(token, ethers.provider);
+    let symbol = "";
+    let decimals = 18;
+    try {
+        symbol = await erc20.symbol();
+        decimals = Number(await erc20.decimals());
+    } catch {
+        // not a full ERC20, amounts are shown in wei units of 18 decimals
+    }
+    db.prepare(
+        "INSERT INTO tokens (address, symbol, decimals) VALUES (?, ?, ?)"
+    ).run(token, symbol, decimals);
+}
+
+async function sourceToken(source: IndexerSource) {
+    switch (source.kind) {
+        case "RewardDistributor":
+            return await RewardDistributor__factory.connect(
+                source.address,
+                ethers.provider
+            ).rewardToken();
+        case "SmartChef":
+            return await SmartChefInitializable__factory.connect(
+                source.address,
+                ethers.provider
+            ).stakedToken();
+        case "PaymentRouter":
+            return null;
+    }
+}
+
+/**
+ * addSources registers the contracts to index from their fromBlock. A source
+ * that is already registered keeps its progress.
+ */
+async function addSources(db: Database.Database, sources: IndexerSource[]) {
+    for (const source of sources) {
+        const address = ethers.getAddress(source.address);
+        const existing = db
+            .prepare("SELECT kind FROM sources WHERE address = ?")
+            .get(address) as { kind: string } | undefined;
+        if (existing && existing.kind !== source.kind) {
+            throw new Error(
+                `${address} is indexed as ${existing.kind}, not as ${source.kind}`
+            );
+        }
+        if (existing) {
+            db.prepare("UPDATE sources SET name = ? WHERE address = ?").run(
+                source.name,
+                address
+            );
+            continue;
+        }
+        const token = await sourceToken({ ...source, address });
+        if (token) {
+            await readToken(db, token);
+        }
+        db.prepare(
+            "INSERT INTO sources (address, name, kind, token, next_block) VALUES (?, ?, ?, ?, ?)"
+        ).run(address, source.name, source.kind, token, source.fromBlock);
+    }
+}
+
+/**
+ * decodeEvent maps a log onto the stored columns.
+ */
+function decodeEvent(
+    kind: SourceKind,
+    token: string | null,
+    log: Log
+): Omit<
+    IndexedEvent,
+    "blockNumber" | "blockHash" | "timestamp" | "contractName"
+> | null {
+    const parsed = INTERFACES[kind].parseLog(log);
+    if (!parsed || !INDEXED_EVENTS[kind].includes(parsed.name)) {
+        return null;
+    }
+    const { args } = parsed;
+    const base = {
+        txHash: log.transactionHash,
+        logIndex: log.index,
+        contract: ethers.getAddress(log.address),
+        event: parsed.name,
+        amount: args.amount.toString(),
+    };
+    switch (parsed.name) {
+        case "FundsAdded":
+            return {
+                ...base,
+                direction: "out",
+                account: args.admin,
+                counterparty: null,
+                token: token!,
+            };
+        case "TokensDistributed":
+            return {
+                ...base,
+                direction: "in",
+                account: args.recipient,
+                counterparty: args.distributor,
+                token: token!,
+            };
+        case "Deposit":
+            return {
+                ...base,
+                direction: "out",
+                account: args.user,
+                counterparty: null,
+                token: token!,
+            };
+        case "Withdraw":
+        case "EmergencyWithdraw":
+            return {
+                ...base,
+                direction: "in",
+                account: args.user,
+                counterparty: null,
+                token: token!,
+            };
+        case "PaymentMade":
+            // MMVPaymentRouterV1 emits PaymentMade(paymentToken, user, amount)
+            // against its declaration (user, token, amount), the arguments
+            // are swapped on chain
+            return {
+                ...base,
+                direction: "out",
+                account: args.token,
+                counterparty: null,
+                token: args.user,
+            };
+        case "AdminTokenWithdrawn":
+            return {
+                ...base,
+                direction: "in",
+                account: args.to,
+                counterparty: args.caller,
+                token: args.token,
+            };
+    }
+    return null;
+}
+
+/**
+ * emergencyWithdrawAmount reads the amount of an EmergencyWithdraw from the
+ * staked token's Transfer from the pool to the user before it in the same
+ * transaction. SmartChef zeroes user.amount before emitting the event, so
+ * its amount argument is always 0.
+ */
+async function emergencyWithdrawAmount(event: {
+    txHash: string;
+    logIndex: number;
+    contract: string;
+    account: string;
+    token: string;
+}) {
+    const receipt = await ethers.provider.getTransactionReceipt(event.txHash);
+    const erc20 = ERC20__factory.createInterface();
+    const transfer = receipt!.logs
+        .filter(
+            (log) =>
+                log.index < event.logIndex &&
+                ethers.getAddress(log.address) === event.token
+        )
+        .map((log) => erc20.parseLog(log))
+        .reverse()
+        .find(
+            (parsed) =>
+                parsed?.name === "Transfer" &&
+                parsed.args.from === event.contract &&
+                parsed.args.to === event.account
+        );
+    // nothing is transferred when the user had nothing staked
+    return transfer ? transfer.args.value.toString() : "0";
+}
+
+/**
+ * rollBackReorg compares the stored block hashes with the chain, newest
+ * first, and deletes everything after the newest block that still matches so
+ * it is indexed again.
+ * @returns the first block to index again, undefined when there was no reorg
+ */
+async function rollBackReorg(db: Database.Database) {
+    const stored = db
+        .prepare("SELECT number, hash FROM blocks ORDER BY number DESC")
+        .all() as { number: number; hash: string }[];
+    let reorgedFrom: number | undefined;
+    for (const { number, hash } of stored) {
+        const block = await ethers.provider.getBlock(number);
+        if (block?.hash === hash) {
+            break;
+        }
+        reorgedFrom = number;
+    }
+    if (reorgedFrom === undefined) {
+        return undefined;
+    }
+    // the newest matching block is the last one known to be good
+    const good = stored.find(({ number }) => number < reorgedFrom!);
+    const from = good ? good.number + 1 : reorgedFrom;
+    db.transaction(() => {
+        db.prepare("DELETE FROM events WHERE block_number >= ?").run(from);
+        db.prepare("DELETE FROM blocks WHERE number >= ?").run(from);
+        db.prepare("UPDATE sources SET next_block = MIN(next_block, ?)").run(
+            from
+        );
+    })();
+    return from;
+}
+
+async function indexSource(
+    db: Database.Database,
+    source: { address: string; kind: SourceKind; token: string | null },
+    fromBlock: number,
+    toBlock: number,
+    blockRange: number
+) {
+    const kind = source.kind;
+    const topics = INDEXED_EVENTS[kind].map(
+        (name) => INTERFACES[kind].getEvent(name)!.topicHash
+    );
+    const insertEvent = db.prepare(
+        `INSERT OR REPLACE INTO events (block_number, block_hash, timestamp, tx_hash, log_index, contract, event, direction, account, counterparty, token, amount)
+        VALUES (@blockNumber, @blockHash, @timestamp, @txHash, @logIndex, @contract, @event, @direction, @account, @counterparty, @token, @amount)`
+    );
+    const insertBlock = db.prepare(
+        "INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)"
+    );
+    let inserted = 0;
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+        const end = Math.min(start + blockRange - 1, toBlock);
+        const logs = await ethers.provider.getLogs({
+            address: source.address,
+            topics: [topics],
+            fromBlock: start,
+            toBlock: end,
+        });
+        const blocks = new Map<number, Block>();
+        for (const log of logs) {
+            if (!blocks.has(log.blockNumber)) {
+                blocks.set(
+                    log.blockNumber,
+                    (await ethers.provider.getBlock(log.blockNumber))!
+                );
+            }
+        }
+        const rows = logs.flatMap((log) => {
+            const decoded = decodeEvent(kind, source.token, log);
+            if (!decoded) {
+                return [];
+            }
+            const block = blocks.get(log.blockNumber)!;
+            return [
+                {
+                    ...decoded,
+                    blockNumber: log.blockNumber,
+                    blockHash: log.blockHash,
+                    timestamp: block.timestamp,
+                },
+            ];
+        });
+        for (const row of rows) {
+            if (row.event === "EmergencyWithdraw") {
+                row.amount = await emergencyWithdrawAmount(row);
+            }
+        }
+        for (const token of new Set(rows.map((row) => row.token))) {
+            await readToken(db, token);
+        }
+        // the events of a range and the progress past it are stored together,
+        // an interrupted sync resumes at the first range it did not finish
+        db.transaction(() => {
+            for (const row of rows) {
+                insertEvent.run(row);
+            }
+            for (const [number, block] of blocks) {
+                insertBlock.run(number, block.hash);
+            }
+            db.prepare(
+                "UPDATE sources SET next_block = ? WHERE address = ?"
+            ).run(end + 1, source.address);
+        })();
+        inserted += rows.length;
+    }
+    return inserted;
+}
+
+/**
+ * sync rolls back a reorg if there was one, then indexes every source up to
+ * the latest block.
+ */
+async function sync(
+    db: Database.Database,
+    options: SyncOptions = {}
+): Promise<SyncResult> {
+    const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+    const reorgDepth = options.reorgDepth ?? DEFAULT_REORG_DEPTH;
+    const reorgedFrom = await rollBackReorg(db);
+
+    const head = (await ethers.provider.getBlock("latest"))!;
+    const sources = db
+        .prepare("SELECT address, kind, token, next_block FROM sources")
+        .all() as {
+        address: string;
+        kind: SourceKind;
+        token: string | null;
+        next_block: number;
+    }[];
+    const fromBlock = Math.min(
+        ...sources.map((source) => source.next_block),
+        head.number + 1
+    );
+    let inserted = 0;
+    for (const source of sources) {
+        inserted += await indexSource(
+            db,
+            source,
+            source.next_block,
+            head.number,
+            blockRange
+        );
+    }
+
+    db.transaction(() => {
+        db.prepare(
+            "INSERT OR REPLACE INTO blocks (number, hash) VALUES (?, ?)"
+        ).run(head.number, head.hash);
+        db.prepare("DELETE FROM blocks WHERE number < ?").run(
+            head.number - reorgDepth
+        );
+    })();
+    return { fromBlock, toBlock: head.number, inserted, reorgedFrom };
+}
+
+function queryEvents(db: Database.Database, query: EventQuery): IndexedEvent[] {
+    const where: string[] = [];
+    const params: { [name: string]: string | number } = {};
+    if (query.account) {
+        where.push("e.account = @account");
+        params.account = ethers.getAddress(query.account);
+    }
+    if (query.contract) {
+        where.push("e.contract = @contract");
+        params.contract = ethers.getAddress(query.contract);
+    }
+    if (query.direction) {
+        where.push("e.direction = @direction");
+        params.direction = query.direction;
+    }
+    if (query.since !== undefined) {
+        where.push("e.timestamp >= @since");
+        params.since = query.since;
+    }
+    if (query.until !== undefined) {
+        where.push("e.timestamp < @until");
+        params.until = query.until;
+    }
+    if (query.events && query.events.length > 0) {
+        const names = query.events.map((_, i) => `@event${i}`);
+        where.push(`e.event IN (${names.join(", ")})`);
+        query.events.forEach((event, i) => (params[`event${i}`] = event));
+    }
+    return db
+        .prepare(
+            `SELECT e.block_number AS blockNumber, e.block_hash AS blockHash, e.timestamp, e.tx_hash AS txHash,
+                e.log_index AS logIndex, e.contract, s.name AS contractName, e.event, e.direction, e.account,
+                e.counterparty, e.token, e.amount
+            FROM events e JOIN sources s ON s.address = e.contract
+            ${where.length > 0 ? `WHERE ${where.join(" AND ")}` : ""}
+            ORDER BY e.block_number, e.log_index`
+        )
+        .all(params) as IndexedEvent[];
+}
+
+function tokens(db: Database.Database): Map<string, TokenInfo> {
+    const rows = db
+        .prepare("SELECT address, symbol, decimals FROM tokens")
+        .all() as TokenInfo[];
+    return new Map(rows.map((row) => [row.address, row]));
+}
+
+/**
+ * totals sums the amounts per event, direction and token, in wei since SQLite
+ * cannot sum uint256 values exactly.
+ */
+function totals(
+    events: IndexedEvent[],
+    tokenInfo: Map<string, TokenInfo>
+): EventTotal[] {
+    const sums = new Map<string, EventTotal & { wei: bigint }>();
+    for (const event of events) {
+        const key = `${event.event}/${event.direction}/${event.token}`;
+        const total = sums.get(key) ?? {
+            event: event.event,
+            direction: event.direction,
+            token: event.token,
+            symbol: tokenInfo.get(event.token)?.symbol ?? "",
+            count: 0,
+            amount: "0",
+            wei: 0n,
+        };
+        total.count++;
+        total.wei += BigInt(event.amount);
+        sums.set(key, total);
+    }
+    return [...sums.values()].map(({ wei, ...total }) => ({
+        ...total,
+        amount: wei.toString(),
+    }));
+}
+
+function formatAmount(
+    tokenInfo: Map<string, TokenInfo>,
+    token: string,
+    wei: string
+) {
+    return ethers.formatUnits(wei, tokenInfo.get(token)?.decimals ?? 18);
+}
+
+function csvField(value: string | number | null) {
+    const text = value === null ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * toCsv renders the events with both the token amount and the wei amount.
+ */
+function toCsv(events: IndexedEvent[], tokenInfo: Map<string, TokenInfo>) {
+    const header = [
+        "time",
+        "block",
+        "tx_hash",
+        "log_index",
+        "contract",
+        "contract_name",
+        "event",
+        "direction",
+        "account",
+        "counterparty",
+        "token",
+        "symbol",
+        "amount",
+        "amount_wei",
+    ];
+    const lines = events.map((event) =>
+        [
+            new Date(event.timestamp * 1000).toISOString(),
+            event.blockNumber,
+            event.txHash,
+            event.logIndex,
+            event.contract,
+            event.contractName,
+            event.event,
+            event.direction,
+            event.account,
+            event.counterparty,
+            event.token,
+            tokenInfo.get(event.token)?.symbol ?? "",
+            formatAmount(tokenInfo, event.token, event.amount),
+            event.amount,
+        ]
+            .map(csvField)
+            .join(",")
+    );
+    return [header.join(","), ...lines].join("\n") + "\n";
+}
+
+export default {
+    openStore,
+    addSources,
+    sync,
+    queryEvents,
+    tokens,
+    totals,
+    formatAmount,
+    toCsv,
+};
@@ -0,0 +1,44 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+
+// Used by sign-offline on the air-gapped machine, keep this module free of
+// hardhat.
+
+/**
+ * keystoreAddress reads the account of a keystore without decrypting it,
+ * ethers and geth keystores carry it in the clear.
+ */
+function keystoreAddress(keystorePath: string) {
+    const { address } = JSON.parse(fs.readFileSync(keystorePath, "utf-8"));
+    return ethers.getAddress(
+        address.startsWith("0x") ? address : `0x${address}`
+    );
+}
+
+/**
+ * decryptKeystore decrypts an ethers or geth encrypted JSON keystore. A wrong
+ * password is reported as such instead of as the invalid argument error
+ * ethers throws.
+ */
+async function decryptKeystore(keystorePath: string, password: string) {
+    const json = fs.readFileSync(keystorePath, "utf-8");
+    if (!ethers.isKeystoreJson(json)) {
+        throw new Error(`${keystorePath} is not an encrypted JSON keystore`);
+    }
+    try {
+        return await ethers.Wallet.fromEncryptedJson(json, password);
+    } catch (err) {
+        if (
+            ethers.isError(err, "INVALID_ARGUMENT") &&
+            err.argument === "password"
+        ) {
+            throw new Error(`wrong password for keystore ${keystorePath}`);
+        }
+        throw err;
+    }
+}
+
+export default {
+    keystoreAddress,
+    decryptKeystore,
+};
@@ -0,0 +1,156 @@
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface MockExplorerOptions {
+    port?: number;
+    // number of status polls answered with "Pending in queue" per submission
+    pendingPolls?: number;
+    // number of submissions answered as if the code was not indexed yet
+    missingBytecodeSubmissions?: number;
+}
+
+export interface MockSubmission {
+    guid: string;
+    address: string;
+    contractName: string;
+    compilerVersion: string;
+    constructorArguments: string;
+    sourceCode: string;
+    polls: number;
+}
+
+export interface MockExplorer {
+    apiUrl: string;
+    browserUrl: string;
+    submissions: MockSubmission[];
+    verified: Set<string>;
+    close(): Promise<void>;
+}
+
+/**
+ * startMockExplorer serves the subset of the Etherscan contract API used by
+ * hardhat-verify (getsourcecode, verifysourcecode, checkverifystatus), so the
+ * verification flow can run without network access.
+ */
+async function startMockExplorer(
+    options: MockExplorerOptions = {}
+): Promise<MockExplorer> {
+    const pendingPolls = options.pendingPolls ?? 1;
+    let missingBytecodeSubmissions = options.missingBytecodeSubmissions ?? 0;
+    const submissions: MockSubmission[] = [];
+    const verified = new Set<string>();
+
+    const reply = (
+        res: http.ServerResponse,
+        status: "0" | "1",
+        result: any
+    ) => {
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(
+            JSON.stringify({
+                status,
+                message: status === "1" ? "OK" : "NOTOK",
+                result,
+            })
+        );
+    };
+
+    const handle = (res: http.ServerResponse, params: URLSearchParams) => {
+        const action = params.get("action");
+        if (params.get("module") !== "contract") {
+            return reply(res, "0", "Error! Unknown module");
+        }
+
+        if (action === "getsourcecode") {
+            const address = (params.get("address") ?? "").toLowerCase();
+            const submission = submissions.find(
+                (s) => s.address.toLowerCase() === address
+            );
+            return reply(res, "1", [
+                {
+                    SourceCode: verified.has(address)
+                        ? submission?.sourceCode ?? ""
+                        : "",
+                    ContractName: submission?.contractName ?? "",
+                    ConstructorArguments:
+                        submission?.constructorArguments ?? "",
+                },
+            ]);
+        }
+
+        if (action === "verifysourcecode") {
+            const address = params.get("contractaddress") ?? "";
+            if (verified.has(address.toLowerCase())) {
+                return reply(res, "0", "Contract source code already verified");
+            }
+            if (missingBytecodeSubmissions > 0) {
+                missingBytecodeSubmissions--;
+                return reply(
+                    res,
+                    "0",
+                    `Unable to locate ContractCode at ${address}`
+                );
+            }
+            const guid = `mock-${submissions.length + 1}-${+new Date()}`;
+            submissions.push({
+                guid,
+                address,
+                contractName: params.get("contractname") ?? "",
+                compilerVersion: params.get("compilerversion") ?? "",
+                // the Etherscan API spells this parameter this way
+                constructorArguments: params.get("constructorArguements") ?? "",
+                sourceCode: params.get("sourceCode") ?? "",
+                polls: 0,
+            });
+            return reply(res, "1", guid);
+        }
+
+        if (action === "checkverifystatus") {
+            const submission = submissions.find(
+                (s) => s.guid === params.get("guid")
+            );
+            if (!submission) {
+                return reply(res, "0", "Fail - Unable to verify");
+            }
+            submission.polls++;
+            if (submission.polls <= pendingPolls) {
+                return reply(res, "0", "Pending in queue");
+            }
+            verified.add(submission.address.toLowerCase());
+            return reply(res, "1", "Pass - Verified");
+        }
+
+        return reply(res, "0", `Error! Unknown action ${action}`);
+    };
+
+    const server = http.createServer((req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        if (req.method === "POST") {
+            let body = "";
+            req.on("data", (chunk) => (body += chunk));
+            req.on("end", () => handle(res, new URLSearchParams(body)));
+            return;
+        }
+        handle(res, url.searchParams);
+    });
+
+    await new Promise<void>((resolve) =>
+        server.listen(options.port ?? 0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    return {
+        apiUrl: `http://127.0.0.1:${port}/api`,
+        browserUrl: `http://127.0.0.1:${port}`,
+        submissions,
+        verified,
+        close: () =>
+            new Promise<void>((resolve, reject) =>
+                server.close((err) => (err ? reject(err) : resolve()))
+            ),
+    };
+}
+
+export default {
+    startMockExplorer,
+};
@@ -0,0 +1,478 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers } from "ethers";
+import confirmationHelper, { ReceiptSummary } from "./confirmations";
+
+// The signing phase runs on an air-gapped machine, keep this module free of
+// hardhat and of anything that needs a provider to sign.
+
+export interface UnsignedTransaction {
+    // command step the transaction belongs to, e.g. CallHelper or chunk-0
+    step: string;
+    label: string;
+    // predicted CREATE address, for deployments only
+    contractAddress?: string;
+    tx: {
+        type: number;
+        chainId: string;
+        nonce: number;
+        to: string | null;
+        data: string;
+        value: string;
+        gasLimit: string;
+        maxFeePerGas?: string;
+        maxPriorityFeePerGas?: string;
+        gasPrice?: string;
+    };
+}
+
+export interface SignedTransaction extends UnsignedTransaction {
+    hash: string;
+    raw: string;
+}
+
+export interface OfflineBundle<T extends UnsignedTransaction> {
+    command: string;
+    network: string;
+    chainId: string;
+    from: string;
+    // the broadcast phase only accepts the exact input the bundle was built for
+    inputSha256: string;
+    // nonce of the first transaction, the others follow consecutively
+    startNonce: number;
+    // fixed when the bundle is built, shared by all its transactions; an
+    // EIP-1559 network gets type 2 transactions
+    fees: {
+        type: number;
+        maxFeePerGas?: string;
+        maxPriorityFeePerGas?: string;
+        gasPrice?: string;
+    };
+    createdAt: number;
+    signedAt?: number;
+    // command specific state the broadcast phase needs to write its output
+    context?: any;
+    transactions: T[];
+}
+
+export type UnsignedBundle = OfflineBundle<UnsignedTransaction>;
+export type SignedBundle = OfflineBundle<SignedTransaction>;
+
+export interface BroadcastResult extends ReceiptSummary {
+    step: string;
+    label: string;
+    hash: string;
+    contractAddress?: string;
+    // false when the transaction was mined by an earlier broadcast
+    sent: boolean;
+}
+
+// gas limit for calls that cannot be estimated while building, because they
+// depend on an earlier transaction of the same bundle
+export const FALLBACK_GAS_LIMIT = 300_000n;
+
+// estimates are raised by this share, the state may move between the build
+// and the broadcast phase
+const GAS_LIMIT_MARGIN_PERCENT = 20n;
+
+export interface OfflineOptions {
+    dryRun?: boolean;
+    buildUnsigned?: string;
+    from?: string;
+    broadcastSigned?: string;
+}
+
+function sha256(content: string) {
+    return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * validateOfflineOptions checks the --build-unsigned, --from and
+ * --broadcast-signed options shared by the commands supporting offline signing.
+ * @returns list of errors, empty when the combination is valid
+ */
+function validateOfflineOptions(opts: OfflineOptions): string[] {
+    const errors: string[] = [];
+    const modes = [opts.dryRun, opts.buildUnsigned, opts.broadcastSigned];
+    if (modes.filter((mode) => mode).length > 1) {
+        errors.push(
+            "--dry-run, --build-unsigned and --broadcast-signed are exclusive"
+        );
+    }
+    if (opts.buildUnsigned && !opts.from) {
+        errors.push(
+            "--build-unsigned requires --from <offline signer address>"
+        );
+    }
+    if (opts.from && !opts.buildUnsigned) {
+        errors.push("--from is only used with --build-unsigned");
+    }
+    if (opts.from && !ethers.isAddress(opts.from)) {
+        errors.push(`--from: "${opts.from}" is not a valid address`);
+    }
+    return errors;
+}
+
+/**
+ * createUnsignedBundle starts a bundle for the from account at its pending
+ * nonce, every added transaction takes the next one.
+ */
+async function createUnsignedBundle(
+    provider: ethers.Provider,
+    command: string,
+    network: string,
+    from: string,
+    inputContent: string,
+    context?: unknown
+): Promise<UnsignedBundle> {
+    const { chainId } = await provider.getNetwork();
+    const feeData = await provider.getFeeData();
+    return {
+        command,
+        network,
+        chainId: chainId.toString(),
+        from: ethers.getAddress(from),
+        inputSha256: sha256(inputContent),
+        startNonce: await provider.getTransactionCount(from, "pending"),
+        fees:
+            feeData.maxFeePerGas !== null
+                ? {
+                      type: 2,
+                      maxFeePerGas: feeData.maxFeePerGas.toString(),
+                      maxPriorityFeePerGas: (
+                          feeData.maxPriorityFeePerGas ?? 0n
+                      ).toString(),
+                  }
+                : { type: 0, gasPrice: (feeData.gasPrice ?? 0n).toString() },
+        createdAt: +new Date(),
+        context,
+        transactions: [],
+    };
+}
+
+/**
+ * addTransaction appends a transaction with the next nonce. The gas limit is
+ * estimated with a margin, unless given: calls into contracts deployed
+ * earlier in the same bundle cannot be estimated before they exist.
+ */
+async function addTransaction(
+    provider: ethers.Provider,
+    bundle: UnsignedBundle,
+    step: string,
+    label: string,
+    tx: ethers.TransactionRequest,
+    gasLimit?: bigint
+): Promise<UnsignedTransaction> {
+    const nonce = bundle.startNonce + bundle.transactions.length;
+    const to = tx.to ? ethers.getAddress(tx.to as string) : null;
+    const data = ethers.hexlify(tx.data ?? "0x");
+    const value = BigInt(tx.value ?? 0);
+    if (gasLimit === undefined) {
+        const estimate = await provider.estimateGas({
+            from: bundle.from,
+            to,
+            data,
+            value,
+        });
+        gasLimit = (estimate * (100n + GAS_LIMIT_MARGIN_PERCENT)) / 100n;
+    }
+
+    const unsigned: UnsignedTransaction = {
+        step,
+        label,
+        tx: {
+            ...bundle.fees,
+            chainId: bundle.chainId,
+            nonce,
+            to,
+            data,
+            value: value.toString(),
+            gasLimit: gasLimit.toString(),
+        },
+    };
+    if (to === null) {
+        unsigned.contractAddress = ethers.getCreateAddress({
+            from: bundle.from,
+            nonce,
+        });
+    }
+    bundle.transactions.push(unsigned);
+    return unsigned;
+}
+
+function writeBundle(bundle: OfflineBundle<any>, filePath: string) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(bundle, null, 2));
+}
+
+function readBundle<T extends UnsignedTransaction>(
+    filePath: string
+): OfflineBundle<T> {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as OfflineBundle<T>;
+}
+
+/**
+ * maxTransactionCost sums gasLimit times the max price of every transaction.
+ */
+function maxTransactionCost(bundle: OfflineBundle<any>) {
+    return bundle.transactions.reduce(
+        (sum: bigint, { tx }: UnsignedTransaction) =>
+            sum +
+            BigInt(tx.gasLimit) * BigInt(tx.maxFeePerGas ?? tx.gasPrice ?? 0),
+        0n
+    );
+}
+
+/**
+ * signBundle signs every transaction of the bundle with the wallet, which
+ * must be the account the bundle was built for.
+ */
+async function signBundle(
+    bundle: UnsignedBundle,
+    wallet: ethers.Wallet | ethers.HDNodeWallet
+): Promise<SignedBundle> {
+    if (wallet.address !== ethers.getAddress(bundle.from)) {
+        throw new Error(
+            `bundle was built for ${bundle.from}, the key is ${wallet.address}`
+        );
+    }
+    const transactions: SignedTransaction[] = [];
+    for (const unsigned of bundle.transactions) {
+        if (unsigned.tx.chainId !== bundle.chainId) {
+            throw new Error(
+                `${unsigned.label}: chain ID ${unsigned.tx.chainId} does not match the bundle chain ID ${bundle.chainId}`
+            );
+        }
+        const raw = await wallet.signTransaction({
+            ...unsigned.tx,
+            from: wallet.address,
+        });
+        transactions.push({
+            ...unsigned,
+            hash: ethers.keccak256(raw),
+            raw,
+        });
+    }
+    return { ...bundle, signedAt: +new Date(), transactions };
+}
+
+/**
+ * validateSignedBundle checks a signed bundle against the command, chain and
+ * input of the broadcast phase, and every raw transaction against the fields
+ * it claims to carry.
+ * @returns list of errors, empty when the bundle can be broadcast
+ */
+function validateSignedBundle(
+    bundle: SignedBundle,
+    expected: { command: string; chainId: bigint; inputContent: string }
+): string[] {
+    const errors: string[] = [];
+    if (bundle.command !== expected.command) {
+        errors.push(
+            `bundle was built by ${bundle.command}, not ${expected.command}`
+        );
+    }
+    if (bundle.chainId !== expected.chainId.toString()) {
+        errors.push(
+            `bundle is for chain ID ${bundle.chainId}, the network is chain ID ${expected.chainId}`
+        );
+    }
+    if (bundle.inputSha256 !== sha256(expected.inputContent)) {
+        errors.push("bundle was built from a different input file");
+    }
+    if (!bundle.signedAt) {
+        errors.push("bundle is not signed, run sign-offline first");
+        return errors;
+    }
+
+    bundle.transactions.forEach((signed, i) => {
+        try {
+            const parsed = ethers.Transaction.from(signed.raw);
+            if (parsed.from !== ethers.getAddress(bundle.from)) {
+                throw new Error(`signed by ${parsed.from}, not ${bundle.from}`);
+            }
+            if (parsed.hash !== signed.hash) {
+                throw new Error("hash does not match the raw transaction");
+            }
+            if (
+                parsed.nonce !== signed.tx.nonce ||
+                parsed.to !== signed.tx.to ||
+                parsed.data !== signed.tx.data ||
+                parsed.value.toString() !== signed.tx.value ||
+                parsed.chainId.toString() !== bundle.chainId
+            ) {
+                throw new Error("raw transaction differs from the bundle");
+            }
+            if (
+                i > 0 &&
+                signed.tx.nonce !== bundle.transactions[i - 1].tx.nonce + 1
+            ) {
+                throw new Error("nonces are not consecutive");
+            }
+        } catch (err: any) {
+            errors.push(
+                `transactions[${i}] (${signed.label}): ${
+                    err.shortMessage ?? err.message
+                }`
+            );
+        }
+    });
+    return errors;
+}
+
+/**
+ * loadSignedBundle reads a signed bundle for the broadcast phase and
+ * validates it against the connected network.
+ */
+async function loadSignedBundle(
+    provider: ethers.Provider,
+    filePath: string,
+    command: string,
+    inputContent: string
+) {
+    const bundle = readBundle<SignedTransaction>(filePath);
+    const { chainId } = await provider.getNetwork();
+    const errors = validateSignedBundle(bundle, {
+        command,
+        chainId,
+        inputContent,
+    });
+    return { bundle, errors };
+}
+
+/**
+ * sendSignedTransaction broadcasts a signed transaction and waits for the
+ * given confirmations. A transaction mined by an earlier, interrupted
+ * broadcast is not sent again, so the broadcast phase can simply be re-run.
+ */
+async function sendSignedTransaction(
+    provider: ethers.Provider,
+    from: string,
+    signed: SignedTransaction,
+    confirmations = 1
+): Promise<BroadcastResult> {
+    let sent = false;
+    for (;;) {
+        let receipt = await provider.getTransactionReceipt(signed.hash);
+        if (!receipt) {
+            let response = await provider.getTransaction(signed.hash);
+            if (!response) {
+                const nonce = await provider.getTransactionCount(
+                    from,
+                    "latest"
+                );
+                if (nonce > signed.tx.nonce) {
+                    throw new Error(
+                        `${signed.label}: nonce ${signed.tx.nonce} of ${from} was used by another transaction, build and sign the bundle again`
+                    );
+                }
+                response = await provider.broadcastTransaction(signed.raw);
+                sent = true;
+            }
+            // wait throws for reverted transactions, the status check below
+            // reports them
+            receipt = await response.wait().catch((err) => {
+                if (ethers.isError(err, "CALL_EXCEPTION")) {
+                    return err.receipt ?? null;
+                }
+                throw err;
+            });
+        }
+        if (!receipt) {
+            throw new Error(`${signed.label}: no receipt for ${signed.hash}`);
+        }
+
+        // a reorg that removed the transaction puts it back in the mempool,
+        // or drops it, then it is broadcast again
+        const confirmed = await confirmationHelper.waitForConfirmations(
+            provider,
+            signed.label,
+            [signed.hash],
+            receipt,
+            confirmations
+        );
+        if (!confirmed) {
+            continue;
+        }
+        if (confirmed.receipt.status !== 1) {
+            throw new Error(
+                `${signed.label}: tx ${signed.hash} reverted in block ${confirmed.receipt.blockNumber} after using ${confirmed.receipt.gasUsed} gas`
+            );
+        }
+        return {
+            step: signed.step,
+            label: signed.label,
+            hash: signed.hash,
+            contractAddress: confirmed.receipt.contractAddress ?? undefined,
+            ...confirmationHelper.receiptSummary(confirmed),
+            sent,
+        };
+    }
+}
+
+/**
+ * broadcastBundle sends the transactions in nonce order, stopping at the
+ * first one that reverts.
+ */
+async function broadcastBundle(
+    provider: ethers.Provider,
+    bundle: SignedBundle,
+    confirmations = 1
+): Promise<BroadcastResult[]> {
+    const results: BroadcastResult[] = [];
+    for (const signed of bundle.transactions) {
+        const result = await sendSignedTransaction(
+            provider,
+            bundle.from,
+            signed,
+            confirmations
+        );
+        console.log(
+            `${result.sent ? "sent" : "already mined"}: ${
+                result.label
+            } with tx: ${result.hash}`
+        );
+        results.push(result);
+    }
+    return results;
+}
+
+/**
+ * feeWarning tells when the base fee has risen above the signed max fee,
+ * such transactions wait in the mempool until it drops again.
+ */
+async function feeWarning(provider: ethers.Provider, bundle: SignedBundle) {
+    const maxFee = bundle.transactions[0]?.tx.maxFeePerGas;
+    const block = await provider.getBlock("latest");
+    if (
+        maxFee !== undefined &&
+        block?.baseFeePerGas != null &&
+        block.baseFeePerGas > BigInt(maxFee)
+    ) {
+        return `base fee ${ethers.formatUnits(
+            block.baseFeePerGas,
+            "gwei"
+        )} gwei is above the signed max fee ${ethers.formatUnits(
+            maxFee,
+            "gwei"
+        )} gwei, the transactions are not mined until it drops`;
+    }
+    return undefined;
+}
+
+export default {
+    sha256,
+    validateOfflineOptions,
+    createUnsignedBundle,
+    addTransaction,
+    writeBundle,
+    readBundle,
+    maxTransactionCost,
+    signBundle,
+    validateSignedBundle,
+    loadSignedBundle,
+    sendSignedTransaction,
+    broadcastBundle,
+    feeWarning,
+};
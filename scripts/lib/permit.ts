@@ -0,0 +1,232 @@
+import * as fs from "fs";
+import { ethers } from "ethers";
+import { ERC20Permit__factory } from "../../typechain-types";
+
+export interface PermitMessage {
+    owner: string;
+    spender: string;
+    value: string;
+    nonce: string;
+    // unix timestamp in seconds
+    deadline: string;
+}
+
+export interface SignedPermit {
+    token: string;
+    domain: {
+        name: string;
+        version: string;
+        chainId: string;
+        verifyingContract: string;
+    };
+    message: PermitMessage;
+    signature: string;
+    signedAt: number;
+}
+
+const PERMIT_TYPES = {
+    Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/**
+ * supportsPermit tells whether the token implements EIP-2612 and publishes
+ * its EIP-712 domain (ERC-5267), which is what the domain is built from.
+ */
+async function supportsPermit(provider: ethers.Provider, token: string) {
+    const contract = ERC20Permit__factory.connect(token, provider);
+    try {
+        await contract.nonces(ethers.ZeroAddress);
+        await contract.DOMAIN_SEPARATOR();
+        await contract.eip712Domain();
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * permitDomain reads the EIP-712 domain of the token on the connected network
+ * and checks it against the token's DOMAIN_SEPARATOR.
+ */
+async function permitDomain(provider: ethers.Provider, token: string) {
+    const contract = ERC20Permit__factory.connect(token, provider);
+    const { name, version, chainId, verifyingContract } =
+        await contract.eip712Domain();
+    const domain = {
+        name,
+        version,
+        chainId: chainId.toString(),
+        verifyingContract: ethers.getAddress(verifyingContract),
+    };
+    if (
+        ethers.TypedDataEncoder.hashDomain(domain) !==
+        (await contract.DOMAIN_SEPARATOR())
+    ) {
+        throw new Error(
+            `EIP-712 domain of ${token} does not match its DOMAIN_SEPARATOR`
+        );
+    }
+    return domain;
+}
+
+/**
+ * chainTime returns the earliest timestamp the next block can have: the
+ * latest block lags behind the clock on an idle chain and the local clock
+ * lags behind a chain whose time was moved forward.
+ */
+async function chainTime(provider: ethers.Provider) {
+    const latest = await provider.getBlock("latest");
+    return BigInt(Math.max(latest!.timestamp, Math.floor(Date.now() / 1000)));
+}
+
+/**
+ * deadlineIn returns the deadline the given minutes from now, see chainTime.
+ */
+async function deadlineIn(provider: ethers.Provider, minutes: number) {
+    return (await chainTime(provider)) + BigInt(Math.ceil(minutes * 60));
+}
+
+/**
+ * signPermit signs a permit for the signer's next nonce on the token.
+ * @param deadline unix timestamp in seconds
+ */
+async function signPermit(
+    signer: ethers.Signer,
+    token: string,
+    spender: string,
+    value: bigint,
+    deadline: bigint
+): Promise<SignedPermit> {
+    const provider = signer.provider!;
+    const owner = await signer.getAddress();
+    const domain = await permitDomain(provider, token);
+    const nonce = await ERC20Permit__factory.connect(token, provider).nonces(
+        owner
+    );
+    const message: PermitMessage = {
+        owner,
+        spender: ethers.getAddress(spender),
+        value: value.toString(),
+        nonce: nonce.toString(),
+        deadline: deadline.toString(),
+    };
+    return {
+        token: ethers.getAddress(token),
+        domain,
+        message,
+        signature: await signer.signTypedData(domain, PERMIT_TYPES, message),
+        signedAt: +new Date(),
+    };
+}
+
+/**
+ * recoverPermitSigner returns the account that signed the permit.
+ */
+function recoverPermitSigner(permit: SignedPermit) {
+    return ethers.verifyTypedData(
+        permit.domain,
+        PERMIT_TYPES,
+        permit.message,
+        permit.signature
+    );
+}
+
+/**
+ * verifyPermit checks locally that the token would accept the permit now:
+ * the domain of this network, the owner's signature, the owner's current
+ * nonce and an open deadline.
+ * @returns errors, empty when the permit is valid
+ */
+async function verifyPermit(
+    provider: ethers.Provider,
+    permit: SignedPermit
+): Promise<string[]> {
+    const errors: string[] = [];
+    const { chainId } = await provider.getNetwork();
+    if (permit.domain.chainId !== chainId.toString()) {
+        errors.push(
+            `permit was signed for chain ID ${permit.domain.chainId}, connected to ${chainId}`
+        );
+        return errors;
+    }
+    if (!(await supportsPermit(provider, permit.token))) {
+        errors.push(`${permit.token} does not support EIP-2612 permits`);
+        return errors;
+    }
+    const domain = await permitDomain(provider, permit.token);
+    if (
+        ethers.TypedDataEncoder.hashDomain(permit.domain) !==
+        ethers.TypedDataEncoder.hashDomain(domain)
+    ) {
+        errors.push(`permit domain differs from the domain of ${permit.token}`);
+    }
+
+    let signer: string | undefined;
+    try {
+        signer = recoverPermitSigner(permit);
+    } catch (err: any) {
+        errors.push(`invalid signature: ${err.shortMessage ?? err.message}`);
+    }
+    if (signer && signer !== ethers.getAddress(permit.message.owner)) {
+        errors.push(
+            `permit is signed by ${signer}, not by its owner ${permit.message.owner}`
+        );
+    }
+
+    const nonce = await ERC20Permit__factory.connect(
+        permit.token,
+        provider
+    ).nonces(permit.message.owner);
+    if (nonce.toString() !== permit.message.nonce) {
+        errors.push(
+            `permit nonce ${permit.message.nonce} is not the owner's current nonce ${nonce}, it was used or superseded`
+        );
+    }
+    if (BigInt(permit.message.deadline) < (await chainTime(provider))) {
+        errors.push(
+            `permit deadline ${new Date(
+                Number(permit.message.deadline) * 1000
+            ).toISOString()} has passed`
+        );
+    }
+    return errors;
+}
+
+/**
+ * permitTransaction encodes the token's permit call, which anyone can send.
+ */
+async function permitTransaction(
+    permit: SignedPermit
+): Promise<ethers.TransactionRequest> {
+    const { v, r, s } = ethers.Signature.from(permit.signature);
+    const { owner, spender, value, deadline } = permit.message;
+    return ERC20Permit__factory.connect(
+        permit.token
+    ).permit.populateTransaction(owner, spender, value, deadline, v, r, s);
+}
+
+function writePermit(permit: SignedPermit, filePath: string) {
+    fs.writeFileSync(filePath, JSON.stringify(permit, null, 2));
+}
+
+function readPermit(filePath: string): SignedPermit {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as SignedPermit;
+}
+
+export default {
+    supportsPermit,
+    permitDomain,
+    deadlineIn,
+    signPermit,
+    recoverPermitSigner,
+    verifyPermit,
+    permitTransaction,
+    writePermit,
+    readPermit,
+};
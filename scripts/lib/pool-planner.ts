@@ -0,0 +1,307 @@
+import { ethers } from "hardhat";
+import adminHelper, { PoolState } from "./smartchef-admin";
+
+export interface BlockTimeSample {
+    // the average is measured from fromBlock to latestBlock
+    fromBlock: number;
+    latestBlock: number;
+    // unix timestamp in seconds of latestBlock, dates are projected from it
+    latestTimestamp: number;
+    secondsPerBlock: number;
+}
+
+// successor: deploy a new pool through the factory, the only way to keep
+// rewarding once a pool has started. reschedule: move the blocks of a pool
+// that has not started yet with updateStartAndEndBlocks
+export type PlanKind = "successor" | "reschedule";
+
+export interface PlanTarget {
+    kind?: PlanKind;
+    // run the program this many days longer, from the current end block
+    // for a reschedule and from the successor's start block otherwise
+    extendDays?: number;
+    // unix timestamp in seconds to end at, instead of extendDays
+    endTime?: number;
+    // unix timestamp in seconds to start at, defaults to the current start
+    // block for a reschedule and to the current end block for a successor
+    startTime?: number;
+    // in wei, defaults to the pool's rewardPerBlock
+    rewardPerBlock?: bigint;
+    // a successor starts at least this many blocks after the current block,
+    // leaving time to deploy it
+    leadBlocks?: number;
+}
+
+export interface ExtensionPlan {
+    kind: PlanKind;
+    pool: string;
+    // block the pool state was read at
+    blockNumber: number;
+    secondsPerBlock: number;
+    startBlock: number;
+    bonusEndBlock: number;
+    // projected with the measured block time
+    estimatedStart: string;
+    estimatedEnd: string;
+    // amounts in wei of the reward token
+    rewardPerBlock: string;
+    // (bonusEndBlock - startBlock) * rewardPerBlock
+    rewardsNeeded: string;
+    // reward tokens the pool already holds, counted for a reschedule only,
+    // the factory pulls the full amount for a successor
+    rewardsHeld: string;
+    // reward tokens to send, to the pool before a reschedule or to the
+    // deployer's allowance for a successor
+    topUp: string;
+    // reward tokens held beyond the rewards needed after a reschedule
+    excess: string;
+}
+
+/**
+ * measureBlockTime averages the block time over the last sampleBlocks blocks.
+ */
+async function measureBlockTime(
+    sampleBlocks: number
+): Promise<BlockTimeSample> {
+    const latest = await ethers.provider.getBlock("latest");
+    const fromBlock = Math.max(0, latest!.number - sampleBlocks);
+    const from = await ethers.provider.getBlock(fromBlock);
+    const blocks = latest!.number - fromBlock;
+    const seconds = latest!.timestamp - from!.timestamp;
+    if (blocks === 0 || seconds <= 0) {
+        throw new Error(
+            `cannot measure the block time from block ${fromBlock} to ${
+                latest!.number
+            }`
+        );
+    }
+    return {
+        fromBlock,
+        latestBlock: latest!.number,
+        latestTimestamp: latest!.timestamp,
+        secondsPerBlock: seconds / blocks,
+    };
+}
+
+/**
+ * blockAt projects the first block mined at or after the timestamp.
+ */
+function blockAt(sample: BlockTimeSample, timestamp: number) {
+    return (
+        sample.latestBlock +
+        Math.ceil((timestamp - sample.latestTimestamp) / sample.secondsPerBlock)
+    );
+}
+
+/**
+ * timeAt projects the timestamp a block is mined at.
+ */
+function timeAt(sample: BlockTimeSample, blockNumber: number) {
+    return Math.round(
+        sample.latestTimestamp +
+            (blockNumber - sample.latestBlock) * sample.secondsPerBlock
+    );
+}
+
+function blocksIn(sample: BlockTimeSample, seconds: number) {
+    return Math.round(seconds / sample.secondsPerBlock);
+}
+
+const hasStarted = (state: PoolState) =>
+    state.blockNumber + 1 >= state.startBlock;
+
+function validateTarget(target: PlanTarget): string[] {
+    const errors: string[] = [];
+    if ((target.extendDays === undefined) === (target.endTime === undefined)) {
+        errors.push("set either extendDays or endDate");
+    }
+    if (
+        target.extendDays !== undefined &&
+        !(typeof target.extendDays === "number" && target.extendDays > 0)
+    ) {
+        errors.push("extendDays: must be a positive number");
+    }
+    if (
+        target.leadBlocks !== undefined &&
+        !(Number.isInteger(target.leadBlocks) && target.leadBlocks > 0)
+    ) {
+        errors.push("leadBlocks: must be a positive whole number");
+    }
+    if (target.rewardPerBlock !== undefined && target.rewardPerBlock <= 0n) {
+        errors.push("rewardPerBlock: must be positive");
+    }
+    return errors;
+}
+
+/**
+ * planExtension picks the blocks and the reward funding to run the pool's
+ * program until the target. A started pool can only be followed by a
+ * successor, updateStartAndEndBlocks reverts with "Pool has started".
+ */
+function planExtension(
+    state: PoolState,
+    sample: BlockTimeSample,
+    target: PlanTarget
+): { plan?: ExtensionPlan; errors: string[] } {
+    const errors = validateTarget(target);
+    if (errors.length > 0) {
+        return { errors };
+    }
+    const kind =
+        target.kind ?? (hasStarted(state) ? "successor" : "reschedule");
+    const rewardPerBlock =
+        target.rewardPerBlock ?? BigInt(state.rewardPerBlock);
+
+    let startBlock: number;
+    if (target.startTime !== undefined) {
+        startBlock = blockAt(sample, target.startTime);
+    } else if (kind === "reschedule") {
+        startBlock = state.startBlock;
+    } else {
+        startBlock = Math.max(
+            state.bonusEndBlock,
+            state.blockNumber + (target.leadBlocks ?? 1)
+        );
+    }
+    const bonusEndBlock =
+        target.endTime !== undefined
+            ? blockAt(sample, target.endTime)
+            : (kind === "reschedule"
+                  ? Math.max(state.bonusEndBlock, startBlock)
+                  : startBlock) +
+              blocksIn(sample, target.extendDays! * 24 * 3600);
+
+    if (kind === "reschedule") {
+        errors.push(
+            ...adminHelper.checkUpdateStartAndEndBlocks(
+                state,
+                startBlock,
+                bonusEndBlock
+            )
+        );
+        if (rewardPerBlock !== BigInt(state.rewardPerBlock)) {
+            errors.push(...adminHelper.checkUpdateRewardPerBlock(state));
+        }
+    } else {
+        // the checks of deploy-smartchef-pool
+        if (!(startBlock < bonusEndBlock)) {
+            errors.push(
+                `startBlock must be lower than bonusEndBlock: ${startBlock} >= ${bonusEndBlock}`
+            );
+        }
+        if (!(startBlock > state.blockNumber)) {
+            errors.push(
+                `startBlock must be higher than the current block: ${startBlock} <= ${state.blockNumber}`
+            );
+        }
+    }
+    // the messages repeat across the checks, e.g. "Pool has started"
+    const uniqueErrors = [...new Set(errors)];
+    if (uniqueErrors.length > 0) {
+        return { errors: uniqueErrors };
+    }
+
+    const rewardsNeeded = BigInt(bonusEndBlock - startBlock) * rewardPerBlock;
+    const rewardsHeld =
+        kind === "reschedule" ? BigInt(state.rewardBalance) : 0n;
+    const toISO = (blockNumber: number) =>
+        new Date(timeAt(sample, blockNumber) * 1000).toISOString();
+    return {
+        plan: {
+            kind,
+            pool: state.pool,
+            blockNumber: state.blockNumber,
+            secondsPerBlock: sample.secondsPerBlock,
+            startBlock,
+            bonusEndBlock,
+            estimatedStart: toISO(startBlock),
+            estimatedEnd: toISO(bonusEndBlock),
+            rewardPerBlock: rewardPerBlock.toString(),
+            rewardsNeeded: rewardsNeeded.toString(),
+            rewardsHeld: rewardsHeld.toString(),
+            topUp: (rewardsNeeded > rewardsHeld
+                ? rewardsNeeded - rewardsHeld
+                : 0n
+            ).toString(),
+            excess: (rewardsHeld > rewardsNeeded
+                ? rewardsHeld - rewardsNeeded
+                : 0n
+            ).toString(),
+        },
+        errors: [],
+    };
+}
+
+/**
+ * commandInputs returns the input files of the commands that carry out the
+ * plan, keyed by file name: deploy-smartchef-pool for a successor, the
+ * smartchef-admin updates for a reschedule.
+ * @param factory the SmartChefFactory that deployed the pool
+ */
+function commandInputs(
+    state: PoolState,
+    plan: ExtensionPlan,
+    factory: string
+): { [fileName: string]: {} } {
+    const reward = (wei: string) =>
+        ethers.formatUnits(wei, state.rewardDecimals);
+    const symbol = state.rewardSymbol;
+    if (plan.kind === "successor") {
+        return {
+            "smartchef-pool.json": {
+                __comment: `Successor of pool ${plan.pool} planned at block ${
+                    plan.blockNumber
+                }, run with deploy-smartchef-pool. The deployer needs ${reward(
+                    plan.rewardsNeeded
+                )} ${symbol}, the factory pulls them on deployPool`,
+                factory,
+                stakedToken: state.stakedToken,
+                rewardToken: state.rewardToken,
+                rewardPerBlock: reward(plan.rewardPerBlock),
+                startBlock: plan.startBlock,
+                bonusEndBlock: plan.bonusEndBlock,
+                poolLimitPerUser: state.hasUserLimit
+                    ? ethers.formatUnits(
+                          state.poolLimitPerUser,
+                          state.stakedDecimals
+                      )
+                    : "0",
+                admin: state.owner,
+            },
+        };
+    }
+    const inputs: { [fileName: string]: {} } = {
+        "smartchef-admin-start-and-end-blocks.json": {
+            __comment: `Reschedule of pool ${plan.pool} planned at block ${
+                plan.blockNumber
+            }, run with smartchef-admin update-start-and-end-blocks before block ${
+                state.startBlock
+            }. ${
+                plan.topUp === "0"
+                    ? "The pool holds the rewards needed"
+                    : `Transfer ${reward(
+                          plan.topUp
+                      )} ${symbol} to the pool first`
+            }`,
+            pool: plan.pool,
+            startBlock: plan.startBlock,
+            bonusEndBlock: plan.bonusEndBlock,
+        },
+    };
+    if (plan.rewardPerBlock !== state.rewardPerBlock) {
+        inputs["smartchef-admin-reward-per-block.json"] = {
+            __comment: `Reward rate of the reschedule of pool ${plan.pool}, run with smartchef-admin update-reward-per-block before block ${state.startBlock}`,
+            pool: plan.pool,
+            rewardPerBlock: reward(plan.rewardPerBlock),
+        };
+    }
+    return inputs;
+}
+
+export default {
+    measureBlockTime,
+    blockAt,
+    timeAt,
+    planExtension,
+    commandInputs,
+};
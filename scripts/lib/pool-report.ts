@@ -0,0 +1,296 @@
+import { ethers } from "hardhat";
+import {
+    ERC20__factory,
+    SmartChefFactory__factory,
+    SmartChefInitializable__factory,
+} from "../../typechain-types";
+
+export type PoolStatus = "pending" | "active" | "ended" | "stopped";
+
+export interface TokenInfo {
+    address: string;
+    symbol: string;
+    decimals: number;
+}
+
+// amounts are in wei of the token they refer to
+export interface PoolEntry {
+    address: string;
+    createdAtBlock: number;
+    createdTx: string;
+    owner: string;
+    stakedToken: TokenInfo;
+    rewardToken: TokenInfo;
+    rewardPerBlock: string;
+    startBlock: number;
+    bonusEndBlock: number;
+    lastRewardBlock: number;
+    hasUserLimit: boolean;
+    poolLimitPerUser: string;
+    status: PoolStatus;
+    // accounts with a stake
+    stakers: number;
+    stakedSupply: string;
+    // reward tokens held for rewards, without the stakes when the staked
+    // token is the reward token
+    rewardBalance: string;
+    // pendingReward summed over every depositor
+    accruedRewards: string;
+    // rewardPerBlock for each block left until bonusEndBlock
+    futureEmissions: string;
+    liabilities: string;
+    // rewardBalance minus liabilities, negative when underfunded
+    surplus: string;
+    underfunded: boolean;
+}
+
+export interface PoolReport {
+    network: string;
+    chainId: string;
+    factory: string;
+    // every read is made at this block
+    blockNumber: number;
+    createdAt: number;
+    pools: PoolEntry[];
+    underfunded: number;
+}
+
+export interface ReportOptions {
+    // block the factory was deployed at, or earlier
+    fromBlock: number;
+    // max blocks per eth_getLogs request, public RPCs reject large ranges
+    blockRange?: number;
+}
+
+const DEFAULT_BLOCK_RANGE = 5000;
+
+async function queryInChunks<T>(
+    fromBlock: number,
+    toBlock: number,
+    blockRange: number,
+    query: (start: number, end: number) => Promise<T[]>
+) {
+    const results: T[] = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+        results.push(
+            ...(await query(start, Math.min(start + blockRange - 1, toBlock)))
+        );
+    }
+    return results;
+}
+
+async function tokenInfo(address: string): Promise<TokenInfo> {
+    const token = ERC20__factory.connect(address, ethers.provider);
+    return {
+        address,
+        symbol: await token.symbol(),
+        decimals: Number(await token.decimals()),
+    };
+}
+
+/**
+ * poolStatus tells a pool stopped with stopReward apart from one that ran to
+ * its end block, stopReward moves the end block to the block it is mined in.
+ */
+function poolStatus(
+    blockNumber: number,
+    startBlock: number,
+    bonusEndBlock: number,
+    lastStopBlock?: number
+): PoolStatus {
+    if (lastStopBlock === bonusEndBlock) {
+        return "stopped";
+    }
+    if (blockNumber < startBlock) {
+        return "pending";
+    }
+    return blockNumber < bonusEndBlock ? "active" : "ended";
+}
+
+/**
+ * inspectPool reads the pool's configuration at the block and compares its
+ * reward balance against what it owes: the rewards accrued to the stakers and
+ * the emissions still to come until the end block.
+ */
+async function inspectPool(
+    address: string,
+    created: { blockNumber: number; txHash: string },
+    blockNumber: number,
+    blockRange: number
+): Promise<PoolEntry> {
+    const chef = SmartChefInitializable__factory.connect(
+        address,
+        ethers.provider
+    );
+    const at = { blockTag: blockNumber };
+    const stakedToken = await tokenInfo(await chef.stakedToken(at));
+    const rewardToken = await tokenInfo(await chef.rewardToken(at));
+    const rewardPerBlock = await chef.rewardPerBlock(at);
+    const startBlock = Number(await chef.startBlock(at));
+    const bonusEndBlock = Number(await chef.bonusEndBlock(at));
+    const lastRewardBlock = Number(await chef.lastRewardBlock(at));
+
+    const [deposits, stops] = await Promise.all([
+        queryInChunks(created.blockNumber, blockNumber, blockRange, (s, e) =>
+            chef.queryFilter(chef.filters.Deposit(), s, e)
+        ),
+        queryInChunks(created.blockNumber, blockNumber, blockRange, (s, e) =>
+            chef.queryFilter(chef.filters.RewardsStop(), s, e)
+        ),
+    ]);
+    let stakers = 0;
+    let staked = 0n;
+    let accrued = 0n;
+    for (const user of new Set(deposits.map((log) => log.args.user))) {
+        const { amount } = await chef.userInfo(user, at);
+        if (amount > 0n) {
+            stakers++;
+            staked += amount;
+        }
+        accrued += await chef.pendingReward(user, at);
+    }
+
+    const sameToken = stakedToken.address === rewardToken.address;
+    const rewardHeld = await ERC20__factory.connect(
+        rewardToken.address,
+        ethers.provider
+    ).balanceOf(address, at);
+    const rewardBalance = sameToken ? rewardHeld - staked : rewardHeld;
+    const stakedSupply = sameToken
+        ? staked
+        : await ERC20__factory.connect(
+              stakedToken.address,
+              ethers.provider
+          ).balanceOf(address, at);
+
+    // pendingReward counts up to the block, the emissions after it are owed
+    // in full whether or not anyone stakes by then
+    const from = Math.max(blockNumber, lastRewardBlock);
+    const future =
+        bonusEndBlock > from
+            ? BigInt(bonusEndBlock - from) * rewardPerBlock
+            : 0n;
+    const liabilities = accrued + future;
+    return {
+        address: ethers.getAddress(address),
+        createdAtBlock: created.blockNumber,
+        createdTx: created.txHash,
+        owner: await chef.owner(at),
+        stakedToken,
+        rewardToken,
+        rewardPerBlock: rewardPerBlock.toString(),
+        startBlock,
+        bonusEndBlock,
+        lastRewardBlock,
+        hasUserLimit: await chef.hasUserLimit(at),
+        poolLimitPerUser: (await chef.poolLimitPerUser(at)).toString(),
+        status: poolStatus(
+            blockNumber,
+            startBlock,
+            bonusEndBlock,
+            stops.at(-1)?.blockNumber
+        ),
+        stakers,
+        stakedSupply: stakedSupply.toString(),
+        rewardBalance: rewardBalance.toString(),
+        accruedRewards: accrued.toString(),
+        futureEmissions: future.toString(),
+        liabilities: liabilities.toString(),
+        surplus: (rewardBalance - liabilities).toString(),
+        underfunded: rewardBalance < liabilities,
+    };
+}
+
+/**
+ * reportPools enumerates every pool the factory deployed from its
+ * NewSmartChefContract logs and inspects each of them at the latest block.
+ */
+async function reportPools(
+    network: string,
+    factory: string,
+    options: ReportOptions
+): Promise<PoolReport> {
+    const blockRange = options.blockRange ?? DEFAULT_BLOCK_RANGE;
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const factoryContract = SmartChefFactory__factory.connect(
+        factory,
+        ethers.provider
+    );
+    const created = await queryInChunks(
+        options.fromBlock,
+        blockNumber,
+        blockRange,
+        (start, end) =>
+            factoryContract.queryFilter(
+                factoryContract.filters.NewSmartChefContract(),
+                start,
+                end
+            )
+    );
+    const pools: PoolEntry[] = [];
+    for (const log of created) {
+        pools.push(
+            await inspectPool(
+                log.args.smartChef,
+                { blockNumber: log.blockNumber, txHash: log.transactionHash },
+                blockNumber,
+                blockRange
+            )
+        );
+    }
+    return {
+        network,
+        chainId: (await ethers.provider.getNetwork()).chainId.toString(),
+        factory: ethers.getAddress(factory),
+        blockNumber,
+        createdAt: +new Date(),
+        pools,
+        underfunded: pools.filter((pool) => pool.underfunded).length,
+    };
+}
+
+function renderMarkdown(report: PoolReport) {
+    const lines = [
+        `# SmartChef pools of ${report.factory} on ${report.network} (chain ${report.chainId})`,
+        "",
+        `At block ${report.blockNumber}, generated at ${new Date(
+            report.createdAt
+        ).toISOString()}. Liabilities are the accrued rewards plus the emissions until the end block.`,
+        "",
+        "| Pool | Status | Staked / reward token | Blocks | Reward per block | Stakers | Staked | Reward balance | Accrued | Future emissions | Surplus |",
+        "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |",
+    ];
+    for (const pool of report.pools) {
+        const reward = (wei: string) =>
+            ethers.formatUnits(wei, pool.rewardToken.decimals);
+        lines.push(
+            `| \`${pool.address}\` | ${pool.status} | ${
+                pool.stakedToken.symbol
+            } / ${pool.rewardToken.symbol} | ${pool.startBlock} - ${
+                pool.bonusEndBlock
+            } | ${reward(pool.rewardPerBlock)} | ${
+                pool.stakers
+            } | ${ethers.formatUnits(
+                pool.stakedSupply,
+                pool.stakedToken.decimals
+            )} | ${reward(pool.rewardBalance)} | ${reward(
+                pool.accruedRewards
+            )} | ${reward(pool.futureEmissions)} | ${
+                pool.underfunded
+                    ? `**${reward(pool.surplus)} UNDERFUNDED**`
+                    : reward(pool.surplus)
+            } |`
+        );
+    }
+    if (report.pools.length === 0) {
+        lines.push("| _none_ | | | | | | | | | | |");
+    }
+    return lines.join("\n") + "\n";
+}
+
+export default {
+    poolStatus,
+    inspectPool,
+    reportPools,
+    renderMarkdown,
+};
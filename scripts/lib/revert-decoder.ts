@@ -0,0 +1,148 @@
+import * as hre from "hardhat";
+import { ethers } from "ethers";
+
+export interface DecodedRevert {
+    // error name, e.g. ERC20InsufficientBalance, Error or Panic
+    name: string;
+    args: { [name: string]: string };
+    // human-readable one-liner
+    message: string;
+    data: string;
+}
+
+const ERROR_STRING_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// https://docs.soliditylang.org/en/latest/control-structures.html#panic-via-assert-and-error-via-require
+const PANIC_REASONS: { [code: number]: string } = {
+    0x01: "assertion failed",
+    0x11: "arithmetic overflow or underflow",
+    0x12: "division or modulo by zero",
+    0x21: "invalid enum value",
+    0x22: "invalid storage byte array",
+    0x31: "pop on empty array",
+    0x32: "array index out of bounds",
+    0x41: "out of memory",
+    0x51: "call to zero-initialized function",
+};
+
+let errorInterface: ethers.Interface | undefined;
+
+/**
+ * loadErrorInterface collects the custom errors of every compiled artifact,
+ * the project's contracts as well as the OpenZeppelin ones they import.
+ */
+async function loadErrorInterface() {
+    if (errorInterface) {
+        return errorInterface;
+    }
+    const fragments = new Map<string, ethers.ErrorFragment>();
+    for (const fqn of await hre.artifacts.getAllFullyQualifiedNames()) {
+        const { abi } = await hre.artifacts.readArtifact(fqn);
+        for (const item of abi) {
+            if (item.type !== "error") {
+                continue;
+            }
+            const fragment = ethers.ErrorFragment.from(item);
+            fragments.set(fragment.selector, fragment);
+        }
+    }
+    errorInterface = new ethers.Interface([...fragments.values()]);
+    return errorInterface;
+}
+
+/**
+ * revertDataOf digs the revert data out of a provider error, whose shape
+ * differs between the hardhat network and JSON-RPC nodes.
+ */
+function revertDataOf(err: any): string | undefined {
+    for (const candidate of [
+        err?.data,
+        err?.data?.data,
+        err?.error?.data,
+        err?.error?.data?.data,
+        err?.info?.error?.data,
+    ]) {
+        if (typeof candidate === "string" && candidate.startsWith("0x")) {
+            return candidate;
+        }
+    }
+    return undefined;
+}
+
+function formatArgs(args: { [name: string]: string }) {
+    return Object.entries(args)
+        .map(([name, value]) => `${name}=${value}`)
+        .join(", ");
+}
+
+/**
+ * decodeRevert turns revert data into Error(string), Panic(uint256) or one
+ * of the known custom errors.
+ */
+async function decodeRevert(data: string | undefined): Promise<DecodedRevert> {
+    if (!data || data === "0x") {
+        return {
+            name: "",
+            args: {},
+            message: "reverted without reason",
+            data: data ?? "0x",
+        };
+    }
+
+    const selector = data.slice(0, 10);
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    try {
+        if (selector === ERROR_STRING_SELECTOR) {
+            const [reason] = coder.decode(
+                ["string"],
+                ethers.dataSlice(data, 4)
+            );
+            return {
+                name: "Error",
+                args: { reason },
+                message: `reverted with reason: ${reason}`,
+                data,
+            };
+        }
+        if (selector === PANIC_SELECTOR) {
+            const [code] = coder.decode(["uint256"], ethers.dataSlice(data, 4));
+            const reason =
+                PANIC_REASONS[Number(code)] ?? `code 0x${code.toString(16)}`;
+            return {
+                name: "Panic",
+                args: { code: `0x${code.toString(16)}` },
+                message: `panicked: ${reason}`,
+                data,
+            };
+        }
+
+        const parsed = (await loadErrorInterface()).parseError(data);
+        if (parsed) {
+            const args: { [name: string]: string } = {};
+            parsed.fragment.inputs.forEach((input, i) => {
+                args[input.name || `${i}`] = String(parsed.args[i]);
+            });
+            return {
+                name: parsed.name,
+                args,
+                message: `reverted with ${parsed.name}(${formatArgs(args)})`,
+                data,
+            };
+        }
+    } catch (err) {
+        // malformed revert data, fall through to the raw selector
+    }
+    return {
+        name: "",
+        args: {},
+        message: `reverted with unknown error ${selector}`,
+        data,
+    };
+}
+
+export default {
+    loadErrorInterface,
+    revertDataOf,
+    decodeRevert,
+};
@@ -0,0 +1,249 @@
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+
+export interface RoleHolder {
+    account: string;
+    isContract: boolean;
+    grantedAtBlock: number;
+    grantedTx: string;
+    grantedBy: string;
+    // hasRole agrees with the log replay
+    confirmed: boolean;
+}
+
+export interface RoleMembership {
+    // role name, or the hash when no known contract defines it
+    role: string;
+    roleHash: string;
+    adminRole: string;
+    isAdminRole: boolean;
+    holders: RoleHolder[];
+}
+
+export interface ContractRoleAudit {
+    name: string;
+    address: string;
+    fromBlock: number;
+    toBlock: number;
+    roles: RoleMembership[];
+    findings: string[];
+}
+
+export interface RoleAuditReport {
+    network: string;
+    chainId: string;
+    createdAt: number;
+    contracts: ContractRoleAudit[];
+    findings: number;
+}
+
+export interface AuditOptions {
+    fromBlock: number;
+    toBlock?: number;
+    // max blocks per eth_getLogs request, public RPCs reject large ranges
+    blockRange?: number;
+}
+
+/**
+ * knownRoleNames maps role hashes back to names, using every bytes32 getter
+ * ending in _ROLE across the compiled artifacts. All roles in this repo are
+ * defined as keccak256 of their name, DEFAULT_ADMIN_ROLE is zero.
+ */
+async function knownRoleNames(): Promise<Map<string, string>> {
+    const names = new Map<string, string>([
+        [ethers.ZeroHash, "DEFAULT_ADMIN_ROLE"],
+    ]);
+    for (const fqn of await hre.artifacts.getAllFullyQualifiedNames()) {
+        const { abi } = await hre.artifacts.readArtifact(fqn);
+        for (const item of abi) {
+            if (
+                item.type === "function" &&
+                /_ROLE$/.test(item.name) &&
+                item.inputs.length === 0 &&
+                item.outputs?.length === 1 &&
+                item.outputs[0].type === "bytes32" &&
+                item.name !== "DEFAULT_ADMIN_ROLE"
+            ) {
+                names.set(ethers.id(item.name), item.name);
+            }
+        }
+    }
+    return names;
+}
+
+async function queryInChunks(
+    address: string,
+    eventName: "RoleGranted" | "RoleRevoked",
+    fromBlock: number,
+    toBlock: number,
+    blockRange: number
+) {
+    const contract = await ethers.getContractAt("AccessControl", address);
+    const events = [];
+    for (let start = fromBlock; start <= toBlock; start += blockRange) {
+        const end = Math.min(start + blockRange - 1, toBlock);
+        events.push(
+            ...(await contract.queryFilter(
+                contract.filters[eventName](),
+                start,
+                end
+            ))
+        );
+    }
+    return events;
+}
+
+/**
+ * auditContract rebuilds the current role membership of an AccessControl
+ * contract by replaying its RoleGranted and RoleRevoked logs in order, and
+ * confirms every resulting holder with hasRole.
+ */
+async function auditContract(
+    name: string,
+    address: string,
+    options: AuditOptions,
+    roleNames?: Map<string, string>
+): Promise<ContractRoleAudit> {
+    roleNames = roleNames ?? (await knownRoleNames());
+    const roleName = (hash: string) => roleNames!.get(hash) ?? hash;
+    const toBlock = options.toBlock ?? (await ethers.provider.getBlockNumber());
+    const blockRange = options.blockRange ?? 5000;
+
+    const logs = [
+        ...(await queryInChunks(
+            address,
+            "RoleGranted",
+            options.fromBlock,
+            toBlock,
+            blockRange
+        )),
+        ...(await queryInChunks(
+            address,
+            "RoleRevoked",
+            options.fromBlock,
+            toBlock,
+            blockRange
+        )),
+    ].sort((a, b) =>
+        a.blockNumber !== b.blockNumber
+            ? a.blockNumber - b.blockNumber
+            : a.index - b.index
+    );
+
+    // role hash => account => grant log
+    const members = new Map<string, Map<string, (typeof logs)[number]>>();
+    for (const log of logs) {
+        const [role, account] = log.args;
+        if (!members.has(role)) {
+            members.set(role, new Map());
+        }
+        if (log.eventName === "RoleGranted") {
+            members.get(role)!.set(account, log);
+        } else {
+            members.get(role)!.delete(account);
+        }
+    }
+
+    const contract = await ethers.getContractAt("AccessControl", address);
+    const adminRoles = new Map<string, string>();
+    for (const role of members.keys()) {
+        adminRoles.set(role, await contract.getRoleAdmin(role));
+    }
+    const adminRoleHashes = new Set(adminRoles.values());
+
+    const findings: string[] = [];
+    const roles: RoleMembership[] = [];
+    for (const [role, holders] of members) {
+        const isAdminRole =
+            role === ethers.ZeroHash ||
+            adminRoleHashes.has(role) ||
+            roleName(role).includes("ADMIN");
+        const membership: RoleMembership = {
+            role: roleName(role),
+            roleHash: role,
+            adminRole: roleName(adminRoles.get(role)!),
+            isAdminRole,
+            holders: [],
+        };
+        for (const [account, log] of holders) {
+            const holder: RoleHolder = {
+                account,
+                isContract: (await ethers.provider.getCode(account)) !== "0x",
+                grantedAtBlock: log.blockNumber,
+                grantedTx: log.transactionHash,
+                grantedBy: log.args[2],
+                confirmed: await contract.hasRole(role, account),
+            };
+            if (!holder.confirmed) {
+                findings.push(
+                    `${account} is granted ${membership.role} by the logs but hasRole returns false, is fromBlock too late?`
+                );
+            }
+            if (isAdminRole && !holder.isContract) {
+                findings.push(
+                    `EOA ${account} holds admin role ${membership.role}`
+                );
+            }
+            membership.holders.push(holder);
+        }
+        roles.push(membership);
+    }
+
+    return {
+        name,
+        address,
+        fromBlock: options.fromBlock,
+        toBlock,
+        roles,
+        findings,
+    };
+}
+
+function renderMarkdown(report: RoleAuditReport) {
+    const lines = [
+        `# Role audit on ${report.network} (chain ${report.chainId})`,
+        "",
+        `Generated at ${new Date(report.createdAt).toISOString()}.`,
+    ];
+    for (const audit of report.contracts) {
+        lines.push(
+            "",
+            `## ${audit.name} \`${audit.address}\``,
+            "",
+            `Logs from block ${audit.fromBlock} to ${audit.toBlock}.`,
+            "",
+            "| Role | Admin role | Holder | Type | Granted at block | Confirmed |",
+            "| --- | --- | --- | --- | --- | --- |"
+        );
+        for (const membership of audit.roles) {
+            const role = membership.isAdminRole
+                ? `**${membership.role}**`
+                : membership.role;
+            if (membership.holders.length === 0) {
+                lines.push(
+                    `| ${role} | ${membership.adminRole} | _none_ | | | |`
+                );
+            }
+            for (const holder of membership.holders) {
+                lines.push(
+                    `| ${role} | ${membership.adminRole} | \`${
+                        holder.account
+                    }\` | ${holder.isContract ? "contract" : "EOA"} | ${
+                        holder.grantedAtBlock
+                    } | ${holder.confirmed ? "yes" : "**no**"} |`
+                );
+            }
+        }
+        if (audit.findings.length > 0) {
+            lines.push("", "### Findings", "");
+            audit.findings.forEach((finding) => lines.push(`- ${finding}`));
+        }
+    }
+    return lines.join("\n") + "\n";
+}
+
+export default {
+    knownRoleNames,
+    auditContract,
+    renderMarkdown,
+};
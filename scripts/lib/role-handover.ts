@@ -0,0 +1,397 @@
+import { TransactionRequest } from "ethers";
+import { ethers } from "hardhat";
+
+export interface AccessControlSection {
+    // address or deployment registry name
+    address: string;
+    // role name => accounts that must hold it after the handover
+    roles: { [role: string]: string[] };
+}
+
+export interface HandoverInput {
+    callHelper?: AccessControlSection;
+    rewardDistributor?: AccessControlSection;
+    iaiToken?: {
+        // address or deployment registry name
+        address: string;
+        owner: string;
+    };
+}
+
+export interface HandoverStep {
+    action: "grant" | "transferOwnership" | "renounce";
+    contractName: string;
+    address: string;
+    // not set for transferOwnership
+    role?: string;
+    // the grantee, the new owner or the renouncing deployer
+    account: string;
+    // transferOwnership and renounce cannot be undone by the deployer
+    irreversible: boolean;
+}
+
+export interface RoleMatrix {
+    [contractName: string]: {
+        address: string;
+        roles: { [role: string]: string[] };
+    };
+}
+
+// roles each AccessControl contract defines, DEFAULT_ADMIN_ROLE last so the
+// deployer renounces it only after every other role
+const CONTRACT_ROLES = {
+    callHelper: {
+        contractName: "CallHelper",
+        roles: ["ADMIN_ROLE", "CALLER_ROLE", "DEFAULT_ADMIN_ROLE"],
+    },
+    rewardDistributor: {
+        contractName: "RewardDistributor",
+        roles: ["DISTRIBUTOR_ROLE", "DEFAULT_ADMIN_ROLE"],
+    },
+};
+
+type SectionKey = keyof typeof CONTRACT_ROLES;
+
+function roleHash(role: string) {
+    return role === "DEFAULT_ADMIN_ROLE" ? ethers.ZeroHash : ethers.id(role);
+}
+
+function sections(input: HandoverInput) {
+    return (Object.keys(CONTRACT_ROLES) as SectionKey[])
+        .filter((key) => input[key])
+        .map((key) => ({
+            key,
+            contractName: CONTRACT_ROLES[key].contractName,
+            knownRoles: CONTRACT_ROLES[key].roles,
+            section: input[key]!,
+        }));
+}
+
+/**
+ * validateInput checks the handover input up front, so nothing is sent
+ * on-chain when any part of it is wrong.
+ * @returns list of validation errors, empty when the input is valid
+ */
+function validateInput(
+    input: HandoverInput,
+    deployerAddress: string
+): string[] {
+    const errors: string[] = [];
+    const checkContract = (field: string, value: unknown) => {
+        if (typeof value !== "string" || !ethers.isAddress(value)) {
+            errors.push(`${field}: "${value}" is not a valid address`);
+        } else if (value === ethers.ZeroAddress) {
+            errors.push(`${field}: must not be the zero address`);
+        }
+    };
+    const checkAccount = (field: string, value: unknown) => {
+        if (typeof value !== "string" || !ethers.isAddress(value)) {
+            errors.push(`${field}: "${value}" is not a valid address`);
+        } else if (value === ethers.ZeroAddress) {
+            errors.push(`${field}: must not be the zero address`);
+        } else if (value.toLowerCase() === deployerAddress.toLowerCase()) {
+            errors.push(`${field}: must not be the deployer`);
+        }
+    };
+
+    if (!input.callHelper && !input.rewardDistributor && !input.iaiToken) {
+        return [
+            "input must contain at least one of callHelper, rewardDistributor and iaiToken sections",
+        ];
+    }
+
+    for (const { key, knownRoles, section } of sections(input)) {
+        checkContract(`${key}.address`, section.address);
+        if (!section.roles || typeof section.roles !== "object") {
+            errors.push(`${key}.roles: must map role names to addresses`);
+            continue;
+        }
+        for (const [role, accounts] of Object.entries(section.roles)) {
+            const field = `${key}.roles.${role}`;
+            if (!knownRoles.includes(role)) {
+                errors.push(
+                    `${field}: unknown role, expected one of ${knownRoles.join(
+                        ", "
+                    )}`
+                );
+                continue;
+            }
+            if (!Array.isArray(accounts)) {
+                errors.push(`${field}: must be an array of addresses`);
+                continue;
+            }
+            accounts.forEach((v, i) => checkAccount(`${field}[${i}]`, v));
+            const lowered = accounts.map((v) => String(v).toLowerCase());
+            if (new Set(lowered).size !== lowered.length) {
+                errors.push(`${field}: contains duplicate addresses`);
+            }
+        }
+        if (!section.roles.DEFAULT_ADMIN_ROLE?.length) {
+            errors.push(
+                `${key}.roles.DEFAULT_ADMIN_ROLE: requires at least one account, the contract would be left without admin`
+            );
+        }
+    }
+
+    if (input.iaiToken) {
+        checkContract("iaiToken.address", input.iaiToken.address);
+        checkAccount("iaiToken.owner", input.iaiToken.owner);
+    }
+
+    return errors;
+}
+
+function targetGrants(section: AccessControlSection) {
+    return Object.entries(section.roles).flatMap(([role, accounts]) =>
+        accounts.map((account) => ({ role, account }))
+    );
+}
+
+async function missingGrants(section: AccessControlSection) {
+    const contract = await ethers.getContractAt(
+        "AccessControl",
+        section.address
+    );
+    const missing: { role: string; account: string }[] = [];
+    for (const grant of targetGrants(section)) {
+        if (!(await contract.hasRole(roleHash(grant.role), grant.account))) {
+            missing.push(grant);
+        }
+    }
+    return missing;
+}
+
+async function heldRoles(
+    contractAddress: string,
+    roles: string[],
+    account: string
+) {
+    const contract = await ethers.getContractAt(
+        "AccessControl",
+        contractAddress
+    );
+    const held: string[] = [];
+    for (const role of roles) {
+        if (await contract.hasRole(roleHash(role), account)) {
+            held.push(role);
+        }
+    }
+    return held;
+}
+
+/**
+ * checkOnChain makes sure the deployer can perform the handover and that
+ * renouncing never leaves a role it holds without any target.
+ * @returns list of errors and warnings, the handover must not start when
+ * there are errors
+ */
+async function checkOnChain(
+    input: HandoverInput,
+    deployerAddress: string
+): Promise<{ errors: string[]; warnings: string[] }> {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    for (const { key, knownRoles, section } of sections(input)) {
+        const held = await heldRoles(
+            section.address,
+            knownRoles,
+            deployerAddress
+        );
+        const missing = await missingGrants(section);
+        if (missing.length > 0 && !held.includes("DEFAULT_ADMIN_ROLE")) {
+            errors.push(
+                `${key}: deployer ${deployerAddress} does not hold DEFAULT_ADMIN_ROLE and cannot grant the missing roles`
+            );
+        }
+        for (const role of held) {
+            if (!section.roles[role]?.length) {
+                errors.push(
+                    `${key}.roles.${role}: deployer holds the role but no target is given, renouncing would leave it without holders`
+                );
+            }
+        }
+    }
+
+    if (input.iaiToken) {
+        const iaiToken = await ethers.getContractAt(
+            "IAIToken",
+            input.iaiToken.address
+        );
+        const owner = await iaiToken.owner();
+        if (
+            owner !== deployerAddress &&
+            owner.toLowerCase() !== input.iaiToken.owner.toLowerCase()
+        ) {
+            errors.push(
+                `iaiToken: owned by ${owner}, neither the deployer nor the target owner`
+            );
+        }
+        if ((await ethers.provider.getCode(input.iaiToken.owner)) === "0x") {
+            warnings.push(
+                `iaiToken.owner ${input.iaiToken.owner} has no code, it is not a multisig contract`
+            );
+        }
+    }
+    return { errors, warnings };
+}
+
+/**
+ * planHandover lists the steps still to take, in the order they must be
+ * sent: every missing grant, then the iAI Token ownership transfer, then
+ * the deployer's renounces with DEFAULT_ADMIN_ROLE after all other roles.
+ * Run checkOnChain first, the plan assumes the deployer can take each step.
+ */
+async function planHandover(
+    input: HandoverInput,
+    deployerAddress: string
+): Promise<HandoverStep[]> {
+    const grants: HandoverStep[] = [];
+    const renounces: HandoverStep[] = [];
+    for (const { contractName, knownRoles, section } of sections(input)) {
+        for (const { role, account } of await missingGrants(section)) {
+            grants.push({
+                action: "grant",
+                contractName,
+                address: section.address,
+                role,
+                account,
+                irreversible: false,
+            });
+        }
+        for (const role of await heldRoles(
+            section.address,
+            knownRoles,
+            deployerAddress
+        )) {
+            renounces.push({
+                action: "renounce",
+                contractName,
+                address: section.address,
+                role,
+                account: deployerAddress,
+                irreversible: true,
+            });
+        }
+    }
+
+    const transfers: HandoverStep[] = [];
+    if (input.iaiToken) {
+        const iaiToken = await ethers.getContractAt(
+            "IAIToken",
+            input.iaiToken.address
+        );
+        if ((await iaiToken.owner()) === deployerAddress) {
+            transfers.push({
+                action: "transferOwnership",
+                contractName: "iAIToken",
+                address: input.iaiToken.address,
+                account: input.iaiToken.owner,
+                irreversible: true,
+            });
+        }
+    }
+
+    const isAdmin = (step: HandoverStep) => step.role === "DEFAULT_ADMIN_ROLE";
+    return [
+        ...grants,
+        ...transfers,
+        ...renounces.filter((step) => !isAdmin(step)),
+        ...renounces.filter(isAdmin),
+    ];
+}
+
+function stepName(step: HandoverStep) {
+    switch (step.action) {
+        case "grant":
+            return `grant ${step.contractName} ${step.role} to ${step.account}`;
+        case "transferOwnership":
+            return `transfer ${step.contractName} ownership to ${step.account}`;
+        case "renounce":
+            return `renounce ${step.contractName} ${step.role}`;
+    }
+}
+
+async function populateStep(step: HandoverStep): Promise<TransactionRequest> {
+    if (step.action === "transferOwnership") {
+        const iaiToken = await ethers.getContractAt("IAIToken", step.address);
+        return iaiToken.transferOwnership.populateTransaction(step.account);
+    }
+    const contract = await ethers.getContractAt("AccessControl", step.address);
+    return step.action === "grant"
+        ? contract.grantRole.populateTransaction(
+              roleHash(step.role!),
+              step.account
+          )
+        : contract.renounceRole.populateTransaction(
+              roleHash(step.role!),
+              step.account
+          );
+}
+
+/**
+ * unconfirmedGrants returns the names of the grant steps whose role the
+ * account does not hold on-chain, nothing may be given up while any is left.
+ */
+async function unconfirmedGrants(steps: HandoverStep[]) {
+    const unconfirmed: string[] = [];
+    for (const step of steps.filter(({ action }) => action === "grant")) {
+        const contract = await ethers.getContractAt(
+            "AccessControl",
+            step.address
+        );
+        if (!(await contract.hasRole(roleHash(step.role!), step.account))) {
+            unconfirmed.push(stepName(step));
+        }
+    }
+    return unconfirmed;
+}
+
+async function buildRoleMatrix(input: HandoverInput, accounts: string[]) {
+    const matrix: RoleMatrix = {};
+    for (const { contractName, knownRoles, section } of sections(input)) {
+        const contract = await ethers.getContractAt(
+            "AccessControl",
+            section.address
+        );
+        const roles: { [role: string]: string[] } = {};
+        for (const role of knownRoles) {
+            roles[role] = [];
+            for (const account of accounts) {
+                if (await contract.hasRole(roleHash(role), account)) {
+                    roles[role].push(account);
+                }
+            }
+        }
+        matrix[contractName] = { address: section.address, roles };
+    }
+    return matrix;
+}
+
+/**
+ * matrixAccounts lists the deployer and every target account once, the
+ * rows of the role matrix.
+ */
+function matrixAccounts(input: HandoverInput, deployerAddress: string) {
+    const accounts = [deployerAddress];
+    for (const { section } of sections(input)) {
+        for (const { account } of targetGrants(section)) {
+            if (
+                !accounts.some((a) => a.toLowerCase() === account.toLowerCase())
+            ) {
+                accounts.push(account);
+            }
+        }
+    }
+    return accounts;
+}
+
+export default {
+    validateInput,
+    checkOnChain,
+    planHandover,
+    stepName,
+    populateStep,
+    unconfirmedGrants,
+    buildRoleMatrix,
+    matrixAccounts,
+};
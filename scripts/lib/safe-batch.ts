@@ -0,0 +1,221 @@
+import * as hre from "hardhat";
+import { ethers } from "ethers";
+import * as path from "path";
+import cliHelper from "../cmd/cli-helper";
+
+// format of the Safe{Wallet} Transaction Builder import files
+export interface SafeBatchTransaction {
+    to: string;
+    value: string;
+    // null when the call is described by contractMethod
+    data: string | null;
+    contractMethod: {
+        inputs: readonly any[];
+        name: string;
+        payable: boolean;
+    };
+    contractInputsValues: { [name: string]: string };
+}
+
+export interface SafeBatch {
+    version: "1.0";
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+        checksum?: string;
+    };
+    transactions: SafeBatchTransaction[];
+}
+
+export interface SafeCall {
+    // compiled artifact whose ABI describes the call, e.g. CallHelper
+    artifact: string;
+    to: string;
+    data: string;
+    value?: bigint;
+}
+
+const TX_BUILDER_VERSION = "1.16.5";
+
+/**
+ * toPlain turns decoded values into JSON, numbers as decimal strings.
+ */
+function toPlain(value: unknown): unknown {
+    if (typeof value === "bigint") {
+        return value.toString();
+    }
+    if (Array.isArray(value)) {
+        return value.map(toPlain);
+    }
+    return value;
+}
+
+/**
+ * formatInputValue renders a value the way the Transaction Builder reads
+ * contractInputsValues: arrays and tuples as JSON, everything else as string.
+ */
+function formatInputValue(type: ethers.ParamType, value: unknown) {
+    if (type.isArray() || type.isTuple()) {
+        return JSON.stringify(toPlain(value));
+    }
+    return String(value);
+}
+
+/**
+ * toBatchTransaction decodes the calldata with the compiled ABI of the
+ * artifact, so the Safe UI shows the method and its arguments rather than
+ * raw data.
+ */
+async function toBatchTransaction(
+    call: SafeCall
+): Promise<SafeBatchTransaction> {
+    const { abi } = await hre.artifacts.readArtifact(call.artifact);
+    const iface = new ethers.Interface(abi);
+    const parsed = iface.parseTransaction({
+        data: call.data,
+        value: call.value,
+    });
+    if (!parsed) {
+        throw new Error(
+            `calldata ${call.data.slice(0, 10)} is not a function of ${
+                call.artifact
+            }`
+        );
+    }
+    const abiItem = abi.find(
+        (item: any) =>
+            item.type === "function" &&
+            ethers.FunctionFragment.from(item).selector === parsed.selector
+    );
+
+    const contractInputsValues: { [name: string]: string } = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+        contractInputsValues[input.name || `${i}`] = formatInputValue(
+            input,
+            parsed.args[i]
+        );
+    });
+    return {
+        to: ethers.getAddress(call.to),
+        value: (call.value ?? 0n).toString(),
+        data: null,
+        contractMethod: {
+            inputs: abiItem.inputs,
+            name: parsed.name,
+            payable: parsed.fragment.payable,
+        },
+        contractInputsValues,
+    };
+}
+
+/**
+ * serializeJSONObject is the Transaction Builder's canonical serialization,
+ * keys sorted, which its checksum is computed over.
+ */
+function serializeJSONObject(json: unknown): string {
+    if (Array.isArray(json)) {
+        return `[${json.map((el) => serializeJSONObject(el)).join(",")}]`;
+    }
+    if (typeof json === "object" && json !== null) {
+        const keys = Object.keys(json).sort();
+        let acc = `{${JSON.stringify(keys)}`;
+        for (const key of keys) {
+            acc += `${serializeJSONObject((json as any)[key])},`;
+        }
+        return `${acc}}`;
+    }
+    return JSON.stringify(json === undefined ? null : json);
+}
+
+/**
+ * calculateChecksum matches the Transaction Builder, which warns about an
+ * import whose checksum does not match its content.
+ */
+function calculateChecksum(batch: SafeBatch) {
+    const { checksum, ...meta } = batch.meta;
+    return ethers.keccak256(
+        ethers.toUtf8Bytes(
+            serializeJSONObject({ ...batch, meta: { ...meta, name: null } })
+        )
+    );
+}
+
+/**
+ * createSafeBatch builds a Transaction Builder batch of the calls for the
+ * Safe to execute.
+ */
+async function createSafeBatch(
+    name: string,
+    description: string,
+    safe: string,
+    calls: SafeCall[]
+): Promise<SafeBatch> {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const transactions: SafeBatchTransaction[] = [];
+    for (const call of calls) {
+        transactions.push(await toBatchTransaction(call));
+    }
+    const batch: SafeBatch = {
+        version: "1.0",
+        chainId: chainId.toString(),
+        createdAt: +new Date(),
+        meta: {
+            name,
+            description,
+            txBuilderVersion: TX_BUILDER_VERSION,
+            createdFromSafeAddress: ethers.getAddress(safe),
+            createdFromOwnerAddress: "",
+        },
+        transactions,
+    };
+    batch.meta.checksum = calculateChecksum(batch);
+    return batch;
+}
+
+/**
+ * exportSafeBatch writes the batch of a command to
+ * out/<network>/safe-batch/<command>/<timestamp>/batch.json.
+ * @returns path of the written file
+ */
+async function exportSafeBatch(
+    network: string,
+    command: string,
+    description: string,
+    safe: string,
+    calls: SafeCall[]
+) {
+    if ((await hre.ethers.provider.getCode(safe)) === "0x") {
+        console.warn(
+            `WARNING: ${safe} has no code on ${network}, it is not a deployed Safe`
+        );
+    }
+    const batch = await createSafeBatch(command, description, safe, calls);
+    const outDir = path.join(
+        ".",
+        "out",
+        network,
+        "safe-batch",
+        command,
+        `${+new Date()}`
+    );
+    cliHelper.ensureDirExists(outDir);
+    cliHelper.writeOutputResult(batch, outDir, "batch.json");
+    console.log(
+        `import ${path.join(
+            outDir,
+            "batch.json"
+        )} into the Transaction Builder of Safe ${safe}`
+    );
+    return path.join(outDir, "batch.json");
+}
+
+export default {
+    calculateChecksum,
+    createSafeBatch,
+    exportSafeBatch,
+};
@@ -0,0 +1,229 @@
+import { ethers } from "hardhat";
+import {
+    ERC20__factory,
+    SmartChefInitializable__factory,
+} from "../../typechain-types";
+
+export interface PoolState {
+    pool: string;
+    // block the state was read at
+    blockNumber: number;
+    owner: string;
+    stakedToken: string;
+    stakedSymbol: string;
+    stakedDecimals: number;
+    rewardToken: string;
+    rewardSymbol: string;
+    rewardDecimals: number;
+    // amounts in wei
+    rewardPerBlock: string;
+    startBlock: number;
+    bonusEndBlock: number;
+    lastRewardBlock: number;
+    hasUserLimit: boolean;
+    poolLimitPerUser: string;
+    // token balances of the pool
+    stakedBalance: string;
+    rewardBalance: string;
+}
+
+/**
+ * readPoolState reads everything the admin functions check or change. A pool
+ * staking its reward token is refused, its reward balance would include the
+ * stakes; SmartChefFactory never deploys one.
+ */
+async function readPoolState(pool: string): Promise<PoolState> {
+    const chef = SmartChefInitializable__factory.connect(pool, ethers.provider);
+    const blockNumber = await ethers.provider.getBlockNumber();
+    const at = { blockTag: blockNumber };
+    const stakedToken = ERC20__factory.connect(
+        await chef.stakedToken(at),
+        ethers.provider
+    );
+    const rewardToken = ERC20__factory.connect(
+        await chef.rewardToken(at),
+        ethers.provider
+    );
+    if ((await stakedToken.getAddress()) === (await rewardToken.getAddress())) {
+        throw new Error(
+            `pool ${pool} stakes its reward token, its reward balance cannot be told apart from the stakes`
+        );
+    }
+    return {
+        pool: ethers.getAddress(pool),
+        blockNumber,
+        owner: await chef.owner(at),
+        stakedToken: await stakedToken.getAddress(),
+        stakedSymbol: await stakedToken.symbol(),
+        stakedDecimals: Number(await stakedToken.decimals()),
+        rewardToken: await rewardToken.getAddress(),
+        rewardSymbol: await rewardToken.symbol(),
+        rewardDecimals: Number(await rewardToken.decimals()),
+        rewardPerBlock: (await chef.rewardPerBlock(at)).toString(),
+        startBlock: Number(await chef.startBlock(at)),
+        bonusEndBlock: Number(await chef.bonusEndBlock(at)),
+        lastRewardBlock: Number(await chef.lastRewardBlock(at)),
+        hasUserLimit: await chef.hasUserLimit(at),
+        poolLimitPerUser: (await chef.poolLimitPerUser(at)).toString(),
+        stakedBalance: (await stakedToken.balanceOf(pool, at)).toString(),
+        rewardBalance: (await rewardToken.balanceOf(pool, at)).toString(),
+    };
+}
+
+/**
+ * describePoolState renders the state as aligned lines, one per field.
+ */
+function describePoolState(state: PoolState) {
+    const staked = (wei: string) =>
+        `${ethers.formatUnits(wei, state.stakedDecimals)} ${
+            state.stakedSymbol
+        }`;
+    const reward = (wei: string) =>
+        `${ethers.formatUnits(wei, state.rewardDecimals)} ${
+            state.rewardSymbol
+        }`;
+    const rows: [string, string][] = [
+        ["pool", state.pool],
+        ["at block", `${state.blockNumber}`],
+        ["owner", state.owner],
+        ["staked token", `${state.stakedSymbol} ${state.stakedToken}`],
+        ["reward token", `${state.rewardSymbol} ${state.rewardToken}`],
+        ["reward per block", reward(state.rewardPerBlock)],
+        ["start block", `${state.startBlock}`],
+        ["end block", `${state.bonusEndBlock}`],
+        ["last reward block", `${state.lastRewardBlock}`],
+        [
+            "limit per user",
+            state.hasUserLimit ? staked(state.poolLimitPerUser) : "none",
+        ],
+        ["staked balance", staked(state.stakedBalance)],
+        ["reward balance", reward(state.rewardBalance)],
+    ];
+    const width = Math.max(...rows.map(([name]) => name.length));
+    return rows.map(([name, value]) => `${name.padEnd(width)}  ${value}`);
+}
+
+// the transaction is mined in a later block than the state was read at, the
+// contract's block.number checks are made against the next block
+const nextBlock = (state: PoolState) => state.blockNumber + 1;
+
+function checkOwner(state: PoolState, actor: string): string[] {
+    return ethers.getAddress(actor) === state.owner
+        ? []
+        : [`${actor} is not the pool owner ${state.owner}`];
+}
+
+function checkNotStarted(state: PoolState): string[] {
+    return nextBlock(state) < state.startBlock
+        ? []
+        : [`Pool has started: start block ${state.startBlock} is reached`];
+}
+
+function checkUpdateRewardPerBlock(state: PoolState): string[] {
+    return checkNotStarted(state);
+}
+
+function checkUpdateStartAndEndBlocks(
+    state: PoolState,
+    startBlock: number,
+    bonusEndBlock: number
+): string[] {
+    const errors = checkNotStarted(state);
+    if (!(startBlock < bonusEndBlock)) {
+        errors.push(
+            `New startBlock must be lower than new endBlock: ${startBlock} >= ${bonusEndBlock}`
+        );
+    }
+    if (!(nextBlock(state) < startBlock)) {
+        errors.push(
+            `New startBlock must be higher than current block: ${startBlock} <= ${nextBlock(
+                state
+            )}`
+        );
+    }
+    return errors;
+}
+
+/**
+ * checkUpdatePoolLimitPerUser applies the contract's rules: a limit must be
+ * set, and it can only be raised or removed.
+ */
+function checkUpdatePoolLimitPerUser(
+    state: PoolState,
+    hasUserLimit: boolean,
+    poolLimitPerUser: bigint
+): string[] {
+    if (!state.hasUserLimit) {
+        return ["Must be set: the pool has no user limit"];
+    }
+    if (hasUserLimit && poolLimitPerUser <= BigInt(state.poolLimitPerUser)) {
+        return [
+            `New limit must be higher: ${ethers.formatUnits(
+                poolLimitPerUser,
+                state.stakedDecimals
+            )} <= ${ethers.formatUnits(
+                state.poolLimitPerUser,
+                state.stakedDecimals
+            )} ${state.stakedSymbol}`,
+        ];
+    }
+    return [];
+}
+
+function checkStopReward(state: PoolState): string[] {
+    return nextBlock(state) < state.bonusEndBlock
+        ? []
+        : [`rewards already ended at block ${state.bonusEndBlock}`];
+}
+
+function checkEmergencyRewardWithdraw(
+    state: PoolState,
+    amount: bigint
+): string[] {
+    if (amount > BigInt(state.rewardBalance)) {
+        return [
+            `pool holds only ${ethers.formatUnits(
+                state.rewardBalance,
+                state.rewardDecimals
+            )} ${state.rewardSymbol}`,
+        ];
+    }
+    return [];
+}
+
+function checkRecoverWrongTokens(
+    state: PoolState,
+    token: string,
+    amount: bigint,
+    held: { balance: bigint; decimals: number; symbol: string }
+): string[] {
+    const address = ethers.getAddress(token);
+    const errors: string[] = [];
+    if (address === state.stakedToken) {
+        errors.push("Cannot be staked token");
+    }
+    if (address === state.rewardToken) {
+        errors.push("Cannot be reward token");
+    }
+    if (amount > held.balance) {
+        errors.push(
+            `pool holds only ${ethers.formatUnits(
+                held.balance,
+                held.decimals
+            )} ${held.symbol}`
+        );
+    }
+    return errors;
+}
+
+export default {
+    readPoolState,
+    describePoolState,
+    checkOwner,
+    checkUpdateRewardPerBlock,
+    checkUpdateStartAndEndBlocks,
+    checkUpdatePoolLimitPerUser,
+    checkStopReward,
+    checkEmergencyRewardWithdraw,
+    checkRecoverWrongTokens,
+};
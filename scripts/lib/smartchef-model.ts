@@ -0,0 +1,308 @@
+// Off-chain model of the reward accounting of SmartChefInitializable. It
+// replays the pool's events with the contract's integer arithmetic, so its
+// rewards match the contract to the wei. It has no chain access on purpose,
+// the caller reads the events and the pool parameters.
+
+export interface PoolConfig {
+    rewardPerBlock: bigint;
+    startBlock: number;
+    bonusEndBlock: number;
+    // decimals of the reward token, PRECISION_FACTOR derives from them
+    rewardDecimals: number;
+    // the pool's staked token balance before any event, e.g. the reward
+    // funding when both tokens are the same
+    initialStakedBalance?: bigint;
+    // the staked token is the reward token, paid rewards then leave the
+    // staked balance the contract divides by
+    stakedIsReward?: boolean;
+}
+
+export interface UserState {
+    amount: bigint;
+    rewardDebt: bigint;
+    // rewards transferred to the user so far
+    paid: bigint;
+}
+
+export interface PoolState {
+    rewardPerBlock: bigint;
+    startBlock: number;
+    bonusEndBlock: number;
+    lastRewardBlock: number;
+    accTokenPerShare: bigint;
+    precisionFactor: bigint;
+    // stakedToken.balanceOf(pool), what the contract divides the rewards by
+    stakedBalance: bigint;
+    stakedIsReward: boolean;
+    users: Map<string, UserState>;
+    // rewards transferred to all users so far
+    totalPaid: bigint;
+    // block of the last applied event
+    blockNumber: number;
+}
+
+// the pool events the accounting depends on, named and shaped like the
+// contract's events. StakedBalanceChange is not emitted by the contract, it
+// records staked tokens that moved without an event, e.g. a plain transfer
+// to the pool or an emergencyRewardWithdraw of a pool whose staked token is
+// the reward token
+export type PoolEvent = { blockNumber: number } & (
+    | { event: "Deposit"; user: string; amount: bigint }
+    | { event: "Withdraw"; user: string; amount: bigint }
+    // the contract emits amount 0 after clearing the stake, the model knows
+    // the stake itself
+    | { event: "EmergencyWithdraw"; user: string }
+    | { event: "NewRewardPerBlock"; rewardPerBlock: bigint }
+    | {
+          event: "NewStartAndEndBlocks";
+          startBlock: number;
+          bonusEndBlock: number;
+      }
+    | { event: "RewardsStop" }
+    | { event: "StakedBalanceChange"; amount: bigint }
+);
+
+// the contract computes PRECISION_FACTOR as 10 ** (30 - decimals)
+function precisionFactor(rewardDecimals: number) {
+    if (!(Number.isInteger(rewardDecimals) && rewardDecimals >= 0)) {
+        throw new Error(`invalid reward token decimals ${rewardDecimals}`);
+    }
+    if (rewardDecimals >= 30) {
+        throw new Error("Must be inferior to 30");
+    }
+    return 10n ** BigInt(30 - rewardDecimals);
+}
+
+/**
+ * createPool returns the state right after initialize.
+ */
+function createPool(config: PoolConfig): PoolState {
+    return {
+        rewardPerBlock: config.rewardPerBlock,
+        startBlock: config.startBlock,
+        bonusEndBlock: config.bonusEndBlock,
+        lastRewardBlock: config.startBlock,
+        accTokenPerShare: 0n,
+        precisionFactor: precisionFactor(config.rewardDecimals),
+        stakedBalance: config.initialStakedBalance ?? 0n,
+        stakedIsReward: config.stakedIsReward ?? false,
+        users: new Map(),
+        totalPaid: 0n,
+        blockNumber: 0,
+    };
+}
+
+function getMultiplier(pool: PoolState, from: number, to: number) {
+    if (to <= pool.bonusEndBlock) {
+        return BigInt(to - from);
+    } else if (from >= pool.bonusEndBlock) {
+        return 0n;
+    }
+    return BigInt(pool.bonusEndBlock - from);
+}
+
+/**
+ * accTokenPerShareAt is the accumulator _updatePool would store at the block,
+ * without changing the pool.
+ */
+function accTokenPerShareAt(pool: PoolState, blockNumber: number) {
+    if (blockNumber <= pool.lastRewardBlock || pool.stakedBalance === 0n) {
+        return pool.accTokenPerShare;
+    }
+    const reward =
+        getMultiplier(pool, pool.lastRewardBlock, blockNumber) *
+        pool.rewardPerBlock;
+    return (
+        pool.accTokenPerShare +
+        (reward * pool.precisionFactor) / pool.stakedBalance
+    );
+}
+
+function updatePool(pool: PoolState, blockNumber: number) {
+    if (blockNumber <= pool.lastRewardBlock) {
+        return;
+    }
+    pool.accTokenPerShare = accTokenPerShareAt(pool, blockNumber);
+    pool.lastRewardBlock = blockNumber;
+}
+
+function userOf(pool: PoolState, address: string) {
+    const key = address.toLowerCase();
+    let user = pool.users.get(key);
+    if (!user) {
+        user = { amount: 0n, rewardDebt: 0n, paid: 0n };
+        pool.users.set(key, user);
+    }
+    return user;
+}
+
+function pay(pool: PoolState, user: UserState, reward: bigint) {
+    if (reward === 0n) {
+        return;
+    }
+    user.paid += reward;
+    pool.totalPaid += reward;
+    if (pool.stakedIsReward) {
+        pool.stakedBalance -= reward;
+    }
+}
+
+/**
+ * applyEvent runs the state changes of the function that emitted the event,
+ * in the contract's order.
+ * @returns the reward the event paid out
+ */
+function applyEvent(pool: PoolState, event: PoolEvent): bigint {
+    if (event.blockNumber < pool.blockNumber) {
+        throw new Error(
+            `${event.event} of block ${event.blockNumber} is older than block ${pool.blockNumber}, apply the events in order`
+        );
+    }
+    pool.blockNumber = event.blockNumber;
+    switch (event.event) {
+        case "Deposit": {
+            const user = userOf(pool, event.user);
+            updatePool(pool, event.blockNumber);
+            let pending = 0n;
+            if (user.amount > 0n) {
+                pending =
+                    (user.amount * pool.accTokenPerShare) /
+                        pool.precisionFactor -
+                    user.rewardDebt;
+                pay(pool, user, pending);
+            }
+            user.amount += event.amount;
+            pool.stakedBalance += event.amount;
+            user.rewardDebt =
+                (user.amount * pool.accTokenPerShare) / pool.precisionFactor;
+            return pending;
+        }
+        case "Withdraw": {
+            const user = userOf(pool, event.user);
+            if (user.amount < event.amount) {
+                throw new Error(
+                    `${event.user} withdraws ${event.amount} at block ${event.blockNumber} but staked only ${user.amount}`
+                );
+            }
+            updatePool(pool, event.blockNumber);
+            const pending =
+                (user.amount * pool.accTokenPerShare) / pool.precisionFactor -
+                user.rewardDebt;
+            user.amount -= event.amount;
+            pool.stakedBalance -= event.amount;
+            pay(pool, user, pending);
+            user.rewardDebt =
+                (user.amount * pool.accTokenPerShare) / pool.precisionFactor;
+            return pending;
+        }
+        case "EmergencyWithdraw": {
+            // no pool update, the accrued rewards are forfeited
+            const user = userOf(pool, event.user);
+            pool.stakedBalance -= user.amount;
+            user.amount = 0n;
+            user.rewardDebt = 0n;
+            return 0n;
+        }
+        case "NewRewardPerBlock":
+            pool.rewardPerBlock = event.rewardPerBlock;
+            return 0n;
+        case "NewStartAndEndBlocks":
+            pool.startBlock = event.startBlock;
+            pool.bonusEndBlock = event.bonusEndBlock;
+            pool.lastRewardBlock = event.startBlock;
+            return 0n;
+        case "RewardsStop":
+            // stopReward does not update the pool first, the blocks since
+            // the last update are only counted up to this block
+            pool.bonusEndBlock = event.blockNumber;
+            return 0n;
+        case "StakedBalanceChange":
+            pool.stakedBalance += event.amount;
+            return 0n;
+    }
+}
+
+/**
+ * replay applies the events mined up to and including toBlock, in order.
+ */
+function replay(
+    config: PoolConfig,
+    events: PoolEvent[],
+    toBlock = Infinity
+): PoolState {
+    const pool = createPool(config);
+    for (const event of events) {
+        if (event.blockNumber > toBlock) {
+            break;
+        }
+        applyEvent(pool, event);
+    }
+    return pool;
+}
+
+/**
+ * pendingReward mirrors the contract's view of the same name as called at the
+ * block, the pool must be replayed up to that block.
+ */
+function pendingReward(pool: PoolState, user: string, blockNumber: number) {
+    const state = pool.users.get(user.toLowerCase());
+    if (!state) {
+        return 0n;
+    }
+    return (
+        (state.amount * accTokenPerShareAt(pool, blockNumber)) /
+            pool.precisionFactor -
+        state.rewardDebt
+    );
+}
+
+/**
+ * poolEventOf maps a decoded log of the pool, e.g. from queryFilter, onto a
+ * PoolEvent.
+ * @returns undefined for events the accounting does not depend on
+ */
+function poolEventOf(log: {
+    eventName: string;
+    blockNumber: number;
+    args: { [name: string]: any };
+}): PoolEvent | undefined {
+    const { eventName, blockNumber, args } = log;
+    switch (eventName) {
+        case "Deposit":
+        case "Withdraw":
+            return {
+                event: eventName,
+                blockNumber,
+                user: args.user,
+                amount: BigInt(args.amount),
+            };
+        case "EmergencyWithdraw":
+            return { event: eventName, blockNumber, user: args.user };
+        case "NewRewardPerBlock":
+            return {
+                event: eventName,
+                blockNumber,
+                rewardPerBlock: BigInt(args.rewardPerBlock),
+            };
+        case "NewStartAndEndBlocks":
+            return {
+                event: eventName,
+                blockNumber,
+                startBlock: Number(args.startBlock),
+                bonusEndBlock: Number(args.endBlock),
+            };
+        case "RewardsStop":
+            return { event: eventName, blockNumber };
+    }
+    return undefined;
+}
+
+export default {
+    precisionFactor,
+    createPool,
+    getMultiplier,
+    applyEvent,
+    replay,
+    pendingReward,
+    poolEventOf,
+};
@@ -0,0 +1,513 @@
+import * as hre from "hardhat";
+import { ethers } from "ethers";
+import { HttpNetworkConfig } from "hardhat/types";
+import confirmationHelper, {
+    ConfirmedReceipt,
+    ReceiptSummary,
+} from "./confirmations";
+
+declare module "hardhat/types/config" {
+    interface HttpNetworkUserConfig {
+        feePolicy?: FeePolicy;
+        // blocks a transaction must be deep before it counts as done, 1 by
+        // default
+        confirmations?: number;
+    }
+    interface HttpNetworkConfig {
+        feePolicy?: FeePolicy;
+        confirmations?: number;
+    }
+}
+
+// fee policy of a network, every field is optional
+export interface FeePolicy {
+    // cap of maxFeePerGas (gasPrice on legacy networks), replacements never
+    // exceed it
+    maxFeePerGasGwei?: string;
+    // priority tip of the first attempt, the provider's suggestion otherwise
+    maxPriorityFeePerGasGwei?: string;
+    // how long an attempt may stay unmined before it is replaced
+    timeoutSeconds?: number;
+    // fee increase of a replacement, nodes require at least 10
+    bumpPercent?: number;
+    // replacements before giving up on the transaction
+    maxReplacements?: number;
+}
+
+interface Fees {
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    gasPrice?: bigint;
+}
+
+export interface SentTransaction {
+    label: string;
+    nonce: number;
+    // hash of the mined transaction
+    hash: string;
+    // hashes that were sent for the same nonce and replaced, oldest first
+    replaced: string[];
+    contractAddress?: string;
+    receipt: ethers.TransactionReceipt;
+    confirmations: number;
+}
+
+// result file entry of a sent transaction
+export interface TransactionSummary extends ReceiptSummary {
+    label: string;
+    nonce: number;
+    hash: string;
+    replaced: string[];
+    contractAddress?: string;
+}
+
+export interface SendOptions {
+    // the network's fee policy by default
+    policy?: FeePolicy;
+    // the network's confirmations by default
+    confirmations?: number;
+    // called after each attempt is sent, before waiting for it, e.g. to
+    // journal the hash
+    onSent?: (hash: string, replaced: string[]) => void;
+}
+
+export class TransactionTimeoutError extends Error {
+    constructor(label: string, nonce: number, public hashes: string[]) {
+        super(
+            `${label}: nonce ${nonce} not mined after ${
+                hashes.length
+            } attempt(s), it may still be mined, check ${hashes.join(
+                ", "
+            )} before re-running`
+        );
+        this.name = "TransactionTimeoutError";
+    }
+}
+
+export class TransactionRevertedError extends Error {
+    constructor(public sent: SentTransaction) {
+        super(
+            `${sent.label}: transaction ${sent.hash} reverted in block ${sent.receipt.blockNumber} after using ${sent.receipt.gasUsed} gas`
+        );
+        this.name = "TransactionRevertedError";
+    }
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 180;
+const DEFAULT_BUMP_PERCENT = 15;
+const DEFAULT_MAX_REPLACEMENTS = 5;
+const MIN_BUMP_PERCENT = 10;
+const MAX_POLL_INTERVAL_MS = 4000;
+
+// every transaction sent by this process, for the commands' result files
+const journal: SentTransaction[] = [];
+
+/**
+ * networkConfirmations returns the confirmations the current network
+ * requires, 1 when it sets none.
+ */
+function networkConfirmations(): number {
+    const confirmations =
+        (hre.network.config as HttpNetworkConfig).confirmations ?? 1;
+    const errors = confirmationHelper.validateConfirmations(confirmations);
+    if (errors.length > 0) {
+        throw new Error(
+            `invalid config of network ${hre.network.name}: ${errors.join(
+                "; "
+            )}`
+        );
+    }
+    return confirmations;
+}
+
+/**
+ * networkFeePolicy returns the fee policy of the current network, empty when
+ * it has none.
+ */
+function networkFeePolicy(): FeePolicy {
+    return (hre.network.config as HttpNetworkConfig).feePolicy ?? {};
+}
+
+function gwei(value: string | undefined) {
+    return value === undefined
+        ? undefined
+        : ethers.parseUnits(String(value), "gwei");
+}
+
+/**
+ * validateFeePolicy returns the errors of a policy, to be reported before
+ * anything is sent.
+ */
+function validateFeePolicy(policy: FeePolicy): string[] {
+    const errors: string[] = [];
+    for (const field of [
+        "maxFeePerGasGwei",
+        "maxPriorityFeePerGasGwei",
+    ] as const) {
+        if (
+            policy[field] !== undefined &&
+            !/^\d+(\.\d+)?$/.test(String(policy[field]))
+        ) {
+            errors.push(`feePolicy.${field}: "${policy[field]}" is not gwei`);
+        }
+    }
+    if (policy.timeoutSeconds !== undefined && !(policy.timeoutSeconds > 0)) {
+        errors.push("feePolicy.timeoutSeconds: must be positive");
+    }
+    if (
+        policy.bumpPercent !== undefined &&
+        !(policy.bumpPercent >= MIN_BUMP_PERCENT)
+    ) {
+        errors.push(
+            `feePolicy.bumpPercent: must be at least ${MIN_BUMP_PERCENT}, nodes reject smaller replacements`
+        );
+    }
+    if (
+        policy.maxReplacements !== undefined &&
+        !(
+            Number.isInteger(policy.maxReplacements) &&
+            policy.maxReplacements >= 0
+        )
+    ) {
+        errors.push("feePolicy.maxReplacements: must be a whole number");
+    }
+    if (
+        errors.length === 0 &&
+        policy.maxFeePerGasGwei !== undefined &&
+        policy.maxPriorityFeePerGasGwei !== undefined &&
+        gwei(policy.maxPriorityFeePerGasGwei)! > gwei(policy.maxFeePerGasGwei)!
+    ) {
+        errors.push(
+            "feePolicy.maxPriorityFeePerGasGwei: must not exceed maxFeePerGasGwei"
+        );
+    }
+    return errors;
+}
+
+/**
+ * initialFees prices the first attempt: twice the latest base fee plus the
+ * tip, both within the cap.
+ */
+async function initialFees(
+    provider: ethers.Provider,
+    policy: FeePolicy
+): Promise<Fees> {
+    const cap = gwei(policy.maxFeePerGasGwei);
+    const feeData = await provider.getFeeData();
+    const latest = await provider.getBlock("latest");
+    const baseFee = latest?.baseFeePerGas;
+    if (baseFee === null || baseFee === undefined) {
+        const gasPrice = feeData.gasPrice!;
+        return {
+            gasPrice: cap !== undefined && cap < gasPrice ? cap : gasPrice,
+        };
+    }
+
+    let tip =
+        gwei(policy.maxPriorityFeePerGasGwei) ??
+        feeData.maxPriorityFeePerGas ??
+        0n;
+    let maxFeePerGas = baseFee * 2n + tip;
+    if (cap !== undefined && maxFeePerGas > cap) {
+        maxFeePerGas = cap;
+    }
+    if (maxFeePerGas < baseFee) {
+        console.warn(
+            `WARNING: fee cap ${ethers.formatUnits(
+                maxFeePerGas,
+                "gwei"
+            )} gwei is below the base fee ${ethers.formatUnits(
+                baseFee,
+                "gwei"
+            )} gwei, the transaction waits until the base fee drops`
+        );
+    }
+    if (tip > maxFeePerGas) {
+        tip = maxFeePerGas;
+    }
+    return { maxFeePerGas, maxPriorityFeePerGas: tip };
+}
+
+function bump(value: bigint, percent: number) {
+    const scaled = BigInt(Math.round(percent * 100));
+    // round up, a replacement at exactly the minimum is rejected otherwise
+    return (value * (10000n + scaled) + 9999n) / 10000n;
+}
+
+/**
+ * bumpFees prices a replacement, undefined when the cap leaves no room for
+ * the increase nodes require.
+ */
+function bumpFees(fees: Fees, policy: FeePolicy): Fees | undefined {
+    const cap = gwei(policy.maxFeePerGasGwei);
+    const percent = policy.bumpPercent ?? DEFAULT_BUMP_PERCENT;
+    const capped = (value: bigint) =>
+        cap !== undefined && value > cap ? cap : value;
+    const enough = (previous: bigint, next: bigint) =>
+        next >= bump(previous, MIN_BUMP_PERCENT);
+
+    if (fees.gasPrice !== undefined) {
+        const gasPrice = capped(bump(fees.gasPrice, percent));
+        return enough(fees.gasPrice, gasPrice) ? { gasPrice } : undefined;
+    }
+    const maxFeePerGas = capped(bump(fees.maxFeePerGas!, percent));
+    const tip = bump(fees.maxPriorityFeePerGas!, percent);
+    const maxPriorityFeePerGas = tip > maxFeePerGas ? maxFeePerGas : tip;
+    return enough(fees.maxFeePerGas!, maxFeePerGas) &&
+        enough(fees.maxPriorityFeePerGas!, maxPriorityFeePerGas)
+        ? { maxFeePerGas, maxPriorityFeePerGas }
+        : undefined;
+}
+
+function formatFees(fees: Fees) {
+    return fees.gasPrice !== undefined
+        ? `gas price ${ethers.formatUnits(fees.gasPrice, "gwei")} gwei`
+        : `max fee ${ethers.formatUnits(
+              fees.maxFeePerGas!,
+              "gwei"
+          )} gwei, tip ${ethers.formatUnits(
+              fees.maxPriorityFeePerGas!,
+              "gwei"
+          )} gwei`;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const { findReceipt } = confirmationHelper;
+
+function pollInterval(timeoutMs: number) {
+    return Math.min(MAX_POLL_INTERVAL_MS, Math.max(timeoutMs / 10, 50));
+}
+
+/**
+ * waitForAny polls until one of the hashes is mined or the timeout passes.
+ * @returns the receipt, null on timeout
+ */
+async function waitForAny(
+    provider: ethers.Provider,
+    from: string,
+    nonce: number,
+    hashes: string[],
+    timeoutMs: number
+) {
+    const pollMs = pollInterval(timeoutMs);
+    const deadline = Date.now() + timeoutMs;
+    for (;;) {
+        const receipt = await findReceipt(provider, hashes);
+        if (receipt) {
+            return receipt;
+        }
+        if ((await provider.getTransactionCount(from, "latest")) > nonce) {
+            // mined between the two calls, or by a transaction not sent here
+            const late = await findReceipt(provider, hashes);
+            if (late) {
+                return late;
+            }
+            throw new Error(
+                `nonce ${nonce} of ${from} was used by another transaction, none of ${hashes.join(
+                    ", "
+                )} was mined`
+            );
+        }
+        if (Date.now() >= deadline) {
+            return null;
+        }
+        await sleep(pollMs);
+    }
+}
+
+/**
+ * sendTransaction sends the transaction with the network's fee policy and
+ * waits for the network's confirmations. An attempt still pending after the
+ * policy's timeout is replaced at the same nonce with bumped fees, up to
+ * maxReplacements times, then TransactionTimeoutError is thrown. A
+ * transaction a reorg removes is waited for again. A confirmed transaction
+ * that reverted throws TransactionRevertedError.
+ * @param label names the transaction in logs and result files
+ */
+async function sendTransaction(
+    signer: ethers.Signer,
+    tx: ethers.TransactionRequest,
+    label: string,
+    {
+        policy = networkFeePolicy(),
+        confirmations = networkConfirmations(),
+        onSent,
+    }: SendOptions = {}
+): Promise<SentTransaction> {
+    const optionErrors = [
+        ...validateFeePolicy(policy),
+        ...confirmationHelper.validateConfirmations(confirmations),
+    ];
+    if (optionErrors.length > 0) {
+        throw new Error(
+            `invalid transaction options: ${optionErrors.join("; ")}`
+        );
+    }
+    const provider = signer.provider!;
+    const from = await signer.getAddress();
+    const timeoutMs = (policy.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000;
+    const maxReplacements = policy.maxReplacements ?? DEFAULT_MAX_REPLACEMENTS;
+
+    const nonce = tx.nonce ?? (await signer.getNonce("pending"));
+    const gasLimit = tx.gasLimit ?? (await signer.estimateGas({ ...tx, from }));
+    let fees = await initialFees(provider, policy);
+    const hashes: string[] = [];
+    // null when a reorg removed the transaction, it is back in the mempool
+    const confirm = async (receipt: ethers.TransactionReceipt) => {
+        const confirmed = await confirmationHelper.waitForConfirmations(
+            provider,
+            label,
+            hashes,
+            receipt,
+            confirmations,
+            pollInterval(timeoutMs)
+        );
+        return confirmed && record(label, nonce, hashes, confirmed);
+    };
+
+    for (;;) {
+        let response: ethers.TransactionResponse | undefined;
+        try {
+            response = await signer.sendTransaction({
+                ...tx,
+                from,
+                nonce,
+                gasLimit,
+                ...fees,
+                ...(fees.gasPrice !== undefined ? { type: 0 } : { type: 2 }),
+            });
+        } catch (err: any) {
+            // an earlier attempt may have been mined while this one was sent
+            const receipt =
+                hashes.length > 0 ? await findReceipt(provider, hashes) : null;
+            if (!receipt) {
+                throw err;
+            }
+            const confirmed = await confirm(receipt);
+            if (confirmed) {
+                return confirmed;
+            }
+            throw err;
+        }
+        hashes.push(response.hash);
+        onSent?.(response.hash, hashes.slice(0, -1));
+        console.log(
+            `${label}: sent ${response.hash} (nonce ${nonce}, ${formatFees(
+                fees
+            )})`
+        );
+
+        for (;;) {
+            const receipt = await waitForAny(
+                provider,
+                from,
+                nonce,
+                hashes,
+                timeoutMs
+            );
+            if (!receipt) {
+                break;
+            }
+            const confirmed = await confirm(receipt);
+            if (confirmed) {
+                return confirmed;
+            }
+        }
+
+        const bumped =
+            hashes.length <= maxReplacements
+                ? bumpFees(fees, policy)
+                : undefined;
+        if (!bumped) {
+            throw new TransactionTimeoutError(label, nonce, hashes);
+        }
+        console.warn(
+            `${label}: ${response.hash} not mined after ${
+                timeoutMs / 1000
+            }s, replacing it with ${formatFees(bumped)}`
+        );
+        fees = bumped;
+    }
+}
+
+function record(
+    label: string,
+    nonce: number,
+    hashes: string[],
+    { receipt, confirmations }: ConfirmedReceipt
+): SentTransaction {
+    const sent: SentTransaction = {
+        label,
+        nonce,
+        hash: receipt.hash,
+        replaced: hashes.filter((hash) => hash !== receipt.hash),
+        contractAddress: receipt.contractAddress ?? undefined,
+        receipt,
+        confirmations,
+    };
+    if (sent.replaced.length > 0) {
+        console.log(
+            `${label}: mined ${sent.hash}, replaced ${sent.replaced.join(", ")}`
+        );
+    }
+    journal.push(sent);
+    if (receipt.status !== 1) {
+        throw new TransactionRevertedError(sent);
+    }
+    return sent;
+}
+
+/**
+ * deployContract deploys through sendTransaction and returns the typed
+ * contract at the mined address.
+ */
+async function deployContract<F extends ethers.ContractFactory>(
+    factory: F,
+    args: Parameters<F["getDeployTransaction"]>,
+    label: string
+) {
+    const sent = await sendTransaction(
+        factory.runner as ethers.Signer,
+        await factory.getDeployTransaction(...args),
+        label
+    );
+    const contract = factory.attach(sent.contractAddress!) as Awaited<
+        ReturnType<F["deploy"]>
+    >;
+    return { contract, sent };
+}
+
+/**
+ * summary is the result file entry of a sent transaction.
+ */
+function summary(sent: SentTransaction): TransactionSummary {
+    return {
+        label: sent.label,
+        nonce: sent.nonce,
+        hash: sent.hash,
+        replaced: sent.replaced,
+        ...(sent.contractAddress
+            ? { contractAddress: sent.contractAddress }
+            : {}),
+        ...confirmationHelper.receiptSummary(sent),
+    };
+}
+
+/**
+ * sentTransactions lists the summaries of every transaction this process
+ * sent, in order.
+ */
+function sentTransactions() {
+    return journal.map(summary);
+}
+
+export default {
+    networkConfirmations,
+    networkFeePolicy,
+    validateFeePolicy,
+    sendTransaction,
+    deployContract,
+    summary,
+    sentTransactions,
+};
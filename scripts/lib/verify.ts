@@ -0,0 +1,187 @@
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import cliHelper from "../cmd/cli-helper";
+
+export interface VerifyOptions {
+    enabled: boolean;
+    // explorer API override, e.g. the local mock explorer
+    apiUrl?: string;
+    browserUrl?: string;
+    apiKey?: string;
+    // delay between submissions while the explorer has not indexed the code
+    retryDelayMs?: number;
+    maxAttempts?: number;
+}
+
+export interface VerificationResult {
+    status: "verified" | "already-verified" | "failed" | "skipped";
+    guid?: string;
+    message?: string;
+    url?: string;
+}
+
+/**
+ * verifyOptionsFromCli maps the shared --no-verify and --explorer-* command
+ * options onto VerifyOptions.
+ */
+function verifyOptionsFromCli(opts: {
+    verify?: boolean;
+    explorerApiUrl?: string;
+    explorerBrowserUrl?: string;
+}): VerifyOptions {
+    return {
+        enabled: opts.verify !== false,
+        apiUrl: opts.explorerApiUrl,
+        browserUrl: opts.explorerBrowserUrl ?? opts.explorerApiUrl,
+    };
+}
+
+async function getExplorer(options: VerifyOptions) {
+    if (options.apiUrl) {
+        return new Etherscan(
+            options.apiKey ?? "mock",
+            options.apiUrl,
+            options.browserUrl ?? options.apiUrl
+        );
+    }
+    if (hre.network.name.toLowerCase().includes("forking")) {
+        throw new Error(
+            "forked network is not indexed by any explorer, pass --explorer-api-url to verify against a mock explorer"
+        );
+    }
+    const chainConfig = await Etherscan.getCurrentChainConfig(
+        hre.network.name,
+        hre.network.provider,
+        hre.config.etherscan.customChains
+    );
+    return Etherscan.fromChainConfig(hre.config.etherscan.apiKey, chainConfig);
+}
+
+/**
+ * verifyContract submits the standard JSON input of the build that produced
+ * the contract, with its ABI-encoded constructor arguments, and polls the
+ * explorer until the verification finishes. Errors are returned as a failed
+ * or skipped result since the deployment itself already succeeded.
+ * @param contractFQN fully qualified name, e.g. contracts/CallHelper.sol:CallHelper
+ */
+async function verifyContract(
+    address: string,
+    contractFQN: string,
+    constructorArgs: any[],
+    options: VerifyOptions
+): Promise<VerificationResult> {
+    if (!options.enabled) {
+        return { status: "skipped", message: "verification disabled" };
+    }
+
+    let explorer: Etherscan;
+    try {
+        explorer = await getExplorer(options);
+    } catch (err: any) {
+        return { status: "skipped", message: err?.message ?? String(err) };
+    }
+    const url = explorer.getContractUrl(address);
+
+    try {
+        if (await explorer.isVerified(address)) {
+            return { status: "already-verified", url };
+        }
+
+        const buildInfo = await hre.artifacts.getBuildInfo(contractFQN);
+        if (!buildInfo) {
+            return {
+                status: "failed",
+                message: `build info for ${contractFQN} not found, compile first`,
+            };
+        }
+        const artifact = await hre.artifacts.readArtifact(contractFQN);
+        const encodedArgs = new ethers.Interface(artifact.abi)
+            .encodeDeploy(constructorArgs)
+            .slice(2);
+
+        const maxAttempts = options.maxAttempts ?? 5;
+        const retryDelayMs = options.retryDelayMs ?? 10_000;
+        for (let attempt = 1; ; attempt++) {
+            try {
+                console.log(
+                    `submitting ${contractFQN} at ${address} for verification...`
+                );
+                const submitted = await explorer.verify(
+                    address,
+                    JSON.stringify(buildInfo.input),
+                    contractFQN,
+                    `v${buildInfo.solcLongVersion}`,
+                    encodedArgs
+                );
+                const guid = submitted.message;
+                console.log(`verification submitted with GUID: ${guid}`);
+
+                const status = await explorer.getVerificationStatus(guid);
+                if (status.isSuccess()) {
+                    return { status: "verified", guid, url };
+                }
+                if (status.isAlreadyVerified()) {
+                    return { status: "already-verified", guid, url };
+                }
+                return { status: "failed", guid, message: status.message };
+            } catch (err: any) {
+                const message: string = err?.message ?? String(err);
+                // freshly deployed code may not be indexed by the explorer yet
+                if (message.includes("does not have bytecode")) {
+                    if (attempt < maxAttempts) {
+                        console.log(
+                            `explorer has not indexed ${address} yet, retrying in ${retryDelayMs}ms...`
+                        );
+                        await new Promise((resolve) =>
+                            setTimeout(resolve, retryDelayMs)
+                        );
+                        continue;
+                    }
+                }
+                if (message.includes("already verified")) {
+                    return { status: "already-verified", url };
+                }
+                throw err;
+            }
+        }
+    } catch (err: any) {
+        return { status: "failed", message: err?.message ?? String(err) };
+    }
+}
+
+/**
+ * verifyAndRecord verifies a deployed contract and rewrites the command's
+ * result.json with the verification status and GUID.
+ */
+async function verifyAndRecord(
+    outDir: string,
+    result: { address: string } & { [key: string]: any },
+    contractFQN: string,
+    constructorArgs: any[],
+    options: VerifyOptions
+) {
+    const verification = await verifyContract(
+        result.address,
+        contractFQN,
+        constructorArgs,
+        options
+    );
+    console.log(
+        `verification of ${contractFQN} at ${result.address}: ${
+            verification.status
+        }${verification.message ? ` (${verification.message})` : ""}`
+    );
+    cliHelper.writeOutputResult(
+        cliHelper.JSONStringify({ ...result, verification }),
+        outDir,
+        "result.json"
+    );
+    return verification;
+}
+
+export default {
+    verifyOptionsFromCli,
+    verifyContract,
+    verifyAndRecord,
+};
@@ -0,0 +1,220 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import watcherHelper, {
+    RunwayAlert,
+    WatchConfig,
+    WatcherState,
+} from "../scripts/lib/balance-watcher";
+import { IAIToken, RewardDistributor } from "../typechain-types";
+
+describe("RewardDistributor balance watcher", function () {
+    let token: IAIToken;
+    let distributor: RewardDistributor;
+
+    let owner: HardhatEthersSigner;
+    let recipient: HardhatEthersSigner;
+
+    let webhook: http.Server;
+    let webhookBodies: any[];
+    let config: WatchConfig;
+
+    beforeEach(async function () {
+        [owner, recipient] = await ethers.getSigners();
+        // every block of earlier tests falls out of the rate window
+        await time.increase(2 * 3600);
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        token = await IAI.deploy(owner.address, ethers.parseEther("10000000"));
+        const RewardDistributor = await ethers.getContractFactory(
+            "RewardDistributor"
+        );
+        distributor = await RewardDistributor.deploy(await token.getAddress());
+        await token.approve(await distributor.getAddress(), ethers.MaxUint256);
+        await distributor.addFunds(ethers.parseEther("100"));
+
+        webhookBodies = [];
+        webhook = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", (chunk) => (body += chunk));
+            req.on("end", () => {
+                webhookBodies.push(JSON.parse(body));
+                res.end();
+            });
+        });
+        await new Promise<void>((resolve) =>
+            webhook.listen(0, "127.0.0.1", resolve)
+        );
+        const { port } = webhook.address() as { port: number };
+
+        config = {
+            distributor: await distributor.getAddress(),
+            runwayThresholdHours: 1,
+            rateWindowHours: 1,
+            realertMinutes: 10,
+            sinks: {
+                webhookUrl: `http://127.0.0.1:${port}/alerts`,
+                file: path.join(
+                    fs.mkdtempSync(path.join(os.tmpdir(), "watcher-")),
+                    "alerts.jsonl"
+                ),
+            },
+        };
+    });
+
+    afterEach(async function () {
+        await new Promise((resolve) => webhook.close(resolve));
+    });
+
+    async function pollAndAlert(state: WatcherState) {
+        const snapshot = await watcherHelper.poll(config, state);
+        const alert = watcherHelper.evaluateAlert(config, state, snapshot);
+        if (alert) {
+            expect(await watcherHelper.deliverAlert(config.sinks, alert)).to.be
+                .empty;
+        }
+        return { snapshot, alert };
+    }
+
+    it("Should measure the rate and project the runway", async function () {
+        const state = await watcherHelper.initWatcher("hardhat", config);
+        expect(state.token).to.equal(await token.getAddress());
+        expect(state.symbol).to.equal("IAI");
+
+        const idle = await pollAndAlert(state);
+        expect(idle.snapshot.runwayHours).to.be.null;
+        expect(idle.alert).to.be.undefined;
+
+        await distributor.distribute(
+            [recipient.address],
+            [ethers.parseEther("40")]
+        );
+        await distributor.distribute(
+            [recipient.address, recipient.address],
+            [ethers.parseEther("25"), ethers.parseEther("25")]
+        );
+        const { snapshot } = await pollAndAlert(state);
+
+        const distributed = ethers.parseEther("90");
+        expect(snapshot.balance).to.equal(ethers.parseEther("10").toString());
+        expect(snapshot.distributedInWindow).to.equal(distributed.toString());
+        expect(snapshot.ratePerHour).to.equal(
+            ((distributed * 3600n) / BigInt(snapshot.windowSeconds)).toString()
+        );
+        expect(snapshot.runwayHours).to.be.closeTo(
+            (10 * snapshot.windowSeconds) / 90 / 3600,
+            1e-3
+        );
+    });
+
+    it("Should not count the logs of a failed poll twice", async function () {
+        const state = await watcherHelper.initWatcher("hardhat", config);
+        const first = await distributor.distribute(
+            [recipient.address],
+            [ethers.parseEther("40")]
+        );
+        await distributor.distribute(
+            [recipient.address],
+            [ethers.parseEther("25")]
+        );
+        // one block per request from the first distribution, the second
+        // request fails like a rate limited RPC
+        state.nextBlock = (await first.wait())!.blockNumber;
+        config.blockRange = 1;
+        const getLogs = ethers.provider.getLogs;
+        let requests = 0;
+        ethers.provider.getLogs = async (filter) => {
+            if (++requests === 2) {
+                throw new Error("rate limited");
+            }
+            return getLogs.call(ethers.provider, filter);
+        };
+        try {
+            await expect(watcherHelper.poll(config, state)).to.be.rejectedWith(
+                "rate limited"
+            );
+        } finally {
+            ethers.provider.getLogs = getLogs;
+        }
+        expect(state.distributions).to.be.empty;
+
+        const snapshot = await watcherHelper.poll(config, state);
+        expect(snapshot.distributedInWindow).to.equal(
+            ethers.parseEther("65").toString()
+        );
+    });
+
+    it("Should alert a low runway, repeat it and report the recovery", async function () {
+        const state = await watcherHelper.initWatcher("hardhat", config);
+        await distributor.distribute(
+            [recipient.address],
+            [ethers.parseEther("90")]
+        );
+
+        const low = await pollAndAlert(state);
+        expect(low.alert?.kind).to.equal("low-runway");
+        expect(low.alert?.message).to.contain("runway below 1h");
+        // still low, but within realertMinutes
+        expect((await pollAndAlert(state)).alert).to.be.undefined;
+
+        await time.increase(11 * 60);
+        const repeated = await pollAndAlert(state);
+        expect(repeated.alert?.kind).to.equal("low-runway");
+
+        await distributor.addFunds(ethers.parseEther("1000000"));
+        const recovered = await pollAndAlert(state);
+        expect(recovered.alert?.kind).to.equal("recovered");
+        expect(recovered.snapshot.runwayHours).to.be.greaterThan(1);
+
+        const kinds = ["low-runway", "low-runway", "recovered"];
+        expect(webhookBodies.map((body) => body.kind)).to.deep.equal(kinds);
+        expect(webhookBodies[0].text).to.equal(low.alert!.message);
+        const lines = fs
+            .readFileSync(config.sinks.file!, "utf-8")
+            .trim()
+            .split("\n")
+            .map((line) => JSON.parse(line) as RunwayAlert);
+        expect(lines.map((alert) => alert.kind)).to.deep.equal(kinds);
+        expect(lines[2].snapshot).to.deep.equal(recovered.snapshot);
+    });
+
+    it("Should keep alerting the other sinks when one fails", async function () {
+        const state = await watcherHelper.initWatcher("hardhat", config);
+        await distributor.distribute(
+            [recipient.address],
+            [ethers.parseEther("90")]
+        );
+        const snapshot = await watcherHelper.poll(config, state);
+        const alert = watcherHelper.evaluateAlert(config, state, snapshot)!;
+        await new Promise((resolve) => webhook.close(resolve));
+
+        const errors = await watcherHelper.deliverAlert(config.sinks, alert);
+        expect(errors).to.have.lengthOf(1);
+        expect(errors[0]).to.match(/^webhook: /);
+        expect(fs.readFileSync(config.sinks.file!, "utf-8")).to.contain(
+            alert.message
+        );
+    });
+
+    it("Should reject an invalid config", async function () {
+        expect(
+            watcherHelper.validateWatchConfig({
+                distributor: "RewardDistributor",
+                runwayThresholdHours: 0,
+                sinks: { webhookUrl: "ftp://example.com" },
+            })
+        ).to.deep.equal([
+            'distributor: "RewardDistributor" is not an address',
+            "runwayThresholdHours: must be a positive number",
+            'sinks.webhookUrl: "ftp://example.com" is not an http(s) URL',
+        ]);
+        expect(
+            watcherHelper.validateWatchConfig({ ...config, sinks: {} })
+        ).to.deep.equal(["sinks: configure a webhookUrl, a file or both"]);
+    });
+});
@@ -0,0 +1,177 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import bundleHelper from "../scripts/lib/call-bundle";
+import { CallHelper, IAIToken } from "../typechain-types";
+
+describe("CallHelper bundle", function () {
+    let callHelper: CallHelper;
+    let token: IAIToken;
+
+    beforeEach(async function () {
+        const [owner] = await ethers.getSigners();
+
+        const CallHelper = await ethers.getContractFactory("CallHelper");
+        callHelper = await CallHelper.deploy(owner.address, owner.address);
+        await callHelper.waitForDeployment();
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        token = await IAI.deploy(owner.address, ethers.parseEther("1000"));
+        await token.waitForDeployment();
+        await token.transfer(
+            await callHelper.getAddress(),
+            ethers.parseEther("10")
+        );
+    });
+
+    it("Should encode the spec and decode results back to labels", async function () {
+        const [, recipient] = await ethers.getSigners();
+        const { bundle, errors } = bundleHelper.encodeBundle("hardhat", {
+            callHelper: await callHelper.getAddress(),
+            calls: [
+                {
+                    label: "pay recipient",
+                    target: await token.getAddress(),
+                    function: "transfer(address to, uint256 value)",
+                    args: [
+                        recipient.address,
+                        ethers.parseEther("1").toString(),
+                    ],
+                },
+                {
+                    label: "overdraw",
+                    target: await token.getAddress(),
+                    function: "function transfer(address to, uint256 value)",
+                    args: [
+                        recipient.address,
+                        ethers.parseEther("100").toString(),
+                    ],
+                },
+            ],
+        });
+        expect(errors).to.be.empty;
+        expect(bundle.calls[0].data).to.equal(
+            token.interface.encodeFunctionData("transfer", [
+                recipient.address,
+                ethers.parseEther("1"),
+            ])
+        );
+        expect(bundle.calls[0].signature).to.equal(
+            ethers.encodeBytes32String("pay recipient")
+        );
+
+        const tx = await callHelper.call(
+            ...bundleHelper.bundleCallArgs(bundle)
+        );
+        const receipt = await tx.wait();
+        const results = bundleHelper.decodeBundleResults(bundle, receipt!.logs);
+
+        expect(results.map((r) => [r.label, r.status])).to.deep.equal([
+            ["pay recipient", "success"],
+            ["overdraw", "failure"],
+        ]);
+        expect(await token.balanceOf(recipient.address)).to.equal(
+            ethers.parseEther("1")
+        );
+    });
+
+    it("Should recover revert reasons in the pre-flight simulation", async function () {
+        const [owner, recipient] = await ethers.getSigners();
+        const RewardDistributor = await ethers.getContractFactory(
+            "RewardDistributor"
+        );
+        const distributor = await RewardDistributor.deploy(
+            await token.getAddress()
+        );
+        await distributor.waitForDeployment();
+        await distributor.grantRole(
+            await distributor.DISTRIBUTOR_ROLE(),
+            await callHelper.getAddress()
+        );
+
+        const { bundle } = bundleHelper.encodeBundle("hardhat", {
+            callHelper: await callHelper.getAddress(),
+            calls: [
+                {
+                    label: "pay recipient",
+                    target: await token.getAddress(),
+                    function: "transfer(address,uint256)",
+                    args: [recipient.address, "1"],
+                },
+                {
+                    label: "overdraw",
+                    target: await token.getAddress(),
+                    function: "transfer(address,uint256)",
+                    args: [
+                        recipient.address,
+                        ethers.parseEther("100").toString(),
+                    ],
+                },
+                {
+                    label: "mismatch",
+                    target: await distributor.getAddress(),
+                    function: "distribute(address[],uint256[])",
+                    args: [[recipient.address], []],
+                },
+                {
+                    label: "add funds",
+                    target: await distributor.getAddress(),
+                    function: "addFunds(uint256)",
+                    args: ["1"],
+                },
+                {
+                    label: "eoa",
+                    target: owner.address,
+                    function: "foo()",
+                    args: [],
+                },
+            ],
+        });
+        const preflight = await bundleHelper.simulateBundle(
+            ethers.provider,
+            bundle
+        );
+
+        expect(preflight.map((r) => r.ok)).to.deep.equal([
+            true,
+            false,
+            false,
+            false,
+            true,
+        ]);
+        expect(preflight[1].revert!.name).to.equal("ERC20InsufficientBalance");
+        expect(preflight[1].revert!.args.needed).to.equal(
+            ethers.parseEther("100").toString()
+        );
+        expect(preflight[2].revert!.message).to.equal(
+            "reverted with reason: Recipients and amounts length mismatch"
+        );
+        expect(preflight[3].revert!.name).to.equal(
+            "AccessControlUnauthorizedAccount"
+        );
+        expect(preflight[4].warning).to.match(/no code/);
+    });
+
+    it("Should report every invalid entry", async function () {
+        const { errors } = bundleHelper.encodeBundle("hardhat", {
+            callHelper: await callHelper.getAddress(),
+            calls: [
+                {
+                    label: "same",
+                    target: await token.getAddress(),
+                    function: "approve(address,uint256)",
+                    args: [ethers.ZeroAddress],
+                },
+                {
+                    label: "same",
+                    target: await token.getAddress(),
+                    function: "approve(address,uint256)",
+                    args: [ethers.ZeroAddress, "1"],
+                },
+            ],
+        });
+        expect(errors).to.deep.equal([
+            "calls[0] (same): approve(address,uint256) takes 2 argument(s), got 1",
+            "calls[1] (same): label must be unique within the bundle",
+        ]);
+    });
+});
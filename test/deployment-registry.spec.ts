@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "ethers";
+import registryHelper from "../scripts/lib/deployment-registry";
+
+describe("Deployment registry", function () {
+    const network = "testnet";
+    const first = ethers.getAddress("0x" + "11".repeat(20));
+    const second = ethers.getAddress("0x" + "22".repeat(20));
+    const token = ethers.getAddress("0x" + "33".repeat(20));
+
+    let cwd: string;
+
+    // the registry reads out/<network>/deployment relative to the working
+    // directory, like the commands run from scripts/
+    beforeEach(function () {
+        cwd = process.cwd();
+        process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "registry-")));
+    });
+
+    afterEach(function () {
+        process.chdir(cwd);
+    });
+
+    function writeDeployment(
+        contractName: string,
+        timestamp: string,
+        result?: {}
+    ) {
+        const dir = path.join(
+            "out",
+            network,
+            "deployment",
+            contractName,
+            timestamp
+        );
+        fs.mkdirSync(dir, { recursive: true });
+        if (result) {
+            fs.writeFileSync(
+                path.join(dir, "result.json"),
+                JSON.stringify(result)
+            );
+        }
+    }
+
+    beforeEach(function () {
+        writeDeployment("RewardDistributor", "1000", {
+            address: first,
+            txHash: "0x01",
+        });
+        writeDeployment("RewardDistributor", "2000", { address: second });
+        writeDeployment("iAIToken", "1500", { address: token });
+        // a run that failed before writing the result
+        writeDeployment("RewardDistributor", "3000");
+        writeDeployment("RewardDistributor", "notes", { address: first });
+        writeDeployment("CallHelper", "1000", { status: "failed" });
+        writeDeployment("summary", "1000", { address: first });
+    });
+
+    it("Should list the deployments newest first", function () {
+        expect(registryHelper.listContracts(network)).to.deep.equal([
+            "RewardDistributor",
+            "iAIToken",
+        ]);
+        expect(
+            registryHelper
+                .history(network, "RewardDistributor")
+                .map(({ timestamp, address, txHash, pinned }) => ({
+                    timestamp,
+                    address,
+                    txHash,
+                    pinned,
+                }))
+        ).to.deep.equal([
+            {
+                timestamp: "2000",
+                address: second,
+                txHash: undefined,
+                pinned: false,
+            },
+            {
+                timestamp: "1000",
+                address: first,
+                txHash: "0x01",
+                pinned: false,
+            },
+        ]);
+        expect(registryHelper.history(network, "Unknown")).to.be.empty;
+        expect(registryHelper.listContracts("othernet")).to.be.empty;
+    });
+
+    it("Should resolve the pinned deployment over the latest", function () {
+        expect(
+            registryHelper.resolve(network, "RewardDistributor")?.address
+        ).to.equal(second);
+
+        expect(
+            registryHelper.pin(network, "RewardDistributor", "1000")
+        ).to.include({ address: first, pinned: true });
+        expect(registryHelper.resolve(network, "RewardDistributor")).to.include(
+            { timestamp: "1000", pinned: true }
+        );
+        const pins = JSON.parse(
+            fs.readFileSync(registryHelper.pinsPath(network), "utf-8")
+        );
+        expect(pins.RewardDistributor).to.include({
+            timestamp: "1000",
+            address: first,
+        });
+
+        // by address, in any case
+        registryHelper.pin(network, "RewardDistributor", second.toLowerCase());
+        expect(
+            registryHelper.resolve(network, "RewardDistributor")?.timestamp
+        ).to.equal("2000");
+
+        expect(registryHelper.unpin(network, "RewardDistributor")).to.be.true;
+        expect(registryHelper.unpin(network, "RewardDistributor")).to.be.false;
+        expect(registryHelper.resolve(network, "RewardDistributor")?.pinned).to
+            .be.false;
+
+        expect(() =>
+            registryHelper.pin(network, "RewardDistributor", "3000")
+        ).to.throw(
+            "no deployment of RewardDistributor on testnet matches 3000"
+        );
+    });
+
+    it("Should resolve names with a deployment selector", function () {
+        expect(
+            registryHelper.resolveName(network, "RewardDistributor@1000")
+                ?.address
+        ).to.equal(first);
+        expect(
+            registryHelper.resolveName(network, `RewardDistributor@${second}`)
+                ?.timestamp
+        ).to.equal("2000");
+        expect(registryHelper.resolveName(network, "RewardDistributor@9999")).to
+            .be.undefined;
+
+        expect(registryHelper.resolveAddress(network, token)).to.equal(token);
+        expect(registryHelper.resolveAddress(network, "iAIToken")).to.equal(
+            token
+        );
+        expect(() => registryHelper.resolveAddress(network, "0x1234")).to.throw(
+            '"0x1234" is not a valid address'
+        );
+        expect(() =>
+            registryHelper.resolveAddress(network, "Unknown")
+        ).to.throw(
+            '"Unknown" is neither an address nor a deployment in the testnet registry (known: RewardDistributor, iAIToken)'
+        );
+    });
+
+    it("Should resolve input fields and report each unresolvable one", function () {
+        const { input, errors } = registryHelper.resolveInputAddresses(
+            network,
+            {
+                token: "iAIToken",
+                distributor: "RewardDistributor@1000",
+                factory: "",
+                admin: first,
+                callHelper: "CallHelper",
+                pool: "0xnot",
+                amount: "10",
+            },
+            ["token", "distributor", "factory", "admin", "callHelper", "pool"]
+        );
+        expect(input).to.deep.equal({
+            token,
+            distributor: first,
+            factory: "",
+            admin: first,
+            callHelper: "CallHelper",
+            pool: "0xnot",
+            amount: "10",
+        });
+        expect(errors).to.deep.equal([
+            'callHelper: "CallHelper" is neither an address nor a deployment in the testnet registry (known: RewardDistributor, iAIToken)',
+            'pool: "0xnot" is not a valid address',
+        ]);
+    });
+});
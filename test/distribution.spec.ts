@@ -0,0 +1,297 @@
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers } from "hardhat";
+import distributionHelper, { Recipient } from "../scripts/lib/distribution";
+import journalHelper, {
+    DistributionJournal,
+    JournalChunk,
+} from "../scripts/lib/distribution-journal";
+import { IAIToken, RewardDistributor } from "../typechain-types";
+
+describe("Distribution", function () {
+    let signer: HardhatEthersSigner;
+    let first: HardhatEthersSigner;
+    let second: HardhatEthersSigner;
+    let token: IAIToken;
+    let distributor: RewardDistributor;
+    let journal: DistributionJournal;
+    let cwd: string;
+
+    // the journal is written to out/<network> relative to the working
+    // directory, like the commands run from scripts/
+    beforeEach(async function () {
+        cwd = process.cwd();
+        process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), "distribute-")));
+
+        [signer, first, second] = await ethers.getSigners();
+        token = await (
+            await ethers.getContractFactory("IAIToken")
+        ).deploy(signer.address, ethers.parseEther("1000"));
+        distributor = await (
+            await ethers.getContractFactory("RewardDistributor")
+        ).deploy(await token.getAddress());
+        await token.approve(await distributor.getAddress(), ethers.MaxUint256);
+        await distributor.addFunds(ethers.parseEther("100"));
+
+        journal = {
+            network: "hardhat",
+            distributor: await distributor.getAddress(),
+            token: await token.getAddress(),
+            signer: signer.address,
+            csvPath: "recipients.csv",
+            csvSha256: "ab".repeat(32),
+            startBlock: await ethers.provider.getBlockNumber(),
+            createdAt: +new Date(),
+            updatedAt: +new Date(),
+            chunks: [],
+        };
+    });
+
+    afterEach(async function () {
+        process.chdir(cwd);
+        await ethers.provider.send("evm_setAutomine", [true]);
+    });
+
+    const pendingChunk = (
+        nonce: number,
+        recipients: string[],
+        amounts: bigint[]
+    ): JournalChunk => ({
+        index: 0,
+        recipients,
+        amounts: amounts.map(String),
+        status: "pending",
+        nonce,
+        updatedAt: +new Date(),
+    });
+
+    it("Should parse the recipients and report every invalid line", function () {
+        const checksummed = first.address;
+        const lowered = second.address.toLowerCase();
+        expect(
+            distributionHelper.parseRecipients(
+                [
+                    "address,amount",
+                    "# comment",
+                    "",
+                    `${checksummed}, 1.5`,
+                    `${second.address},2`,
+                ].join("\n"),
+                18n
+            )
+        ).to.deep.equal({
+            recipients: [
+                {
+                    line: 4,
+                    address: checksummed,
+                    amount: "1.5",
+                    amountWei: ethers.parseEther("1.5"),
+                },
+                {
+                    line: 5,
+                    address: second.address,
+                    amount: "2",
+                    amountWei: ethers.parseEther("2"),
+                },
+            ],
+            errors: [],
+        });
+
+        expect(
+            distributionHelper.parseRecipients(
+                [
+                    `${checksummed},1`,
+                    "address,amount",
+                    `${checksummed},2`,
+                    `${lowered},1`,
+                    `${ethers.ZeroAddress},1`,
+                    `${signer.address},-1`,
+                    `${signer.address},0`,
+                    "0x1234,1",
+                ].join("\r\n"),
+                18n
+            ).errors
+        ).to.deep.equal([
+            'line 2: "address" is not a valid address',
+            `line 3: duplicate recipient ${checksummed}, first on line 1`,
+            `line 4: "${lowered}" is not checksummed, expected ${second.address}`,
+            "line 5: recipient must not be the zero address",
+            'line 6: "-1" is not a token amount',
+            `line 7: duplicate recipient ${signer.address}, first on line 6`,
+            'line 8: "0x1234" is not a valid address',
+        ]);
+        expect(
+            distributionHelper.parseRecipients("address,amount\n", 18n).errors
+        ).to.deep.equal(["no recipients"]);
+    });
+
+    it("Should halve a chunk until its estimate fits", async function () {
+        const remaining: Recipient[] = Array.from({ length: 10 }, (_, i) => ({
+            line: i + 1,
+            address: ethers.getAddress(
+                `0x${(i + 1).toString(16).padStart(40, "0")}`
+            ),
+            amount: "1",
+            amountWei: ethers.parseEther("1"),
+        }));
+        const sizes: number[] = [];
+        const estimateGas = async (chunk: Recipient[]) => {
+            sizes.push(chunk.length);
+            return BigInt(chunk.length) * 100n;
+        };
+
+        const chunk = await distributionHelper.nextChunk(
+            remaining,
+            2,
+            { chunkSize: 20, maxGasPerChunk: 250n },
+            estimateGas
+        );
+        expect(chunk.map(({ line }) => line)).to.deep.equal([3, 4]);
+        expect(sizes).to.deep.equal([8, 4, 2]);
+
+        // a single recipient goes out whatever its estimate
+        sizes.length = 0;
+        expect(
+            await distributionHelper.nextChunk(
+                remaining,
+                9,
+                { chunkSize: 5, maxGasPerChunk: 50n },
+                estimateGas
+            )
+        ).to.deep.equal([remaining[9]]);
+        expect(sizes).to.deep.equal([1]);
+    });
+
+    it("Should journal chunks and list the paid recipients", function () {
+        expect(
+            journalHelper.loadJournal(
+                journal.network,
+                journal.distributor,
+                journal.csvSha256
+            )
+        ).to.be.undefined;
+        journal.chunks.push(
+            pendingChunk(0, [first.address], [1n]),
+            pendingChunk(1, [second.address], [2n])
+        );
+        journalHelper.saveJournal(journal);
+        journalHelper.updateChunk(journal, journal.chunks[0], {
+            status: "confirmed",
+            txHash: "0x01",
+        });
+        journalHelper.updateChunk(journal, journal.chunks[1], {
+            status: "failed",
+        });
+
+        const loaded = journalHelper.loadJournal(
+            journal.network,
+            journal.distributor,
+            journal.csvSha256
+        )!;
+        expect(loaded.chunks.map(({ status }) => status)).to.deep.equal([
+            "confirmed",
+            "failed",
+        ]);
+        expect([...journalHelper.paidRecipients(loaded)]).to.deep.equal([
+            first.address.toLowerCase(),
+        ]);
+        // another CSV content starts its own journal
+        expect(
+            journalHelper.loadJournal(
+                journal.network,
+                journal.distributor,
+                "cd".repeat(32)
+            )
+        ).to.be.undefined;
+    });
+
+    it("Should settle a chunk by any of its recorded attempts", async function () {
+        const nonce = await signer.getNonce();
+        const tx = await distributor.distribute([first.address], [1n]);
+        const receipt = await tx.wait();
+
+        const chunk = {
+            ...pendingChunk(nonce, [first.address], [1n]),
+            txHash: ethers.id("never broadcast"),
+            replacedTxHashes: [tx.hash],
+        };
+        expect(
+            await distributionHelper.resolvePendingChunk(journal, chunk)
+        ).to.deep.equal({
+            status: "confirmed",
+            txHash: tx.hash,
+            blockNumber: receipt!.blockNumber,
+        });
+    });
+
+    it("Should fail a chunk whose nonce was never used and wait for a pending one", async function () {
+        const nonce = await signer.getNonce();
+        expect(
+            await distributionHelper.resolvePendingChunk(
+                journal,
+                pendingChunk(nonce, [first.address], [1n])
+            )
+        ).to.deep.equal({ status: "failed" });
+
+        // crashed after sending, before the hash was journaled
+        await ethers.provider.send("evm_setAutomine", [false]);
+        await distributor.distribute([first.address], [1n]);
+        await expect(
+            distributionHelper.resolvePendingChunk(
+                journal,
+                pendingChunk(nonce, [first.address], [1n])
+            )
+        ).to.be.rejectedWith(
+            `chunk 0 may still be pending with nonce ${nonce}, re-run once it is mined`
+        );
+        await mine();
+        expect(
+            await distributionHelper.resolvePendingChunk(
+                journal,
+                pendingChunk(nonce, [first.address], [1n])
+            )
+        ).to.include({ status: "confirmed" });
+    });
+
+    it("Should find a chunk sent under an unrecorded hash by all its payments", async function () {
+        const amounts = [1n, 2n];
+        const recipients = [first.address, second.address];
+        // an earlier chunk paid the first recipient the same amount
+        await distributor.distribute([first.address], [1n]);
+        await mine(3);
+
+        // the nonce went to a transaction paying only part of the chunk
+        const partNonce = await signer.getNonce();
+        await distributor.distribute([second.address], [2n]);
+        expect(
+            await distributionHelper.resolvePendingChunk(
+                journal,
+                pendingChunk(partNonce, recipients, amounts),
+                2
+            )
+        ).to.deep.equal({ status: "failed" });
+
+        const nonce = await signer.getNonce();
+        const tx = await distributor.distribute(
+            [...recipients].reverse(),
+            [...amounts].reverse()
+        );
+        const receipt = await tx.wait();
+        await mine(5);
+        expect(
+            await distributionHelper.resolvePendingChunk(
+                journal,
+                pendingChunk(nonce, recipients, amounts),
+                2
+            )
+        ).to.deep.equal({
+            status: "confirmed",
+            txHash: tx.hash,
+            blockNumber: receipt!.blockNumber,
+        });
+    });
+});
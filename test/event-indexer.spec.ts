@@ -0,0 +1,277 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+import indexerHelper from "../scripts/lib/event-indexer";
+import {
+    IAIToken,
+    MMVPaymentRouterV1,
+    RewardDistributor,
+} from "../typechain-types";
+
+describe("Event indexer", function () {
+    let token: IAIToken;
+    let distributor: RewardDistributor;
+    let router: MMVPaymentRouterV1;
+
+    let owner: HardhatEthersSigner;
+    let user: HardhatEthersSigner;
+
+    let dbPath: string;
+    let chainId: bigint;
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        token = await IAI.deploy(owner.address, ethers.parseEther("1000000"));
+        const RewardDistributor = await ethers.getContractFactory(
+            "RewardDistributor"
+        );
+        distributor = await RewardDistributor.deploy(await token.getAddress());
+        const PaymentRouter = await ethers.getContractFactory(
+            "MMVPaymentRouterV1"
+        );
+        router = await PaymentRouter.deploy();
+        await token.approve(await distributor.getAddress(), ethers.MaxUint256);
+        await token
+            .connect(user)
+            .approve(await router.getAddress(), ethers.MaxUint256);
+
+        dbPath = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+            "events.sqlite"
+        );
+        chainId = (await ethers.provider.getNetwork()).chainId;
+    });
+
+    async function openWithSources() {
+        const db = indexerHelper.openStore(dbPath, chainId);
+        const fromBlock = await ethers.provider.getBlockNumber();
+        await indexerHelper.addSources(db, [
+            {
+                address: await distributor.getAddress(),
+                name: "RewardDistributor",
+                kind: "RewardDistributor",
+                fromBlock,
+            },
+            {
+                address: await router.getAddress(),
+                name: "MMVPaymentRouterV1",
+                kind: "PaymentRouter",
+                fromBlock,
+            },
+        ]);
+        return db;
+    }
+
+    it("Should index, resume and query the events", async function () {
+        const db = await openWithSources();
+        await distributor.addFunds(ethers.parseEther("100"));
+        await distributor.distribute(
+            [user.address, user.address],
+            [ethers.parseEther("30"), ethers.parseEther("20")]
+        );
+        await router.pay(
+            user.address,
+            ethers.parseEther("15"),
+            await token.getAddress()
+        );
+        await router.adminTokenWithdraw(
+            await token.getAddress(),
+            owner.address,
+            ethers.parseEther("5")
+        );
+
+        // a small range checks the chunked log requests
+        const first = await indexerHelper.sync(db, { blockRange: 2 });
+        expect(first.inserted).to.equal(5);
+        expect(first.reorgedFrom).to.be.undefined;
+        const again = await indexerHelper.sync(db);
+        expect(again.inserted).to.equal(0);
+        expect(again.fromBlock).to.equal(first.toBlock + 1);
+
+        const received = indexerHelper.queryEvents(db, {
+            account: user.address,
+            direction: "in",
+        });
+        expect(received.map((event) => event.event)).to.deep.equal([
+            "TokensDistributed",
+            "TokensDistributed",
+        ]);
+        expect(received[0]).to.include({
+            contract: await distributor.getAddress(),
+            contractName: "RewardDistributor",
+            counterparty: owner.address,
+            token: await token.getAddress(),
+            amount: ethers.parseEther("30").toString(),
+        });
+
+        const [payment] = indexerHelper.queryEvents(db, {
+            events: ["PaymentMade"],
+        });
+        expect(payment).to.include({
+            direction: "out",
+            account: user.address,
+            token: await token.getAddress(),
+            amount: ethers.parseEther("15").toString(),
+        });
+
+        const tokens = indexerHelper.tokens(db);
+        expect(tokens.get(await token.getAddress())).to.include({
+            symbol: "IAI",
+            decimals: 18,
+        });
+        const totals = indexerHelper.totals(
+            indexerHelper.queryEvents(db, { account: user.address }),
+            tokens
+        );
+        expect(
+            totals.map(({ event, count, amount }) => ({ event, count, amount }))
+        ).to.deep.equal([
+            {
+                event: "TokensDistributed",
+                count: 2,
+                amount: ethers.parseEther("50").toString(),
+            },
+            {
+                event: "PaymentMade",
+                count: 1,
+                amount: ethers.parseEther("15").toString(),
+            },
+        ]);
+
+        const latest = (await ethers.provider.getBlock("latest"))!;
+        expect(indexerHelper.queryEvents(db, { since: latest.timestamp + 1 }))
+            .to.be.empty;
+        db.close();
+    });
+
+    it("Should take the emergency withdrawal amount from the staked token transfer", async function () {
+        const rewardToken = await (
+            await ethers.getContractFactory("IAIToken")
+        ).deploy(owner.address, ethers.parseEther("1000000"));
+        const factory = await (
+            await ethers.getContractFactory("SmartChefFactory")
+        ).deploy();
+        await rewardToken.approve(
+            await factory.getAddress(),
+            ethers.MaxUint256
+        );
+        const startBlock = (await ethers.provider.getBlockNumber()) + 10;
+        await factory.deployPool(
+            await token.getAddress(),
+            await rewardToken.getAddress(),
+            ethers.parseEther("1"),
+            startBlock,
+            startBlock + 100,
+            0n,
+            owner.address
+        );
+        const [created] = await factory.queryFilter(
+            factory.filters.NewSmartChefContract()
+        );
+        const chef = await ethers.getContractAt(
+            "SmartChefInitializable",
+            created.args.smartChef
+        );
+
+        const db = indexerHelper.openStore(dbPath, chainId);
+        await indexerHelper.addSources(db, [
+            {
+                address: await chef.getAddress(),
+                name: "SmartChef",
+                kind: "SmartChef",
+                fromBlock: await ethers.provider.getBlockNumber(),
+            },
+        ]);
+        await token.transfer(user.address, ethers.parseEther("40"));
+        await token
+            .connect(user)
+            .approve(await chef.getAddress(), ethers.MaxUint256);
+        await chef.connect(user).deposit(ethers.parseEther("40"));
+        await chef.connect(user).emergencyWithdraw();
+        // nothing staked, nothing transferred
+        await chef.emergencyWithdraw();
+
+        await indexerHelper.sync(db);
+        const withdrawals = indexerHelper.queryEvents(db, {
+            events: ["EmergencyWithdraw"],
+        });
+        expect(
+            withdrawals.map(({ direction, account, token, amount }) => ({
+                direction,
+                account,
+                token,
+                amount,
+            }))
+        ).to.deep.equal([
+            {
+                direction: "in",
+                account: user.address,
+                token: await token.getAddress(),
+                amount: ethers.parseEther("40").toString(),
+            },
+            {
+                direction: "in",
+                account: owner.address,
+                token: await token.getAddress(),
+                amount: "0",
+            },
+        ]);
+        db.close();
+    });
+
+    it("Should index reorged blocks again", async function () {
+        const db = await openWithSources();
+        await indexerHelper.sync(db);
+        const snapshot = await network.provider.send("evm_snapshot");
+        await distributor.addFunds(ethers.parseEther("100"));
+        expect((await indexerHelper.sync(db)).inserted).to.equal(1);
+
+        await network.provider.send("evm_revert", [snapshot]);
+        const reorgBlock = (await ethers.provider.getBlockNumber()) + 1;
+        await distributor.addFunds(ethers.parseEther("7"));
+
+        const result = await indexerHelper.sync(db);
+        expect(result.reorgedFrom).to.equal(reorgBlock);
+        expect(result.inserted).to.equal(1);
+        const events = indexerHelper.queryEvents(db, {});
+        expect(events.map((event) => event.amount)).to.deep.equal([
+            ethers.parseEther("7").toString(),
+        ]);
+        db.close();
+    });
+
+    it("Should export CSV and keep a store to a single chain", async function () {
+        const db = await openWithSources();
+        await distributor.addFunds(ethers.parseEther("1.5"));
+        await indexerHelper.sync(db);
+        const csv = indexerHelper
+            .toCsv(indexerHelper.queryEvents(db, {}), indexerHelper.tokens(db))
+            .trim()
+            .split("\n");
+        db.close();
+
+        expect(csv).to.have.lengthOf(2);
+        expect(csv[0]).to.equal(
+            "time,block,tx_hash,log_index,contract,contract_name,event,direction,account,counterparty,token,symbol,amount,amount_wei"
+        );
+        expect(csv[1]).to.match(
+            new RegExp(
+                `,RewardDistributor,FundsAdded,out,${
+                    owner.address
+                },,${await token.getAddress()},IAI,1.5,1500000000000000000$`
+            )
+        );
+
+        expect(() => indexerHelper.openStore(dbPath, chainId + 1n)).to.throw(
+            `indexes chain ID ${chainId}`
+        );
+        expect(() =>
+            indexerHelper.openStore(path.join(path.dirname(dbPath), "missing"))
+        ).to.throw("run sync first");
+    });
+});
@@ -0,0 +1,94 @@
+import { setBalance } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import prompts from "prompts";
+import * as hre from "hardhat";
+import { ethers } from "hardhat";
+import { HttpNetworkConfig } from "hardhat/types";
+import keystoreHelper from "../scripts/lib/keystore";
+import cliHelper from "../scripts/cmd/cli-helper";
+
+describe("Keystore", function () {
+    const wallet = new ethers.Wallet(ethers.hexlify(ethers.randomBytes(32)));
+    let dir: string;
+    let keystorePath: string;
+
+    before(async function () {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), "keystore-"));
+        keystorePath = path.join(dir, "keystore.json");
+        // a cheap scrypt keeps the test fast
+        fs.writeFileSync(
+            keystorePath,
+            await ethers.encryptKeystoreJson(wallet, "secret", {
+                scrypt: { N: 16 },
+            })
+        );
+    });
+
+    afterEach(function () {
+        delete (hre.network.config as HttpNetworkConfig).keystore;
+    });
+
+    it("Should decrypt a keystore and report a wrong password", async function () {
+        expect(keystoreHelper.keystoreAddress(keystorePath)).to.equal(
+            wallet.address
+        );
+        const decrypted = await keystoreHelper.decryptKeystore(
+            keystorePath,
+            "secret"
+        );
+        expect(decrypted.address).to.equal(wallet.address);
+        expect(decrypted.privateKey).to.equal(wallet.privateKey);
+
+        await expect(
+            keystoreHelper.decryptKeystore(keystorePath, "wrong")
+        ).to.be.rejectedWith(`wrong password for keystore ${keystorePath}`);
+
+        const notKeystore = path.join(dir, "input.json");
+        fs.writeFileSync(notKeystore, JSON.stringify({ address: "0x" }));
+        await expect(
+            keystoreHelper.decryptKeystore(notKeystore, "secret")
+        ).to.be.rejectedWith(
+            `${notKeystore} is not an encrypted JSON keystore`
+        );
+    });
+
+    it("Should sign with the first account without a keystore", async function () {
+        const [account] = await ethers.getSigners();
+        expect((await cliHelper.getSigner(hre)).address).to.equal(
+            account.address
+        );
+    });
+
+    it("Should sign with the network's keystore once the password is given", async function () {
+        (hre.network.config as HttpNetworkConfig).keystore = keystorePath;
+
+        // an aborted prompt
+        prompts.inject([new Error("aborted")]);
+        await expect(cliHelper.getSigner(hre)).to.be.rejectedWith(
+            `no password given for keystore ${keystorePath}`
+        );
+        prompts.inject(["wrong"]);
+        await expect(cliHelper.getSigner(hre)).to.be.rejectedWith(
+            `wrong password for keystore ${keystorePath}`
+        );
+
+        prompts.inject(["secret"]);
+        const signer = await cliHelper.getSigner(hre);
+        expect(signer.address).to.equal(wallet.address);
+        expect(signer.provider).to.equal(ethers.provider);
+
+        // decrypted once, a second prompt would find no injected password
+        const again = await cliHelper.getSigner(hre);
+        expect(again.address).to.equal(wallet.address);
+
+        await setBalance(wallet.address, ethers.parseEther("1"));
+        const tx = await again.sendTransaction({
+            to: wallet.address,
+            value: 1n,
+        });
+        expect(tx.from).to.equal(wallet.address);
+    });
+});
@@ -0,0 +1,160 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import offlineHelper, {
+    FALLBACK_GAS_LIMIT,
+    UnsignedBundle,
+} from "../scripts/lib/offline-signing";
+
+describe("Offline signing", function () {
+    const inputContent = JSON.stringify({ initialSupply: "1000" });
+
+    async function fundedWallet() {
+        const [funder] = await ethers.getSigners();
+        const wallet = ethers.Wallet.createRandom();
+        await (
+            await funder.sendTransaction({
+                to: wallet.address,
+                value: ethers.parseEther("1"),
+            })
+        ).wait();
+        return wallet;
+    }
+
+    // deploys a token and transfers out of it, the transfer depends on the
+    // deployment within the same bundle
+    async function buildBundle(from: string, recipient: string) {
+        const bundle = await offlineHelper.createUnsignedBundle(
+            ethers.provider,
+            "test",
+            "hardhat",
+            from,
+            inputContent
+        );
+        const IAI = await ethers.getContractFactory("IAIToken");
+        const deployment = await offlineHelper.addTransaction(
+            ethers.provider,
+            bundle,
+            "deploy",
+            "deploy IAIToken",
+            await IAI.getDeployTransaction(from, ethers.parseEther("1000"))
+        );
+        await offlineHelper.addTransaction(
+            ethers.provider,
+            bundle,
+            "transfer",
+            "transfer to recipient",
+            {
+                to: deployment.contractAddress,
+                data: IAI.interface.encodeFunctionData("transfer", [
+                    recipient,
+                    ethers.parseEther("1"),
+                ]),
+            },
+            FALLBACK_GAS_LIMIT
+        );
+        return bundle;
+    }
+
+    it("Should broadcast a signed bundle once and skip it on a re-run", async function () {
+        const [, recipient] = await ethers.getSigners();
+        const wallet = await fundedWallet();
+        const unsigned = await buildBundle(wallet.address, recipient.address);
+        expect(unsigned.transactions.map(({ tx }) => tx.nonce)).to.deep.equal([
+            0, 1,
+        ]);
+
+        // the bundle travels as a file, sign what was written
+        const signed = await offlineHelper.signBundle(
+            JSON.parse(JSON.stringify(unsigned)) as UnsignedBundle,
+            wallet
+        );
+        const { chainId } = await ethers.provider.getNetwork();
+        expect(
+            offlineHelper.validateSignedBundle(signed, {
+                command: "test",
+                chainId,
+                inputContent,
+            })
+        ).to.be.empty;
+
+        const results = await offlineHelper.broadcastBundle(
+            ethers.provider,
+            signed
+        );
+        expect(results.map((result) => result.sent)).to.deep.equal([
+            true,
+            true,
+        ]);
+        expect(results[0].contractAddress).to.equal(
+            unsigned.transactions[0].contractAddress
+        );
+        const token = await ethers.getContractAt(
+            "IAIToken",
+            results[0].contractAddress!
+        );
+        expect(await token.balanceOf(recipient.address)).to.equal(
+            ethers.parseEther("1")
+        );
+
+        const rerun = await offlineHelper.broadcastBundle(
+            ethers.provider,
+            signed
+        );
+        expect(rerun.map((result) => result.sent)).to.deep.equal([
+            false,
+            false,
+        ]);
+        expect(rerun.map((result) => result.hash)).to.deep.equal(
+            results.map((result) => result.hash)
+        );
+    });
+
+    it("Should reject a wrong key, a changed input and tampered transactions", async function () {
+        const [, recipient] = await ethers.getSigners();
+        const wallet = await fundedWallet();
+        const unsigned = await buildBundle(wallet.address, recipient.address);
+
+        await expect(
+            offlineHelper.signBundle(unsigned, ethers.Wallet.createRandom())
+        ).to.be.rejectedWith(`bundle was built for ${wallet.address}`);
+
+        const signed = await offlineHelper.signBundle(unsigned, wallet);
+        const { chainId } = await ethers.provider.getNetwork();
+        expect(
+            offlineHelper.validateSignedBundle(signed, {
+                command: "test",
+                chainId,
+                inputContent: JSON.stringify({ initialSupply: "2000" }),
+            })
+        ).to.deep.equal(["bundle was built from a different input file"]);
+
+        signed.transactions[1].tx.to = recipient.address;
+        expect(
+            offlineHelper.validateSignedBundle(signed, {
+                command: "test",
+                chainId,
+                inputContent,
+            })
+        ).to.deep.equal([
+            "transactions[1] (transfer to recipient): raw transaction differs from the bundle",
+        ]);
+    });
+
+    it("Should refuse to broadcast when the nonce was used meanwhile", async function () {
+        const [, recipient] = await ethers.getSigners();
+        const wallet = await fundedWallet();
+        const signed = await offlineHelper.signBundle(
+            await buildBundle(wallet.address, recipient.address),
+            wallet
+        );
+
+        await (
+            await wallet
+                .connect(ethers.provider)
+                .sendTransaction({ to: recipient.address, value: 1n })
+        ).wait();
+        await expect(
+            offlineHelper.broadcastBundle(ethers.provider, signed)
+        ).to.be.rejectedWith("nonce 0 of");
+    });
+});
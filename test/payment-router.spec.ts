@@ -0,0 +1,121 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { IAIToken, MMVPaymentRouterV1 } from "../typechain-types";
+
+describe("MMVPaymentRouterV1", function () {
+    let router: MMVPaymentRouterV1;
+    let token: IAIToken;
+
+    let owner: HardhatEthersSigner;
+    let user: HardhatEthersSigner;
+    let operator: HardhatEthersSigner;
+
+    beforeEach(async function () {
+        [owner, user, operator] = await ethers.getSigners();
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        token = await IAI.deploy(owner.address, ethers.parseEther("1000000"));
+        await token.waitForDeployment();
+        await token.transfer(user.address, ethers.parseEther("1000"));
+
+        const PaymentRouter = await ethers.getContractFactory(
+            "MMVPaymentRouterV1"
+        );
+        router = await PaymentRouter.deploy();
+        await router.waitForDeployment();
+    });
+
+    describe("Roles", function () {
+        it("Should grant both admin roles to the deployer", async function () {
+            expect(
+                await router.hasRole(
+                    await router.DEFAULT_ADMIN_ROLE(),
+                    owner.address
+                )
+            ).to.be.true;
+            expect(
+                await router.hasRole(
+                    await router.SUPER_ADMIN_ROLE(),
+                    owner.address
+                )
+            ).to.be.true;
+        });
+
+        it("Should let a granted super admin collect payments", async function () {
+            const SUPER_ADMIN_ROLE = await router.SUPER_ADMIN_ROLE();
+            const amount = ethers.parseEther("10");
+            await token
+                .connect(user)
+                .approve(await router.getAddress(), amount);
+
+            await expect(
+                router
+                    .connect(operator)
+                    .pay(user.address, amount, await token.getAddress())
+            ).to.be.revertedWithCustomError(
+                router,
+                "AccessControlUnauthorizedAccount"
+            );
+
+            await router.grantRole(SUPER_ADMIN_ROLE, operator.address);
+            await expect(
+                router
+                    .connect(operator)
+                    .pay(user.address, amount, await token.getAddress())
+            ).to.not.reverted;
+        });
+    });
+
+    describe("Payments", function () {
+        it("Should pull an approved payment into the router", async function () {
+            const amount = ethers.parseEther("10");
+            const routerAddress = await router.getAddress();
+            const tokenAddress = await token.getAddress();
+            await token.connect(user).approve(routerAddress, amount);
+
+            // NOTE: the contract emits token and user in swapped order
+            await expect(router.pay(user.address, amount, tokenAddress))
+                .to.emit(router, "PaymentMade")
+                .withArgs(tokenAddress, user.address, amount);
+            expect(await token.balanceOf(routerAddress)).to.equal(amount);
+        });
+
+        it("Should revert a payment without allowance", async function () {
+            await expect(
+                router.pay(
+                    user.address,
+                    ethers.parseEther("10"),
+                    await token.getAddress()
+                )
+            ).to.be.revertedWithCustomError(
+                token,
+                "ERC20InsufficientAllowance"
+            );
+        });
+
+        it("Should let a super admin withdraw collected tokens", async function () {
+            const amount = ethers.parseEther("10");
+            const routerAddress = await router.getAddress();
+            const tokenAddress = await token.getAddress();
+            await token.connect(user).approve(routerAddress, amount);
+            await router.pay(user.address, amount, tokenAddress);
+
+            await expect(
+                router.adminTokenWithdraw(
+                    tokenAddress,
+                    operator.address,
+                    amount
+                )
+            )
+                .to.emit(router, "AdminTokenWithdrawn")
+                .withArgs(
+                    tokenAddress,
+                    operator.address,
+                    amount,
+                    owner.address
+                );
+            expect(await token.balanceOf(operator.address)).to.equal(amount);
+        });
+    });
+});
@@ -0,0 +1,132 @@
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import permitHelper, { SignedPermit } from "../scripts/lib/permit";
+import { IAIToken, MMVPaymentRouterV1 } from "../typechain-types";
+
+describe("Permit", function () {
+    let token: IAIToken;
+    let router: MMVPaymentRouterV1;
+
+    let owner: HardhatEthersSigner;
+    let user: HardhatEthersSigner;
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        token = await IAI.deploy(owner.address, ethers.parseEther("1000"));
+        await token.waitForDeployment();
+        await token.transfer(user.address, ethers.parseEther("100"));
+
+        const PaymentRouter = await ethers.getContractFactory(
+            "MMVPaymentRouterV1"
+        );
+        router = await PaymentRouter.deploy();
+        await router.waitForDeployment();
+    });
+
+    async function signUserPermit(value: bigint, minutes = 60) {
+        return permitHelper.signPermit(
+            user,
+            await token.getAddress(),
+            await router.getAddress(),
+            value,
+            await permitHelper.deadlineIn(ethers.provider, minutes)
+        );
+    }
+
+    it("Should build the domain of the token on this network", async function () {
+        expect(
+            await permitHelper.supportsPermit(
+                ethers.provider,
+                await token.getAddress()
+            )
+        ).to.be.true;
+        expect(
+            await permitHelper.supportsPermit(
+                ethers.provider,
+                await router.getAddress()
+            )
+        ).to.be.false;
+
+        const domain = await permitHelper.permitDomain(
+            ethers.provider,
+            await token.getAddress()
+        );
+        expect(domain).to.deep.equal({
+            name: "iAI Token",
+            version: "1",
+            chainId: "31337",
+            verifyingContract: await token.getAddress(),
+        });
+    });
+
+    it("Should recover the owner and let the router collect a payment", async function () {
+        const value = ethers.parseEther("10");
+        // the permit travels as a file
+        const permit = JSON.parse(
+            JSON.stringify(await signUserPermit(value))
+        ) as SignedPermit;
+        expect(permitHelper.recoverPermitSigner(permit)).to.equal(user.address);
+        expect(await permitHelper.verifyPermit(ethers.provider, permit)).to.be
+            .empty;
+
+        // the user sends nothing, the super admin submits permit and payment
+        await (
+            await owner.sendTransaction(
+                await permitHelper.permitTransaction(permit)
+            )
+        ).wait();
+        expect(
+            await token.allowance(user.address, await router.getAddress())
+        ).to.equal(value);
+        await router.pay(user.address, value, await token.getAddress());
+        expect(await token.balanceOf(await router.getAddress())).to.equal(
+            value
+        );
+
+        expect(
+            await permitHelper.verifyPermit(ethers.provider, permit)
+        ).to.deep.equal([
+            "permit nonce 0 is not the owner's current nonce 1, it was used or superseded",
+        ]);
+    });
+
+    it("Should reject a forged, expired or foreign chain permit", async function () {
+        const permit = await signUserPermit(ethers.parseEther("10"), 1);
+
+        const forged = {
+            ...permit,
+            message: {
+                ...permit.message,
+                value: ethers.parseEther("100").toString(),
+            },
+        };
+        const [error] = await permitHelper.verifyPermit(
+            ethers.provider,
+            forged
+        );
+        expect(error).to.match(
+            /^permit is signed by 0x[0-9a-fA-F]{40}, not by its owner/
+        );
+
+        await time.increase(120);
+        const expired = await permitHelper.verifyPermit(
+            ethers.provider,
+            permit
+        );
+        expect(expired).to.have.lengthOf(1);
+        expect(expired[0]).to.match(/^permit deadline .* has passed$/);
+
+        expect(
+            await permitHelper.verifyPermit(ethers.provider, {
+                ...permit,
+                domain: { ...permit.domain, chainId: "137" },
+            })
+        ).to.deep.equal([
+            "permit was signed for chain ID 137, connected to 31337",
+        ]);
+    });
+});
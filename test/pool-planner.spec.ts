@@ -0,0 +1,271 @@
+import { mine, mineUpTo } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import plannerHelper, { BlockTimeSample } from "../scripts/lib/pool-planner";
+import adminHelper, { PoolState } from "../scripts/lib/smartchef-admin";
+import {
+    IAIToken,
+    SmartChefFactory,
+    SmartChefInitializable,
+} from "../typechain-types";
+
+describe("SmartChef extension planner", function () {
+    let owner: HardhatEthersSigner;
+    let stakedToken: IAIToken;
+    let rewardToken: IAIToken;
+    let factory: SmartChefFactory;
+    let chef: SmartChefInitializable;
+    let startBlock: number;
+    let bonusEndBlock: number;
+
+    const rewardPerBlock = ethers.parseEther("10");
+    const day = 24 * 3600;
+
+    beforeEach(async function () {
+        [owner] = await ethers.getSigners();
+        const IAI = await ethers.getContractFactory("IAIToken");
+        stakedToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("1000000")
+        );
+        rewardToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("100000000")
+        );
+        factory = await (
+            await ethers.getContractFactory("SmartChefFactory")
+        ).deploy();
+
+        startBlock = (await ethers.provider.getBlockNumber()) + 20;
+        bonusEndBlock = startBlock + 100;
+        await rewardToken.approve(
+            await factory.getAddress(),
+            ethers.MaxUint256
+        );
+        await factory.deployPool(
+            await stakedToken.getAddress(),
+            await rewardToken.getAddress(),
+            rewardPerBlock,
+            startBlock,
+            bonusEndBlock,
+            0n,
+            owner.address
+        );
+        const events = await factory.queryFilter(
+            factory.filters.NewSmartChefContract()
+        );
+        chef = await ethers.getContractAt(
+            "SmartChefInitializable",
+            events[events.length - 1].args.smartChef
+        );
+    });
+
+    // a block every 2 seconds from the state's block, keeps the numbers exact
+    const sampleOf = (state: PoolState): BlockTimeSample => ({
+        fromBlock: 0,
+        latestBlock: state.blockNumber,
+        latestTimestamp: 1_800_000_000,
+        secondsPerBlock: 2,
+    });
+
+    const state = async () =>
+        adminHelper.readPoolState(await chef.getAddress());
+
+    it("Should measure the block time and project dates onto blocks", async function () {
+        // the first mined block follows the previous one by the wall clock
+        await mine(100, { interval: 2 });
+        const sample = await plannerHelper.measureBlockTime(99);
+        expect(sample.latestBlock).to.equal(
+            await ethers.provider.getBlockNumber()
+        );
+        expect(sample.fromBlock).to.equal(sample.latestBlock - 99);
+        expect(sample.secondsPerBlock).to.equal(2);
+        expect(
+            plannerHelper.blockAt(sample, sample.latestTimestamp + day)
+        ).to.equal(sample.latestBlock + day / 2);
+        // a date between two blocks rounds up to the first block after it
+        expect(
+            plannerHelper.blockAt(sample, sample.latestTimestamp + 3)
+        ).to.equal(sample.latestBlock + 2);
+        expect(
+            plannerHelper.timeAt(sample, sample.latestBlock + day / 2)
+        ).to.equal(sample.latestTimestamp + day);
+    });
+
+    it("Should plan a reschedule with a top-up before the start", async function () {
+        const pool = await state();
+        const { plan, errors } = plannerHelper.planExtension(
+            pool,
+            sampleOf(pool),
+            { extendDays: 1 }
+        );
+        expect(errors).to.be.empty;
+        const newEnd = bonusEndBlock + day / 2;
+        expect(plan).to.include({
+            kind: "reschedule",
+            startBlock,
+            bonusEndBlock: newEnd,
+            rewardsNeeded: (
+                BigInt(newEnd - startBlock) * rewardPerBlock
+            ).toString(),
+            rewardsHeld: ethers.parseEther("1000").toString(),
+            topUp: (BigInt(day / 2) * rewardPerBlock).toString(),
+            excess: "0",
+        });
+
+        const inputs = plannerHelper.commandInputs(
+            pool,
+            plan!,
+            await factory.getAddress()
+        );
+        expect(Object.keys(inputs)).to.deep.equal([
+            "smartchef-admin-start-and-end-blocks.json",
+        ]);
+        const input = inputs["smartchef-admin-start-and-end-blocks.json"] as {
+            __comment: string;
+            pool: string;
+            startBlock: number;
+            bonusEndBlock: number;
+        };
+        expect(input).to.deep.include({
+            pool: await chef.getAddress(),
+            startBlock,
+            bonusEndBlock: newEnd,
+        });
+        expect(input.__comment).to.contain(
+            "Transfer 432000.0 IAI to the pool first"
+        );
+
+        // carrying out the plan funds the whole new program
+        await rewardToken.transfer(await chef.getAddress(), plan!.topUp);
+        await chef.updateStartAndEndBlocks(
+            input.startBlock,
+            input.bonusEndBlock
+        );
+        expect(await rewardToken.balanceOf(await chef.getAddress())).to.equal(
+            BigInt(plan!.rewardsNeeded)
+        );
+    });
+
+    it("Should write the reward rate input of a reschedule at a new rate", async function () {
+        const pool = await state();
+        const startTime = 1_800_000_000 + 200;
+        const { plan } = plannerHelper.planExtension(pool, sampleOf(pool), {
+            startTime,
+            endTime: startTime + 2 * 40,
+            rewardPerBlock: ethers.parseEther("5"),
+        });
+        expect(plan).to.include({
+            startBlock: pool.blockNumber + 100,
+            bonusEndBlock: pool.blockNumber + 140,
+            rewardsNeeded: ethers.parseEther("200").toString(),
+            topUp: "0",
+            excess: ethers.parseEther("800").toString(),
+        });
+        const inputs = plannerHelper.commandInputs(
+            pool,
+            plan!,
+            await factory.getAddress()
+        );
+        expect(inputs["smartchef-admin-reward-per-block.json"]).to.deep.include(
+            { pool: await chef.getAddress(), rewardPerBlock: "5.0" }
+        );
+        expect(inputs["smartchef-admin-start-and-end-blocks.json"])
+            .to.have.property("__comment")
+            .that.contains("The pool holds the rewards needed");
+    });
+
+    it("Should plan a successor for a started pool", async function () {
+        await mineUpTo(startBlock);
+        const pool = await state();
+        expect(
+            plannerHelper.planExtension(pool, sampleOf(pool), {
+                kind: "reschedule",
+                extendDays: 1,
+            }).errors
+        ).to.include(`Pool has started: start block ${startBlock} is reached`);
+
+        const { plan, errors } = plannerHelper.planExtension(
+            pool,
+            sampleOf(pool),
+            { extendDays: 30, leadBlocks: 50 }
+        );
+        expect(errors).to.be.empty;
+        // continues right where the running pool ends
+        expect(plan).to.include({
+            kind: "successor",
+            startBlock: bonusEndBlock,
+            bonusEndBlock: bonusEndBlock + (30 * day) / 2,
+            rewardsHeld: "0",
+            topUp: (BigInt((30 * day) / 2) * rewardPerBlock).toString(),
+        });
+
+        const input = plannerHelper.commandInputs(
+            pool,
+            plan!,
+            await factory.getAddress()
+        )["smartchef-pool.json"];
+        expect(input).to.deep.include({
+            factory: await factory.getAddress(),
+            stakedToken: await stakedToken.getAddress(),
+            rewardToken: await rewardToken.getAddress(),
+            rewardPerBlock: "10.0",
+            startBlock: bonusEndBlock,
+            bonusEndBlock: bonusEndBlock + (30 * day) / 2,
+            poolLimitPerUser: "0",
+            admin: owner.address,
+        });
+        await expect(
+            factory.deployPool(
+                await stakedToken.getAddress(),
+                await rewardToken.getAddress(),
+                BigInt(plan!.rewardPerBlock),
+                plan!.startBlock,
+                plan!.bonusEndBlock,
+                0n,
+                owner.address
+            )
+        ).to.emit(factory, "NewSmartChefContract");
+
+        // an ended pool is followed after the lead time
+        await mineUpTo(bonusEndBlock + 10);
+        const ended = await state();
+        expect(
+            plannerHelper.planExtension(ended, sampleOf(ended), {
+                extendDays: 1,
+                leadBlocks: 50,
+            }).plan
+        ).to.include({
+            startBlock: ended.blockNumber + 50,
+            bonusEndBlock: ended.blockNumber + 50 + day / 2,
+        });
+    });
+
+    it("Should reject incomplete or impossible targets", async function () {
+        const pool = await state();
+        const sample = sampleOf(pool);
+        expect(
+            plannerHelper.planExtension(pool, sample, {}).errors
+        ).to.deep.equal(["set either extendDays or endDate"]);
+        expect(
+            plannerHelper.planExtension(pool, sample, {
+                extendDays: -1,
+                endTime: 1_800_000_000,
+            }).errors
+        ).to.deep.equal([
+            "set either extendDays or endDate",
+            "extendDays: must be a positive number",
+        ]);
+        // ends before the start it keeps
+        expect(
+            plannerHelper.planExtension(pool, sample, {
+                endTime: 1_800_000_000 + 2,
+            }).errors
+        ).to.deep.equal([
+            `New startBlock must be lower than new endBlock: ${startBlock} >= ${
+                pool.blockNumber + 1
+            }`,
+        ]);
+    });
+});
@@ -0,0 +1,175 @@
+import { mineUpTo } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import poolReportHelper from "../scripts/lib/pool-report";
+import {
+    IAIToken,
+    SmartChefFactory,
+    SmartChefInitializable,
+} from "../typechain-types";
+
+describe("SmartChef pool report", function () {
+    let owner: HardhatEthersSigner;
+    let user1: HardhatEthersSigner;
+    let user2: HardhatEthersSigner;
+    let stakedToken: IAIToken;
+    let rewardToken: IAIToken;
+    let factory: SmartChefFactory;
+    let fromBlock: number;
+
+    const rewardPerBlock = ethers.parseEther("2");
+
+    beforeEach(async function () {
+        [owner, user1, user2] = await ethers.getSigners();
+        const IAI = await ethers.getContractFactory("IAIToken");
+        stakedToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("1000000")
+        );
+        rewardToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("1000000")
+        );
+        factory = await (
+            await ethers.getContractFactory("SmartChefFactory")
+        ).deploy();
+        fromBlock = await ethers.provider.getBlockNumber();
+        await rewardToken.approve(
+            await factory.getAddress(),
+            ethers.MaxUint256
+        );
+        for (const user of [user1, user2]) {
+            await stakedToken.transfer(user.address, ethers.parseEther("100"));
+        }
+    });
+
+    async function deployPool(
+        startBlock: number,
+        bonusEndBlock: number
+    ): Promise<SmartChefInitializable> {
+        await factory.deployPool(
+            await stakedToken.getAddress(),
+            await rewardToken.getAddress(),
+            rewardPerBlock,
+            startBlock,
+            bonusEndBlock,
+            0n,
+            owner.address
+        );
+        const events = await factory.queryFilter(
+            factory.filters.NewSmartChefContract()
+        );
+        return ethers.getContractAt(
+            "SmartChefInitializable",
+            events[events.length - 1].args.smartChef
+        );
+    }
+
+    async function deposit(
+        chef: SmartChefInitializable,
+        user: HardhatEthersSigner,
+        amount: bigint
+    ) {
+        await stakedToken
+            .connect(user)
+            .approve(await chef.getAddress(), amount);
+        await chef.connect(user).deposit(amount);
+    }
+
+    it("Should report every pool with its status and solvency", async function () {
+        const now = await ethers.provider.getBlockNumber();
+        const pending = await deployPool(now + 1000, now + 1100);
+        const active = await deployPool(now + 20, now + 500);
+        // the factory salts the pool address with the start block
+        const stopped = await deployPool(now + 21, now + 500);
+        const ended = await deployPool(now + 22, now + 42);
+        const underfunded = await deployPool(now + 1001, now + 1101);
+
+        await deposit(active, user1, ethers.parseEther("30"));
+        await deposit(active, user2, ethers.parseEther("10"));
+        await deposit(ended, user1, ethers.parseEther("5"));
+        await underfunded.emergencyRewardWithdraw(1n);
+        await mineUpTo(now + 50);
+        await stopped.stopReward();
+        await mineUpTo(now + 60);
+
+        const report = await poolReportHelper.reportPools(
+            "hardhat",
+            await factory.getAddress(),
+            { fromBlock, blockRange: 7 }
+        );
+        const blockNumber = report.blockNumber;
+        expect(report.pools.map((pool) => pool.address)).to.deep.equal(
+            await Promise.all(
+                [pending, active, stopped, ended, underfunded].map((chef) =>
+                    chef.getAddress()
+                )
+            )
+        );
+        expect(report.pools.map((pool) => pool.status)).to.deep.equal([
+            "pending",
+            "active",
+            "stopped",
+            "ended",
+            "pending",
+        ]);
+        expect(report.underfunded).to.equal(1);
+        expect(report.pools.map((pool) => pool.underfunded)).to.deep.equal([
+            false,
+            false,
+            false,
+            false,
+            true,
+        ]);
+
+        const activeEntry = report.pools[1];
+        const accrued =
+            (await active.pendingReward(user1.address)) +
+            (await active.pendingReward(user2.address));
+        const future = BigInt(now + 500 - blockNumber) * rewardPerBlock;
+        const funded = 480n * rewardPerBlock;
+        expect(activeEntry).to.include({
+            stakers: 2,
+            stakedSupply: ethers.parseEther("40").toString(),
+            rewardBalance: funded.toString(),
+            accruedRewards: accrued.toString(),
+            futureEmissions: future.toString(),
+            liabilities: (accrued + future).toString(),
+            surplus: (funded - accrued - future).toString(),
+        });
+        expect(activeEntry.rewardToken).to.deep.equal({
+            address: await rewardToken.getAddress(),
+            symbol: "IAI",
+            decimals: 18,
+        });
+
+        // nothing is emitted after the end block, nor after a stop
+        expect(report.pools[2].futureEmissions).to.equal("0");
+        expect(report.pools[3]).to.include({
+            futureEmissions: "0",
+            accruedRewards: (20n * rewardPerBlock).toString(),
+        });
+        expect(report.pools[4]).to.include({
+            futureEmissions: (100n * rewardPerBlock).toString(),
+            surplus: "-1",
+        });
+
+        const markdown = poolReportHelper.renderMarkdown(report);
+        expect(markdown.match(/UNDERFUNDED/g)).to.have.lengthOf(1);
+        expect(markdown).to.contain(
+            `| \`${activeEntry.address}\` | active | IAI / IAI | ${
+                now + 20
+            } - ${now + 500} | 2.0 | 2 | 40.0 |`
+        );
+    });
+
+    it("Should tell a stopped pool from an ended one", async function () {
+        expect(poolReportHelper.poolStatus(10, 20, 30)).to.equal("pending");
+        expect(poolReportHelper.poolStatus(20, 20, 30)).to.equal("active");
+        expect(poolReportHelper.poolStatus(30, 20, 30)).to.equal("ended");
+        expect(poolReportHelper.poolStatus(30, 20, 25, 25)).to.equal("stopped");
+        // rescheduled after a stop before the start
+        expect(poolReportHelper.poolStatus(12, 20, 30, 11)).to.equal("pending");
+    });
+});
@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import roleAuditHelper from "../scripts/lib/role-audit";
+
+describe("Role audit", function () {
+    it("Should rebuild role membership from grant and revoke logs", async function () {
+        const [owner, admin, caller] = await ethers.getSigners();
+        const fromBlock = await ethers.provider.getBlockNumber();
+
+        const CallHelper = await ethers.getContractFactory("CallHelper");
+        const callHelper = await CallHelper.deploy(
+            owner.address,
+            admin.address
+        );
+        await callHelper.waitForDeployment();
+        const callHelperAddress = await callHelper.getAddress();
+
+        const CALLER_ROLE = await callHelper.CALLER_ROLE();
+        const ADMIN_ROLE = await callHelper.ADMIN_ROLE();
+        await callHelper.grantRole(CALLER_ROLE, caller.address);
+        await callHelper.revokeRole(CALLER_ROLE, admin.address);
+        // a contract holding an admin role is not flagged
+        await callHelper.grantRole(ADMIN_ROLE, callHelperAddress);
+
+        const audit = await roleAuditHelper.auditContract(
+            "CallHelper",
+            callHelperAddress,
+            { fromBlock, blockRange: 2 }
+        );
+        const holders = (role: string) =>
+            audit.roles
+                .find((membership) => membership.role === role)!
+                .holders.map((holder) => holder.account);
+
+        expect(
+            audit.roles.map((membership) => membership.role)
+        ).to.have.members(["DEFAULT_ADMIN_ROLE", "ADMIN_ROLE", "CALLER_ROLE"]);
+        expect(holders("DEFAULT_ADMIN_ROLE")).to.deep.equal([owner.address]);
+        expect(holders("ADMIN_ROLE")).to.deep.equal([
+            admin.address,
+            callHelperAddress,
+        ]);
+        expect(holders("CALLER_ROLE")).to.deep.equal([caller.address]);
+        expect(
+            audit.roles.every((membership) =>
+                membership.holders.every((holder) => holder.confirmed)
+            )
+        ).to.be.true;
+
+        expect(audit.findings).to.have.members([
+            `EOA ${owner.address} holds admin role DEFAULT_ADMIN_ROLE`,
+            `EOA ${admin.address} holds admin role ADMIN_ROLE`,
+        ]);
+    });
+});
@@ -0,0 +1,187 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import handoverHelper, { HandoverInput } from "../scripts/lib/role-handover";
+import { CallHelper, IAIToken, RewardDistributor } from "../typechain-types";
+
+describe("Role handover", function () {
+    let deployer: HardhatEthersSigner;
+    let multisig: HardhatEthersSigner;
+    let other: HardhatEthersSigner;
+    let callHelper: CallHelper;
+    let rewardDistributor: RewardDistributor;
+    let iaiToken: IAIToken;
+    let input: HandoverInput;
+
+    beforeEach(async function () {
+        [deployer, multisig, other] = await ethers.getSigners();
+        iaiToken = await (
+            await ethers.getContractFactory("IAIToken")
+        ).deploy(deployer.address, ethers.parseEther("1000"));
+        callHelper = await (
+            await ethers.getContractFactory("CallHelper")
+        ).deploy(deployer.address, deployer.address);
+        rewardDistributor = await (
+            await ethers.getContractFactory("RewardDistributor")
+        ).deploy(await iaiToken.getAddress());
+
+        input = {
+            callHelper: {
+                address: await callHelper.getAddress(),
+                roles: {
+                    DEFAULT_ADMIN_ROLE: [multisig.address],
+                    ADMIN_ROLE: [multisig.address],
+                    CALLER_ROLE: [multisig.address, other.address],
+                },
+            },
+            rewardDistributor: {
+                address: await rewardDistributor.getAddress(),
+                roles: {
+                    DEFAULT_ADMIN_ROLE: [multisig.address],
+                    DISTRIBUTOR_ROLE: [multisig.address],
+                },
+            },
+            iaiToken: {
+                address: await iaiToken.getAddress(),
+                owner: multisig.address,
+            },
+        };
+    });
+
+    it("Should reject invalid addresses and a contract left without admin", function () {
+        expect(handoverHelper.validateInput(input, deployer.address)).to.be
+            .empty;
+        expect(
+            handoverHelper.validateInput({}, deployer.address)
+        ).to.deep.equal([
+            "input must contain at least one of callHelper, rewardDistributor and iaiToken sections",
+        ]);
+
+        input.callHelper!.address = "CallHelper";
+        input.rewardDistributor!.address = ethers.ZeroAddress;
+        input.rewardDistributor!.roles = {
+            DISTRIBUTOR_ROLE: [deployer.address],
+            MINTER_ROLE: [multisig.address],
+        };
+        input.iaiToken = { address: "", owner: ethers.ZeroAddress };
+        expect(
+            handoverHelper.validateInput(input, deployer.address)
+        ).to.deep.equal([
+            'callHelper.address: "CallHelper" is not a valid address',
+            "rewardDistributor.address: must not be the zero address",
+            "rewardDistributor.roles.DISTRIBUTOR_ROLE[0]: must not be the deployer",
+            "rewardDistributor.roles.MINTER_ROLE: unknown role, expected one of DISTRIBUTOR_ROLE, DEFAULT_ADMIN_ROLE",
+            "rewardDistributor.roles.DEFAULT_ADMIN_ROLE: requires at least one account, the contract would be left without admin",
+            'iaiToken.address: "" is not a valid address',
+            "iaiToken.owner: must not be the zero address",
+        ]);
+    });
+
+    it("Should grant first, then transfer ownership and renounce the admin role last", async function () {
+        const { errors, warnings } = await handoverHelper.checkOnChain(
+            input,
+            deployer.address
+        );
+        expect(errors).to.be.empty;
+        expect(warnings).to.deep.equal([
+            `iaiToken.owner ${multisig.address} has no code, it is not a multisig contract`,
+        ]);
+
+        const steps = await handoverHelper.planHandover(
+            input,
+            deployer.address
+        );
+        expect(steps.map(handoverHelper.stepName)).to.deep.equal([
+            `grant CallHelper DEFAULT_ADMIN_ROLE to ${multisig.address}`,
+            `grant CallHelper ADMIN_ROLE to ${multisig.address}`,
+            `grant CallHelper CALLER_ROLE to ${multisig.address}`,
+            `grant CallHelper CALLER_ROLE to ${other.address}`,
+            `grant RewardDistributor DEFAULT_ADMIN_ROLE to ${multisig.address}`,
+            `grant RewardDistributor DISTRIBUTOR_ROLE to ${multisig.address}`,
+            `transfer iAIToken ownership to ${multisig.address}`,
+            "renounce CallHelper ADMIN_ROLE",
+            "renounce CallHelper CALLER_ROLE",
+            "renounce RewardDistributor DISTRIBUTOR_ROLE",
+            "renounce CallHelper DEFAULT_ADMIN_ROLE",
+            "renounce RewardDistributor DEFAULT_ADMIN_ROLE",
+        ]);
+        expect(
+            steps.map(({ irreversible }) => irreversible).indexOf(true)
+        ).to.equal(6);
+
+        const grants = steps.filter(({ action }) => action === "grant");
+        expect(await handoverHelper.unconfirmedGrants(grants)).to.have.length(
+            6
+        );
+        for (const step of steps) {
+            await deployer.sendTransaction(
+                await handoverHelper.populateStep(step)
+            );
+        }
+        expect(await handoverHelper.unconfirmedGrants(grants)).to.be.empty;
+
+        const accounts = handoverHelper.matrixAccounts(input, deployer.address);
+        expect(accounts).to.deep.equal([
+            deployer.address,
+            multisig.address,
+            other.address,
+        ]);
+        expect(
+            await handoverHelper.buildRoleMatrix(input, accounts)
+        ).to.deep.equal({
+            CallHelper: {
+                address: await callHelper.getAddress(),
+                roles: {
+                    ADMIN_ROLE: [multisig.address],
+                    CALLER_ROLE: [multisig.address, other.address],
+                    DEFAULT_ADMIN_ROLE: [multisig.address],
+                },
+            },
+            RewardDistributor: {
+                address: await rewardDistributor.getAddress(),
+                roles: {
+                    DISTRIBUTOR_ROLE: [multisig.address],
+                    DEFAULT_ADMIN_ROLE: [multisig.address],
+                },
+            },
+        });
+        expect(await iaiToken.owner()).to.equal(multisig.address);
+
+        // a finished handover has nothing left to do
+        expect(await handoverHelper.planHandover(input, deployer.address)).to.be
+            .empty;
+    });
+
+    it("Should refuse a handover the deployer cannot complete", async function () {
+        // holds CALLER_ROLE but not the admin role to grant with
+        const foreign = await (
+            await ethers.getContractFactory("CallHelper")
+        ).deploy(other.address, deployer.address);
+        input.callHelper!.address = await foreign.getAddress();
+        // holds DISTRIBUTOR_ROLE without a target to hand it to
+        delete input.rewardDistributor!.roles.DISTRIBUTOR_ROLE;
+        await iaiToken.transferOwnership(other.address);
+
+        expect(
+            (await handoverHelper.checkOnChain(input, deployer.address)).errors
+        ).to.deep.equal([
+            `callHelper: deployer ${deployer.address} does not hold DEFAULT_ADMIN_ROLE and cannot grant the missing roles`,
+            "rewardDistributor.roles.DISTRIBUTOR_ROLE: deployer holds the role but no target is given, renouncing would leave it without holders",
+            `iaiToken: owned by ${other.address}, neither the deployer nor the target owner`,
+        ]);
+    });
+
+    it("Should report the grants not confirmed on-chain", async function () {
+        const steps = await handoverHelper.planHandover(
+            { rewardDistributor: input.rewardDistributor },
+            deployer.address
+        );
+        const grants = steps.filter(({ action }) => action === "grant");
+        await deployer.sendTransaction(
+            await handoverHelper.populateStep(grants[0])
+        );
+        expect(await handoverHelper.unconfirmedGrants(grants)).to.deep.equal([
+            `grant RewardDistributor DISTRIBUTOR_ROLE to ${multisig.address}`,
+        ]);
+    });
+});
@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import safeBatchHelper from "../scripts/lib/safe-batch";
+
+describe("Safe batch", function () {
+    const CALLER_ROLE = ethers.id("CALLER_ROLE");
+
+    async function buildBatch(account: string) {
+        const [safe] = await ethers.getSigners();
+        const CallHelper = await ethers.getContractFactory("CallHelper");
+        const callHelper = await CallHelper.deploy(safe.address, safe.address);
+        await callHelper.waitForDeployment();
+        const to = await callHelper.getAddress();
+
+        return safeBatchHelper.createSafeBatch(
+            "test",
+            "grant and call",
+            safe.address,
+            [
+                {
+                    artifact: "AccessControl",
+                    to,
+                    data: callHelper.interface.encodeFunctionData("grantRole", [
+                        CALLER_ROLE,
+                        account,
+                    ]),
+                },
+                {
+                    artifact: "CallHelper",
+                    to,
+                    data: callHelper.interface.encodeFunctionData("call", [
+                        [account],
+                        ["0x1234"],
+                        [ethers.ZeroHash],
+                    ]),
+                },
+            ]
+        );
+    }
+
+    it("Should describe the calls with the compiled ABI", async function () {
+        const [, account] = await ethers.getSigners();
+        const batch = await buildBatch(account.address);
+
+        expect(batch.chainId).to.equal("31337");
+        const [grant, call] = batch.transactions;
+        expect(grant.data).to.be.null;
+        expect(grant.value).to.equal("0");
+        expect(grant.contractMethod.name).to.equal("grantRole");
+        expect(
+            grant.contractMethod.inputs.map((input) => input.type)
+        ).to.deep.equal(["bytes32", "address"]);
+        expect(grant.contractInputsValues).to.deep.equal({
+            role: CALLER_ROLE,
+            account: account.address,
+        });
+
+        expect(call.contractMethod.name).to.equal("call");
+        expect(call.contractInputsValues).to.deep.equal({
+            _addr: JSON.stringify([account.address]),
+            _bytedata: JSON.stringify(["0x1234"]),
+            _signature: JSON.stringify([ethers.ZeroHash]),
+        });
+    });
+
+    it("Should checksum the content but not the name", async function () {
+        const [, account, other] = await ethers.getSigners();
+        const batch = await buildBatch(account.address);
+        expect(safeBatchHelper.calculateChecksum(batch)).to.equal(
+            batch.meta.checksum
+        );
+
+        batch.meta.name = "renamed";
+        expect(safeBatchHelper.calculateChecksum(batch)).to.equal(
+            batch.meta.checksum
+        );
+
+        batch.transactions[0].contractInputsValues.account = other.address;
+        expect(safeBatchHelper.calculateChecksum(batch)).not.to.equal(
+            batch.meta.checksum
+        );
+    });
+
+    it("Should reject calldata the artifact does not describe", async function () {
+        const [safe] = await ethers.getSigners();
+        await expect(
+            safeBatchHelper.createSafeBatch("test", "", safe.address, [
+                {
+                    artifact: "CallHelper",
+                    to: safe.address,
+                    data: "0xdeadbeef",
+                },
+            ])
+        ).to.be.rejectedWith("calldata 0xdeadbeef is not a function of");
+    });
+});
@@ -0,0 +1,245 @@
+import { mineUpTo } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import adminHelper from "../scripts/lib/smartchef-admin";
+import { IAIToken, SmartChefInitializable } from "../typechain-types";
+
+describe("SmartChef admin preconditions", function () {
+    let owner: HardhatEthersSigner;
+    let user: HardhatEthersSigner;
+    let stakedToken: IAIToken;
+    let rewardToken: IAIToken;
+    let chef: SmartChefInitializable;
+    let startBlock: number;
+    let bonusEndBlock: number;
+
+    const rewardPerBlock = ethers.parseEther("10");
+    const poolLimitPerUser = ethers.parseEther("1000");
+
+    beforeEach(async function () {
+        [owner, user] = await ethers.getSigners();
+        const IAI = await ethers.getContractFactory("IAIToken");
+        stakedToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("1000000")
+        );
+        rewardToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("1000000")
+        );
+        const factory = await (
+            await ethers.getContractFactory("SmartChefFactory")
+        ).deploy();
+
+        startBlock = (await ethers.provider.getBlockNumber()) + 20;
+        bonusEndBlock = startBlock + 100;
+        await rewardToken.approve(
+            await factory.getAddress(),
+            BigInt(bonusEndBlock - startBlock) * rewardPerBlock
+        );
+        await factory.deployPool(
+            await stakedToken.getAddress(),
+            await rewardToken.getAddress(),
+            rewardPerBlock,
+            startBlock,
+            bonusEndBlock,
+            poolLimitPerUser,
+            owner.address
+        );
+        const events = await factory.queryFilter(
+            factory.filters.NewSmartChefContract()
+        );
+        chef = await ethers.getContractAt(
+            "SmartChefInitializable",
+            events[events.length - 1].args.smartChef
+        );
+    });
+
+    const state = async () =>
+        adminHelper.readPoolState(await chef.getAddress());
+
+    it("Should read the pool state", async function () {
+        const pool = await state();
+        expect(pool).to.include({
+            pool: await chef.getAddress(),
+            owner: owner.address,
+            stakedToken: await stakedToken.getAddress(),
+            rewardToken: await rewardToken.getAddress(),
+            rewardSymbol: "IAI",
+            rewardDecimals: 18,
+            rewardPerBlock: rewardPerBlock.toString(),
+            startBlock,
+            bonusEndBlock,
+            hasUserLimit: true,
+            poolLimitPerUser: poolLimitPerUser.toString(),
+            rewardBalance: ethers.parseEther("1000").toString(),
+        });
+        expect(adminHelper.describePoolState(pool)).to.include(
+            "limit per user     1000.0 IAI"
+        );
+        expect(adminHelper.checkOwner(pool, owner.address)).to.be.empty;
+        expect(adminHelper.checkOwner(pool, user.address)).to.deep.equal([
+            `${user.address} is not the pool owner ${owner.address}`,
+        ]);
+    });
+
+    it("Should only allow schedule changes before the start", async function () {
+        const newStart = startBlock + 10;
+        expect(adminHelper.checkUpdateRewardPerBlock(await state())).to.be
+            .empty;
+        expect(
+            adminHelper.checkUpdateStartAndEndBlocks(
+                await state(),
+                newStart,
+                newStart
+            )
+        ).to.deep.equal([
+            `New startBlock must be lower than new endBlock: ${newStart} >= ${newStart}`,
+        ]);
+        await expect(
+            chef.updateStartAndEndBlocks(newStart, newStart)
+        ).to.be.revertedWith("New startBlock must be lower than new endBlock");
+
+        const current = await ethers.provider.getBlockNumber();
+        expect(
+            adminHelper.checkUpdateStartAndEndBlocks(
+                await state(),
+                current + 1,
+                bonusEndBlock
+            )
+        ).to.have.lengthOf(1);
+        await expect(
+            chef.updateStartAndEndBlocks(current + 1, bonusEndBlock)
+        ).to.be.revertedWith(
+            "New startBlock must be higher than current block"
+        );
+
+        expect(
+            adminHelper.checkUpdateStartAndEndBlocks(
+                await state(),
+                newStart,
+                newStart + 50
+            )
+        ).to.be.empty;
+        await chef.updateStartAndEndBlocks(newStart, newStart + 50);
+
+        // the next block is the start block
+        await mineUpTo(newStart - 1);
+        expect(
+            adminHelper.checkUpdateRewardPerBlock(await state())
+        ).to.deep.equal([
+            `Pool has started: start block ${newStart} is reached`,
+        ]);
+        await expect(chef.updateRewardPerBlock(1n)).to.be.revertedWith(
+            "Pool has started"
+        );
+    });
+
+    it("Should only raise or remove the limit per user", async function () {
+        expect(
+            adminHelper.checkUpdatePoolLimitPerUser(
+                await state(),
+                true,
+                poolLimitPerUser
+            )
+        ).to.deep.equal(["New limit must be higher: 1000.0 <= 1000.0 IAI"]);
+        await expect(
+            chef.updatePoolLimitPerUser(true, poolLimitPerUser)
+        ).to.be.revertedWith("New limit must be higher");
+
+        expect(
+            adminHelper.checkUpdatePoolLimitPerUser(await state(), false, 0n)
+        ).to.be.empty;
+        await chef.updatePoolLimitPerUser(false, 0n);
+        expect(
+            adminHelper.checkUpdatePoolLimitPerUser(
+                await state(),
+                true,
+                poolLimitPerUser * 2n
+            )
+        ).to.deep.equal(["Must be set: the pool has no user limit"]);
+        await expect(
+            chef.updatePoolLimitPerUser(true, poolLimitPerUser * 2n)
+        ).to.be.revertedWith("Must be set");
+    });
+
+    it("Should refuse to recover the pool's own tokens", async function () {
+        const pool = await state();
+        const held = { balance: 0n, decimals: 18, symbol: "IAI" };
+        expect(
+            adminHelper.checkRecoverWrongTokens(
+                pool,
+                await stakedToken.getAddress(),
+                0n,
+                held
+            )
+        ).to.deep.equal(["Cannot be staked token"]);
+        await expect(
+            chef.recoverWrongTokens(await stakedToken.getAddress(), 0n)
+        ).to.be.revertedWith("Cannot be staked token");
+        expect(
+            adminHelper.checkRecoverWrongTokens(
+                pool,
+                await rewardToken.getAddress(),
+                0n,
+                held
+            )
+        ).to.deep.equal(["Cannot be reward token"]);
+
+        const other = ethers.Wallet.createRandom().address;
+        expect(
+            adminHelper.checkRecoverWrongTokens(
+                pool,
+                other,
+                ethers.parseEther("1"),
+                held
+            )
+        ).to.deep.equal(["pool holds only 0.0 IAI"]);
+        expect(
+            adminHelper.checkEmergencyRewardWithdraw(
+                pool,
+                ethers.parseEther("1000.1")
+            )
+        ).to.deep.equal(["pool holds only 1000.0 IAI"]);
+        expect(
+            adminHelper.checkEmergencyRewardWithdraw(
+                pool,
+                ethers.parseEther("1000")
+            )
+        ).to.be.empty;
+    });
+
+    it("Should refuse a pool staking its reward token", async function () {
+        // the factory refuses the same token twice, the deployer acts as it
+        const sameChef = await (
+            await ethers.getContractFactory("SmartChefInitializable")
+        ).deploy();
+        await rewardToken.transfer(
+            await sameChef.getAddress(),
+            BigInt(bonusEndBlock - startBlock) * rewardPerBlock
+        );
+        await sameChef.initialize(
+            await rewardToken.getAddress(),
+            await rewardToken.getAddress(),
+            rewardPerBlock,
+            startBlock,
+            bonusEndBlock,
+            poolLimitPerUser,
+            owner.address
+        );
+        await expect(
+            adminHelper.readPoolState(await sameChef.getAddress())
+        ).to.be.rejectedWith(
+            `pool ${await sameChef.getAddress()} stakes its reward token, its reward balance cannot be told apart from the stakes`
+        );
+    });
+
+    it("Should not stop rewards that already ended", async function () {
+        expect(adminHelper.checkStopReward(await state())).to.be.empty;
+        await chef.stopReward();
+        expect(adminHelper.checkStopReward(await state())).to.deep.equal([
+            `rewards already ended at block ${await ethers.provider.getBlockNumber()}`,
+        ]);
+    });
+});
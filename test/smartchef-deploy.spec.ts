@@ -2,6 +2,7 @@ import { mine, mineUpTo } from "@nomicfoundation/hardhat-network-helpers";
 import { expect } from "chai";
 import { Signer } from "ethers";
 import { ethers } from "hardhat";
+import modelHelper from "../scripts/lib/smartchef-model";
 import { ERC20, IAIToken, SmartChefInitializable } from "../typechain-types";
 
 // Helper functions
@@ -77,6 +78,82 @@ const setupSmartChef = async (
     return { factory, chef, config };
 };
 
+// Replays the pool's events through the off-chain model and checks it against
+// the contract to the wei, at every block with events, the block before each
+// and the latest block
+const expectModelToMatchPool = async (
+    chef: SmartChefInitializable,
+    rewardToken: IAIToken,
+    config: {
+        rewardPerBlock: bigint;
+        startBlock: number;
+        bonusEndBlock: number;
+    }
+) => {
+    const logs = await ethers.provider.getLogs({
+        address: await chef.getAddress(),
+        fromBlock: 0,
+    });
+    const events = logs.flatMap((log) => {
+        const parsed = chef.interface.parseLog(log);
+        const event =
+            parsed &&
+            modelHelper.poolEventOf({
+                eventName: parsed.name,
+                blockNumber: log.blockNumber,
+                args: parsed.args,
+            });
+        return event ? [event] : [];
+    });
+    const users = (await ethers.getSigners())
+        .slice(0, 4)
+        .map((signer) => signer.address);
+    const modelConfig = { ...config, rewardDecimals: 18 };
+
+    const latest = await ethers.provider.getBlockNumber();
+    const blocks = new Set([latest]);
+    for (const { blockNumber } of events) {
+        blocks.add(blockNumber - 1);
+        blocks.add(blockNumber);
+    }
+    for (const blockNumber of blocks) {
+        const at = { blockTag: blockNumber };
+        const pool = modelHelper.replay(modelConfig, events, blockNumber);
+        expect({
+            accTokenPerShare: pool.accTokenPerShare,
+            lastRewardBlock: pool.lastRewardBlock,
+            bonusEndBlock: pool.bonusEndBlock,
+            rewardPerBlock: pool.rewardPerBlock,
+        }).to.deep.equal({
+            accTokenPerShare: await chef.accTokenPerShare(at),
+            lastRewardBlock: Number(await chef.lastRewardBlock(at)),
+            bonusEndBlock: Number(await chef.bonusEndBlock(at)),
+            rewardPerBlock: await chef.rewardPerBlock(at),
+        });
+        for (const user of users) {
+            const info = await chef.userInfo(user, at);
+            expect({
+                amount: pool.users.get(user.toLowerCase())?.amount ?? 0n,
+                rewardDebt:
+                    pool.users.get(user.toLowerCase())?.rewardDebt ?? 0n,
+                pending: modelHelper.pendingReward(pool, user, blockNumber),
+            }).to.deep.equal({
+                amount: info.amount,
+                rewardDebt: info.rewardDebt,
+                pending: await chef.pendingReward(user, at),
+            });
+        }
+    }
+
+    const pool = modelHelper.replay(modelConfig, events);
+    const funded =
+        BigInt(config.bonusEndBlock - config.startBlock) *
+        config.rewardPerBlock;
+    expect(await rewardToken.balanceOf(await chef.getAddress())).to.equal(
+        funded - pool.totalPaid
+    );
+};
+
 describe("SmartChef System Tests", function () {
     let owner: Signer, user1: Signer;
     let stakedToken: IAIToken, rewardToken: IAIToken;
@@ -98,6 +175,10 @@ describe("SmartChef System Tests", function () {
         config = setup.config;
     });
 
+    afterEach(async function () {
+        await expectModelToMatchPool(chef, rewardToken, config);
+    });
+
     describe("Basic Operations", () => {
         it("should initialize with correct configuration", async function () {
             expect(await chef.stakedToken()).to.equal(
@@ -416,5 +497,86 @@ describe("SmartChef System Tests", function () {
         });
     });
 
-    // Additional test categories can be added here...
+    describe("Reward Model", () => {
+        // each scenario is cross-checked against the model by afterEach
+        let user2: Signer;
+
+        beforeEach(async function () {
+            user2 = (await ethers.getSigners())[2];
+            await stakedToken.transfer(
+                await user2.getAddress(),
+                ethers.parseEther("1000")
+            );
+            for (const user of [owner, user1, user2]) {
+                await stakedToken
+                    .connect(user)
+                    .approve(await chef.getAddress(), ethers.MaxUint256);
+            }
+        });
+
+        it("should follow a rescheduled pool with a new reward rate", async function () {
+            await chef.deposit(ethers.parseEther("10"));
+            await chef.updateRewardPerBlock(ethers.parseEther("3"));
+            const startBlock = config.startBlock + 5;
+            await chef.updateStartAndEndBlocks(startBlock, startBlock + 40);
+
+            await mineUpTo(startBlock + 10);
+            await chef.connect(user1).deposit(ethers.parseEther("7"));
+            await mineUpTo(startBlock + 20);
+            await chef.withdraw(ethers.parseEther("4"));
+        });
+
+        it("should stop counting rewards at the end block", async function () {
+            await chef.deposit(ethers.parseEther("33"));
+            await mineUpTo(config.startBlock + 100);
+            await chef.connect(user1).deposit(ethers.parseEther("17"));
+            await chef.stopReward();
+            await mine(20);
+            await chef.deposit(0n);
+            await chef.connect(user1).withdraw(ethers.parseEther("17"));
+        });
+
+        it("should clamp the rewards past the bonus end block", async function () {
+            await chef.deposit(ethers.parseEther("1"));
+            await mineUpTo(config.bonusEndBlock - 3);
+            await chef.connect(user1).deposit(ethers.parseEther("3"));
+            await mine(10);
+            await chef.withdraw(ethers.parseEther("1"));
+        });
+
+        it("should forfeit the rewards of an emergency withdrawal", async function () {
+            await chef.deposit(ethers.parseEther("5"));
+            await chef.connect(user2).deposit(ethers.parseEther("15"));
+            await mineUpTo(config.startBlock + 30);
+            await chef.connect(user2).emergencyWithdraw();
+            await mine(5);
+            await chef.connect(user2).deposit(ethers.parseEther("1"));
+            await mine(5);
+        });
+
+        it("should update the pool once for transactions in the same block", async function () {
+            await mineUpTo(config.startBlock + 2);
+            await chef.deposit(ethers.parseEther("2"));
+            await ethers.provider.send("evm_setAutomine", [false]);
+            try {
+                await chef.connect(user1).deposit(ethers.parseEther("9"));
+                await chef.withdraw(ethers.parseEther("1"));
+                await chef.connect(user2).deposit(ethers.parseEther("4"));
+                await mine();
+            } finally {
+                await ethers.provider.send("evm_setAutomine", [true]);
+            }
+            await mine(7);
+        });
+
+        it("should derive the precision factor from the reward token decimals", async function () {
+            expect(modelHelper.precisionFactor(18)).to.equal(
+                await chef.PRECISION_FACTOR()
+            );
+            expect(modelHelper.precisionFactor(6)).to.equal(10n ** 24n);
+            expect(() => modelHelper.precisionFactor(30)).to.throw(
+                "Must be inferior to 30"
+            );
+        });
+    });
 });
@@ -0,0 +1,624 @@
+import { mine } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ethers, network } from "hardhat";
+import { IAIToken, SmartChefInitializable } from "../typechain-types";
+
+// Randomized stateful test of SmartChefInitializable. Each case is a sequence
+// of steps generated from a seed, the invariants are checked after every
+// step. The default run uses the fixed seeds 1 to FUZZ_RUNS, FUZZ_RANDOM=1
+// draws random ones. Their failing sequences are shrunk to minimal ones and
+// written to FUZZ_OUT_DIR, copy them to SEEDS_DIR to replay them on every run.
+//
+//   FUZZ_RANDOM=1 FUZZ_RUNS=200 npx hardhat test test/smartchef-fuzz.spec.ts
+//   FUZZ_SEED=1234 npx hardhat test test/smartchef-fuzz.spec.ts
+
+const SEEDS_DIR = path.join(__dirname, "fuzz-seeds", "smartchef");
+const OUT_DIR =
+    process.env.FUZZ_OUT_DIR ?? path.join(os.tmpdir(), "smartchef-fuzz");
+const RUNS = Number(process.env.FUZZ_RUNS ?? 10);
+const STEPS = Number(process.env.FUZZ_STEPS ?? 30);
+const USERS = 5;
+// pool parameters with odd amounts so the share math has to round
+const REWARD_PER_BLOCK = ethers.parseEther("10") + 7n;
+const REWARD_BLOCKS = 60;
+const POOL_LIMIT = ethers.parseEther("1000");
+
+// amounts are wei strings so the steps round trip through JSON
+type Step =
+    | { op: "deposit"; user: number; amount: string }
+    // share of the user's stake in percent, 0 harvests only
+    | { op: "withdraw"; user: number; percent: number }
+    | { op: "emergencyWithdraw"; user: number }
+    | { op: "mine"; blocks: number }
+    | { op: "stopReward" }
+    | { op: "raiseLimit"; amount: string }
+    | { op: "removeLimit" };
+
+interface Observation {
+    pending: bigint[];
+    amounts: bigint[];
+    stakedBalance: bigint;
+    rewardBalance: bigint;
+}
+
+// returns a description of the violation, undefined when it holds
+type Invariant = (
+    before: Observation,
+    after: Observation,
+    step: Step
+) => string | undefined;
+
+// what the steps did to the pool beyond the observations
+interface Trace {
+    // rewards a stopReward mined after bonusEndBlock added by moving the end
+    // later
+    unfundedEmissions: bigint;
+}
+
+interface Failure {
+    invariant: string;
+    // index of the step after which the invariant failed
+    step: number;
+    message: string;
+    // id of the known finding the failure is explained by
+    known?: string;
+}
+
+interface SavedCase {
+    seed: number;
+    invariant: string;
+    message: string;
+    // the case records a known finding, its replay must keep failing with it
+    known?: string;
+    steps: Step[];
+}
+
+const sum = (values: bigint[]) => values.reduce((a, b) => a + b, 0n);
+
+const FUNDED = BigInt(REWARD_BLOCKS) * REWARD_PER_BLOCK;
+
+// rewards paid and pending beyond the funding, everything paid has left the
+// reward balance
+const owedBeyondFunding = (after: Observation) =>
+    sum(after.pending) - after.rewardBalance;
+
+const INVARIANTS: { [name: string]: Invariant } = {
+    "rewards-within-funding": (_, after) =>
+        owedBeyondFunding(after) <= 0n
+            ? undefined
+            : `paid ${FUNDED - after.rewardBalance} and pending ${sum(
+                  after.pending
+              )} exceed the funded ${FUNDED}`,
+    "staked-balance-matches-stakes": (_, after) =>
+        after.stakedBalance === sum(after.amounts)
+            ? undefined
+            : `pool holds ${after.stakedBalance}, users staked ${sum(
+                  after.amounts
+              )}`,
+    "pending-never-decreases": (before, after, step) => {
+        // a deposit, withdraw or emergency withdrawal of the user harvests
+        // or forfeits the pending reward
+        const harvested = "user" in step ? step.user : -1;
+        for (let user = 0; user < USERS; user++) {
+            if (
+                user !== harvested &&
+                after.pending[user] < before.pending[user]
+            ) {
+                return `pending reward of user ${user} dropped from ${before.pending[user]} to ${after.pending[user]}`;
+            }
+        }
+        return undefined;
+    },
+};
+
+// violations the contract is known to allow. They are reported but do not
+// fail the random runs, the saved cases recording them must keep failing
+// until the contract is fixed
+const KNOWN_FINDINGS: {
+    id: string;
+    invariant: string;
+    reason: string;
+    explains: (trace: Trace, after: Observation) => boolean;
+}[] = [
+    {
+        id: "stop-reward-after-end",
+        invariant: "rewards-within-funding",
+        reason: "stopReward sets bonusEndBlock to the current block without checking that it is before the end, after bonusEndBlock it moves the end later and emits rewards the pool was never funded for",
+        // any overpayment beyond those emissions is a regression of its own
+        explains: (trace, after) =>
+            trace.unfundedEmissions > 0n &&
+            owedBeyondFunding(after) <= trace.unfundedEmissions,
+    },
+];
+
+function knownFinding(invariant: string, trace: Trace, after: Observation) {
+    return KNOWN_FINDINGS.find(
+        (finding) =>
+            finding.invariant === invariant && finding.explains(trace, after)
+    );
+}
+
+// mulberry32, small and good enough to drive the generator
+function random(seed: number) {
+    let state = seed >>> 0;
+    const next = () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const int = (min: number, max: number) =>
+        min + Math.floor(next() * (max - min + 1));
+    // up to max whole tokens with a random wei remainder
+    const amount = (max: number) =>
+        (
+            BigInt(int(0, max)) * 10n ** 18n +
+            BigInt(int(0, 2 ** 30)) * BigInt(int(0, 2 ** 30))
+        ).toString();
+    return { next, int, amount };
+}
+
+function generateSteps(seed: number, count: number): Step[] {
+    const rand = random(seed);
+    const steps: Step[] = [];
+    for (let i = 0; i < count; i++) {
+        const roll = rand.next();
+        const user = rand.int(0, USERS - 1);
+        if (roll < 0.35) {
+            steps.push({ op: "deposit", user, amount: rand.amount(400) });
+        } else if (roll < 0.55) {
+            steps.push({ op: "withdraw", user, percent: rand.int(0, 100) });
+        } else if (roll < 0.8) {
+            steps.push({ op: "mine", blocks: rand.int(1, 12) });
+        } else if (roll < 0.87) {
+            steps.push({ op: "emergencyWithdraw", user });
+        } else if (roll < 0.92) {
+            steps.push({
+                op: "raiseLimit",
+                amount: (POOL_LIMIT + BigInt(rand.amount(2000))).toString(),
+            });
+        } else if (roll < 0.95) {
+            steps.push({ op: "removeLimit" });
+        } else {
+            steps.push({ op: "stopReward" });
+        }
+    }
+    return steps;
+}
+
+/**
+ * shrinkSteps removes steps and lowers the numbers of the remaining ones
+ * while the case keeps failing with the same invariant.
+ */
+async function shrinkSteps(
+    steps: Step[],
+    failure: Failure,
+    stillFails: (steps: Step[]) => Promise<Failure | undefined>,
+    maxAttempts = 300
+) {
+    let attempts = 0;
+    const fails = async (candidate: Step[]) => {
+        attempts++;
+        const result = await stillFails(candidate);
+        if (
+            result?.invariant === failure.invariant &&
+            result.known === failure.known
+        ) {
+            failure = result;
+            return true;
+        }
+        return false;
+    };
+
+    // the steps after the failing one never matter
+    steps = steps.slice(0, failure.step + 1);
+    let removed = true;
+    while (removed && attempts < maxAttempts) {
+        removed = false;
+        for (
+            let size = Math.ceil(steps.length / 2);
+            size >= 1 && attempts < maxAttempts;
+            size = Math.floor(size / 2)
+        ) {
+            for (let start = 0; start + size <= steps.length; ) {
+                const candidate = [
+                    ...steps.slice(0, start),
+                    ...steps.slice(start + size),
+                ];
+                if (await fails(candidate)) {
+                    steps = candidate.slice(0, failure.step + 1);
+                    removed = true;
+                } else {
+                    start += size;
+                }
+                if (attempts >= maxAttempts) {
+                    break;
+                }
+            }
+        }
+    }
+
+    // halve amounts, blocks and percentages
+    for (let i = 0; i < steps.length && attempts < maxAttempts; i++) {
+        for (;;) {
+            const step = steps[i];
+            let smaller: Step | undefined;
+            if (
+                (step.op === "deposit" || step.op === "raiseLimit") &&
+                BigInt(step.amount) > 1n
+            ) {
+                smaller = {
+                    ...step,
+                    amount: (BigInt(step.amount) / 2n).toString(),
+                };
+            } else if (step.op === "mine" && step.blocks > 1) {
+                smaller = { ...step, blocks: Math.floor(step.blocks / 2) };
+            } else if (step.op === "withdraw" && step.percent > 0) {
+                smaller = { ...step, percent: Math.floor(step.percent / 2) };
+            }
+            if (!smaller || attempts >= maxAttempts) {
+                break;
+            }
+            const candidate = [...steps];
+            candidate[i] = smaller;
+            if (!(await fails(candidate))) {
+                break;
+            }
+            steps = candidate;
+        }
+    }
+    return { steps, failure };
+}
+
+function saveCase(dir: string, saved: SavedCase) {
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `${saved.invariant}-${saved.seed}.json`);
+    fs.writeFileSync(file, JSON.stringify(saved, null, 2) + "\n");
+    return file;
+}
+
+describe("SmartChef invariants (fuzz)", function () {
+    this.timeout(10 * 60 * 1000);
+
+    let owner: HardhatEthersSigner;
+    let users: HardhatEthersSigner[];
+    let stakedToken: IAIToken;
+    let rewardToken: IAIToken;
+    let chef: SmartChefInitializable;
+    let snapshot: string;
+
+    before(async function () {
+        const signers = await ethers.getSigners();
+        owner = signers[0];
+        users = signers.slice(1, USERS + 1);
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        stakedToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("10000000")
+        );
+        rewardToken = await IAI.deploy(
+            owner.address,
+            ethers.parseEther("10000000")
+        );
+        const factory = await (
+            await ethers.getContractFactory("SmartChefFactory")
+        ).deploy();
+        const startBlock = (await ethers.provider.getBlockNumber()) + 10;
+        await rewardToken.approve(
+            await factory.getAddress(),
+            BigInt(REWARD_BLOCKS) * REWARD_PER_BLOCK
+        );
+        await factory.deployPool(
+            await stakedToken.getAddress(),
+            await rewardToken.getAddress(),
+            REWARD_PER_BLOCK,
+            startBlock,
+            startBlock + REWARD_BLOCKS,
+            POOL_LIMIT,
+            owner.address
+        );
+        const events = await factory.queryFilter(
+            factory.filters.NewSmartChefContract()
+        );
+        chef = await ethers.getContractAt(
+            "SmartChefInitializable",
+            events[events.length - 1].args.smartChef
+        );
+        for (const user of users) {
+            await stakedToken.transfer(
+                user.address,
+                ethers.parseEther("100000")
+            );
+            await stakedToken
+                .connect(user)
+                .approve(await chef.getAddress(), ethers.MaxUint256);
+        }
+        snapshot = await network.provider.send("evm_snapshot");
+    });
+
+    async function resetPool() {
+        await network.provider.send("evm_revert", [snapshot]);
+        snapshot = await network.provider.send("evm_snapshot");
+    }
+
+    async function observe(): Promise<Observation> {
+        const pending: bigint[] = [];
+        const amounts: bigint[] = [];
+        for (const user of users) {
+            pending.push(await chef.pendingReward(user.address));
+            amounts.push((await chef.userInfo(user.address)).amount);
+        }
+        return {
+            pending,
+            amounts,
+            stakedBalance: await stakedToken.balanceOf(await chef.getAddress()),
+            rewardBalance: await rewardToken.balanceOf(await chef.getAddress()),
+        };
+    }
+
+    // steps are clamped to what the pool accepts, so every shrunk sequence is
+    // still a valid one
+    async function runStep(step: Step, trace: Trace) {
+        switch (step.op) {
+            case "deposit": {
+                const user = users[step.user];
+                let amount = BigInt(step.amount);
+                if (await chef.hasUserLimit()) {
+                    const room =
+                        (await chef.poolLimitPerUser()) -
+                        (await chef.userInfo(user.address)).amount;
+                    amount = amount < room ? amount : room;
+                }
+                await chef.connect(user).deposit(amount);
+                break;
+            }
+            case "withdraw": {
+                const user = users[step.user];
+                const staked = (await chef.userInfo(user.address)).amount;
+                await chef
+                    .connect(user)
+                    .withdraw((staked * BigInt(step.percent)) / 100n);
+                break;
+            }
+            case "emergencyWithdraw":
+                await chef.connect(users[step.user]).emergencyWithdraw();
+                break;
+            case "mine":
+                await mine(step.blocks);
+                break;
+            case "stopReward": {
+                const end = await chef.bonusEndBlock();
+                await chef.stopReward();
+                const movedTo = await chef.bonusEndBlock();
+                if (movedTo > end) {
+                    trace.unfundedEmissions +=
+                        (movedTo - end) * REWARD_PER_BLOCK;
+                }
+                break;
+            }
+            case "raiseLimit":
+                if (
+                    (await chef.hasUserLimit()) &&
+                    BigInt(step.amount) > (await chef.poolLimitPerUser())
+                ) {
+                    await chef.updatePoolLimitPerUser(true, step.amount);
+                }
+                break;
+            case "removeLimit":
+                if (await chef.hasUserLimit()) {
+                    await chef.updatePoolLimitPerUser(false, 0n);
+                }
+                break;
+        }
+    }
+
+    /**
+     * runCase replays the steps on a fresh pool.
+     * @returns the first invariant violation, undefined when all held
+     */
+    async function runCase(
+        steps: Step[],
+        invariants = INVARIANTS
+    ): Promise<Failure | undefined> {
+        await resetPool();
+        const trace: Trace = { unfundedEmissions: 0n };
+        let before = await observe();
+        for (const [i, step] of steps.entries()) {
+            await runStep(step, trace);
+            const after = await observe();
+            for (const [name, invariant] of Object.entries(invariants)) {
+                const message = invariant(before, after, step);
+                if (message) {
+                    const known = knownFinding(name, trace, after)?.id;
+                    return {
+                        invariant: name,
+                        step: i,
+                        message,
+                        ...(known && { known }),
+                    };
+                }
+            }
+            before = after;
+        }
+        return undefined;
+    }
+
+    /**
+     * fuzz runs the seed's generated case, shrinks it on failure and saves it
+     * to the directory when one is given. A known finding is only shrunk to be
+     * saved.
+     * @returns the failing case, undefined when the invariants held
+     */
+    async function fuzz(
+        seed: number,
+        dir: string | undefined,
+        invariants = INVARIANTS
+    ): Promise<(SavedCase & { file?: string }) | undefined> {
+        const steps = generateSteps(seed, STEPS);
+        const failure = await runCase(steps, invariants);
+        if (!failure) {
+            return undefined;
+        }
+        if (failure.known && !dir) {
+            return {
+                seed,
+                invariant: failure.invariant,
+                message: failure.message,
+                known: failure.known,
+                steps,
+            };
+        }
+        const shrunk = await shrinkSteps(steps, failure, (candidate) =>
+            runCase(candidate, invariants)
+        );
+        const saved: SavedCase = {
+            seed,
+            invariant: shrunk.failure.invariant,
+            message: shrunk.failure.message,
+            ...(shrunk.failure.known && { known: shrunk.failure.known }),
+            steps: shrunk.steps,
+        };
+        return dir ? { ...saved, file: saveCase(dir, saved) } : saved;
+    }
+
+    const savedCases = fs.existsSync(SEEDS_DIR)
+        ? fs.readdirSync(SEEDS_DIR).filter((file) => file.endsWith(".json"))
+        : [];
+    for (const file of savedCases) {
+        const saved = JSON.parse(
+            fs.readFileSync(path.join(SEEDS_DIR, file), "utf-8")
+        ) as SavedCase;
+        const finding = KNOWN_FINDINGS.find(({ id }) => id === saved.known);
+        if (saved.known) {
+            it(`Should still break ${saved.invariant} for saved case ${file}, known finding ${saved.known}: ${finding?.reason}`, async function () {
+                expect(
+                    await runCase(saved.steps),
+                    `${file} no longer reproduces ${saved.known}, remove the finding and the case if the contract was fixed`
+                ).to.deep.include({
+                    invariant: saved.invariant,
+                    known: saved.known,
+                });
+            });
+        } else {
+            it(`Should hold the invariants for saved case ${file}`, async function () {
+                expect(await runCase(saved.steps)).to.be.undefined;
+            });
+        }
+    }
+
+    it(`Should hold the invariants for ${RUNS} generated sequences`, async function () {
+        // only explicit fuzz runs report and save what they find
+        const exploring = Boolean(
+            process.env.FUZZ_SEED || process.env.FUZZ_RANDOM
+        );
+        let seeds: number[];
+        if (process.env.FUZZ_SEED) {
+            seeds = [Number(process.env.FUZZ_SEED)];
+        } else if (process.env.FUZZ_RANDOM) {
+            seeds = Array.from({ length: RUNS }, () =>
+                Math.floor(Math.random() * 2 ** 31)
+            );
+        } else {
+            seeds = Array.from({ length: RUNS }, (_, i) => i + 1);
+        }
+        for (const seed of seeds) {
+            const saved = await fuzz(seed, exploring ? OUT_DIR : undefined);
+            if (saved?.known) {
+                if (exploring) {
+                    console.log(
+                        `      seed ${seed} reproduces the known finding ${saved.known}, shrunk to ${saved.steps.length} step(s) in ${saved.file}`
+                    );
+                }
+            } else if (saved) {
+                expect.fail(
+                    `seed ${seed} breaks ${saved.invariant}: ${
+                        saved.message
+                    }, shrunk to ${saved.steps.length} step(s)${
+                        saved.file
+                            ? ` saved to ${saved.file}`
+                            : `, run with FUZZ_SEED=${seed} to save them`
+                    }:\n${JSON.stringify(saved.steps, null, 2)}`
+                );
+            }
+        }
+    });
+
+    it("Should shrink a failing sequence and replay it from the saved case", async function () {
+        // an invariant the pool does not keep, any stake of 500 tokens or
+        // more breaks it
+        const invariants = {
+            ...INVARIANTS,
+            "staked-below-500": ((_, after) =>
+                after.stakedBalance < ethers.parseEther("500")
+                    ? undefined
+                    : `pool holds ${after.stakedBalance}`) as Invariant,
+        };
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fuzz-seeds-"));
+        let saved: (SavedCase & { file?: string }) | undefined;
+        for (let seed = 1; saved?.invariant !== "staked-below-500"; seed++) {
+            saved = await fuzz(seed, dir, invariants);
+        }
+
+        expect(saved.invariant).to.equal("staked-below-500");
+        expect(saved.steps.every((step) => step.op === "deposit")).to.be.true;
+        // no single step can be left out
+        for (let i = 0; i < saved.steps.length; i++) {
+            const fewer = saved.steps.filter((_, j) => j !== i);
+            expect((await runCase(fewer, invariants))?.invariant).not.to.equal(
+                "staked-below-500"
+            );
+        }
+        const replayed = JSON.parse(
+            fs.readFileSync(saved.file!, "utf-8")
+        ) as SavedCase;
+        expect(replayed).to.deep.equal({
+            seed: saved.seed,
+            invariant: saved.invariant,
+            message: saved.message,
+            steps: saved.steps,
+        });
+        expect(await runCase(replayed.steps, invariants)).to.deep.include({
+            invariant: "staked-below-500",
+            step: replayed.steps.length - 1,
+        });
+        fs.rmSync(dir, { recursive: true });
+    });
+
+    it("Should only excuse the overpayment a late stopReward emitted", function () {
+        const unfundedEmissions = 3n * REWARD_PER_BLOCK;
+        // everything funded is paid out, the stakers are owed the rest
+        const owing = (pending: bigint): Observation => ({
+            pending: [pending, 0n, 0n, 0n, 0n],
+            amounts: [0n, 0n, 0n, 0n, 0n],
+            stakedBalance: 0n,
+            rewardBalance: 0n,
+        });
+        expect(
+            knownFinding(
+                "rewards-within-funding",
+                { unfundedEmissions },
+                owing(unfundedEmissions)
+            )?.id
+        ).to.equal("stop-reward-after-end");
+        expect(
+            knownFinding(
+                "rewards-within-funding",
+                { unfundedEmissions },
+                owing(unfundedEmissions + 1n)
+            )
+        ).to.be.undefined;
+        expect(
+            knownFinding(
+                "rewards-within-funding",
+                { unfundedEmissions: 0n },
+                owing(1n)
+            )
+        ).to.be.undefined;
+    });
+});
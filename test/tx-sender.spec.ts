@@ -0,0 +1,211 @@
+import { expect } from "chai";
+import { ethers, network } from "hardhat";
+import confirmationHelper from "../scripts/lib/confirmations";
+import txSender, {
+    TransactionRevertedError,
+    TransactionTimeoutError,
+} from "../scripts/lib/tx-sender";
+
+async function pendingHash(): Promise<string | undefined> {
+    return (
+        await network.provider.send("eth_getBlockByNumber", ["pending", false])
+    ).transactions[0];
+}
+
+describe("Transaction sender", function () {
+    afterEach(async function () {
+        await network.provider.send("evm_setAutomine", [true]);
+    });
+
+    it("Should price within the policy and record the transaction", async function () {
+        const [sender, recipient] = await ethers.getSigners();
+        const sent = await txSender.sendTransaction(
+            sender,
+            { to: recipient.address, value: 1n },
+            "transfer",
+            {
+                policy: {
+                    maxFeePerGasGwei: "5",
+                    maxPriorityFeePerGasGwei: "0.5",
+                },
+            }
+        );
+
+        const tx = await ethers.provider.getTransaction(sent.hash);
+        expect(tx!.maxFeePerGas! <= ethers.parseUnits("5", "gwei")).to.be.true;
+        expect(tx!.maxPriorityFeePerGas).to.equal(
+            ethers.parseUnits("0.5", "gwei")
+        );
+        expect(sent.replaced).to.be.empty;
+        const receipt = await ethers.provider.getTransactionReceipt(sent.hash);
+        expect(txSender.sentTransactions().at(-1)).to.deep.equal({
+            label: "transfer",
+            nonce: tx!.nonce,
+            hash: sent.hash,
+            replaced: [],
+            status: 1,
+            blockNumber: receipt!.blockNumber,
+            gasUsed: "21000",
+            effectiveGasPrice: receipt!.gasPrice.toString(),
+            confirmations: 1,
+        });
+    });
+
+    it("Should wait for the confirmations", async function () {
+        const [sender, recipient] = await ethers.getSigners();
+        let mined = false;
+        const sending = txSender
+            .sendTransaction(
+                sender,
+                { to: recipient.address, value: 1n },
+                "confirmed transfer",
+                { policy: { timeoutSeconds: 0.5 }, confirmations: 3 }
+            )
+            .finally(() => (mined = true));
+        // the transaction itself is automined, two more blocks confirm it
+        for (let block = 0; block < 2; block++) {
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            expect(mined).to.be.false;
+            await network.provider.send("evm_mine", []);
+        }
+        const sent = await sending;
+
+        expect(sent.confirmations).to.equal(3);
+        expect(
+            (await ethers.provider.getBlockNumber()) -
+                sent.receipt.blockNumber +
+                1
+        ).to.equal(3);
+    });
+
+    it("Should notice a transaction removed by a reorg", async function () {
+        const [sender, recipient] = await ethers.getSigners();
+        const snapshot = await network.provider.send("evm_snapshot", []);
+        const sent = await txSender.sendTransaction(
+            sender,
+            { to: recipient.address, value: 1n },
+            "reorged transfer"
+        );
+        await network.provider.send("evm_revert", [snapshot]);
+
+        expect(
+            await confirmationHelper.waitForConfirmations(
+                ethers.provider,
+                "reorged transfer",
+                [sent.hash],
+                sent.receipt,
+                1
+            )
+        ).to.be.null;
+    });
+
+    it("Should fail on a reverted receipt", async function () {
+        const [sender] = await ethers.getSigners();
+        const Token = await ethers.getContractFactory("IAIToken");
+        const token = await Token.deploy(sender.address, 1n);
+        // more than the balance, sent anyway with a fixed gas limit
+        const tx = await token.transfer.populateTransaction(sender.address, 2n);
+
+        // the automining hardhat network throws on send, the receipt is only
+        // checked when the transaction is mined later
+        await network.provider.send("evm_setAutomine", [false]);
+        const sending = txSender
+            .sendTransaction(
+                sender,
+                { ...tx, gasLimit: 100000n },
+                "failing transfer",
+                { policy: { timeoutSeconds: 5 } }
+            )
+            .catch((err) => err);
+        while (!(await pendingHash())) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        await network.provider.send("evm_mine", []);
+        const error = await sending;
+        expect(error).to.be.instanceOf(TransactionRevertedError);
+        expect(error.sent.receipt.status).to.equal(0);
+        expect(txSender.sentTransactions().at(-1)).to.include({
+            label: "failing transfer",
+            status: 0,
+        });
+    });
+
+    it("Should replace a stuck transaction at the same nonce", async function () {
+        const [sender, recipient] = await ethers.getSigners();
+        await network.provider.send("evm_setAutomine", [false]);
+        const sentHashes: string[] = [];
+        const sending = txSender.sendTransaction(
+            sender,
+            { to: recipient.address, value: 1n },
+            "stuck transfer",
+            {
+                policy: { timeoutSeconds: 0.5, bumpPercent: 20 },
+                onSent: (hash) => sentHashes.push(hash),
+            }
+        );
+        // mine only once the first attempt was replaced in the mempool
+        let first: string | undefined;
+        while (!(first = await pendingHash())) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        while ((await pendingHash()) === first) {
+            await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        await network.provider.send("evm_mine", []);
+        const sent = await sending;
+
+        expect(sent.replaced).to.have.lengthOf(1);
+        const mined = await ethers.provider.getTransaction(sent.hash);
+        expect(mined!.nonce).to.equal(sent.nonce);
+        expect(await ethers.provider.getTransaction(sent.replaced[0])).to.be
+            .null;
+        expect(sentHashes).to.deep.equal([...sent.replaced, sent.hash]);
+    });
+
+    it("Should give up with every hash once the cap leaves no room", async function () {
+        const [sender, recipient] = await ethers.getSigners();
+        await network.provider.send("evm_setAutomine", [false]);
+        const { maxFeePerGas } = await ethers.provider.getFeeData();
+
+        const error = await txSender
+            .sendTransaction(
+                sender,
+                { to: recipient.address, value: 1n },
+                "capped transfer",
+                {
+                    policy: {
+                        maxFeePerGasGwei: ethers.formatUnits(
+                            maxFeePerGas!,
+                            "gwei"
+                        ),
+                        timeoutSeconds: 0.3,
+                    },
+                }
+            )
+            .catch((err) => err);
+        expect(error).to.be.instanceOf(TransactionTimeoutError);
+        expect(error.hashes).to.have.lengthOf(1);
+        expect(error.message).to.contain(error.hashes[0]);
+        await network.provider.send("evm_mine", []);
+    });
+
+    it("Should reject an invalid policy", async function () {
+        expect(
+            txSender.validateFeePolicy({
+                maxFeePerGasGwei: "1",
+                maxPriorityFeePerGasGwei: "2",
+                bumpPercent: 5,
+            })
+        ).to.deep.equal([
+            "feePolicy.bumpPercent: must be at least 10, nodes reject smaller replacements",
+        ]);
+        expect(
+            txSender.validateFeePolicy({
+                maxFeePerGasGwei: "1",
+                maxPriorityFeePerGasGwei: "2",
+            })
+        ).to.deep.equal([
+            "feePolicy.maxPriorityFeePerGasGwei: must not exceed maxFeePerGasGwei",
+        ]);
+    });
+});
@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import mockExplorerHelper, { MockExplorer } from "../scripts/lib/mock-explorer";
+import verifyHelper from "../scripts/lib/verify";
+
+describe("Source verification", function () {
+    let explorer: MockExplorer;
+
+    afterEach(async function () {
+        await explorer?.close();
+    });
+
+    it("Should submit the build and constructor arguments", async function () {
+        explorer = await mockExplorerHelper.startMockExplorer();
+        const [owner] = await ethers.getSigners();
+
+        const IAI = await ethers.getContractFactory("IAIToken");
+        const supply = ethers.parseEther("1000000");
+        const token = await IAI.deploy(owner.address, supply);
+        await token.waitForDeployment();
+        const address = await token.getAddress();
+
+        const result = await verifyHelper.verifyContract(
+            address,
+            "contracts/IAI.sol:IAIToken",
+            [owner.address, supply],
+            { enabled: true, apiUrl: explorer.apiUrl }
+        );
+        expect(result.status).to.equal("verified");
+        expect(result.guid).to.equal(explorer.submissions[0].guid);
+
+        const [submission] = explorer.submissions;
+        expect(submission.contractName).to.equal("contracts/IAI.sol:IAIToken");
+        expect(submission.constructorArguments).to.equal(
+            IAI.interface.encodeDeploy([owner.address, supply]).slice(2)
+        );
+
+        const again = await verifyHelper.verifyContract(
+            address,
+            "contracts/IAI.sol:IAIToken",
+            [owner.address, supply],
+            { enabled: true, apiUrl: explorer.apiUrl }
+        );
+        expect(again.status).to.equal("already-verified");
+    });
+
+    it("Should retry while the explorer has not indexed the code", async function () {
+        explorer = await mockExplorerHelper.startMockExplorer({
+            missingBytecodeSubmissions: 2,
+        });
+        const CallHelper = await ethers.getContractFactory("CallHelper");
+        const [owner] = await ethers.getSigners();
+        const callHelper = await CallHelper.deploy(
+            owner.address,
+            owner.address
+        );
+        await callHelper.waitForDeployment();
+
+        const result = await verifyHelper.verifyContract(
+            await callHelper.getAddress(),
+            "contracts/CallHelper.sol:CallHelper",
+            [owner.address, owner.address],
+            { enabled: true, apiUrl: explorer.apiUrl, retryDelayMs: 10 }
+        );
+        expect(result.status).to.equal("verified");
+        expect(explorer.submissions).to.have.length(1);
+    });
+
+    it("Should skip verification when disabled", async function () {
+        explorer = await mockExplorerHelper.startMockExplorer();
+        const result = await verifyHelper.verifyContract(
+            ethers.ZeroAddress,
+            "contracts/CallHelper.sol:CallHelper",
+            [],
+            { enabled: false }
+        );
+        expect(result.status).to.equal("skipped");
+        expect(explorer.submissions).to.be.empty;
+    });
+});